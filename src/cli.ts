@@ -3,10 +3,23 @@ import { makeInitCommand } from "./commands/init.js";
 import { makeAddCommand } from "./commands/add.js";
 import { makeQueryCommand } from "./commands/query.js";
 import { makeValidateCommand } from "./commands/validate.js";
+import { makeWatchCommand } from "./commands/watch.js";
 import { makeUpdateCommand } from "./commands/update.js";
+import { makePromoteCommand } from "./commands/promote.js";
+import { makeEditCommand } from "./commands/edit.js";
+import { makeRenameCommand } from "./commands/rename.js";
+import { makeRelevelCommand } from "./commands/relevel.js";
+import { makeSplitCommand } from "./commands/split.js";
+import { makeHistoryCommand } from "./commands/history.js";
+import { makeRevertCommand } from "./commands/revert.js";
 import { makeDeleteCommand } from "./commands/delete.js";
+import { makeBatchCommand } from "./commands/batch.js";
+import { makeRestoreCommand } from "./commands/restore.js";
+import { makeTrashCommand } from "./commands/trash.js";
 import { makeTagsCommand } from "./commands/tags.js";
 import { makeDedupCommand } from "./commands/dedup.js";
+import { makeServeCommand } from "./commands/serve.js";
+import { makeIndexCommand } from "./commands/index.js";
 
 const program = new Command();
 
@@ -24,6 +37,14 @@ program
     "--table",
     "Output as human-readable tables/trees (for terminal use)",
   )
+  .option(
+    "--actor <name>",
+    "Name recorded in revision history (default: $LATTICE_ACTOR or OS user)",
+  )
+  .hook("preAction", (thisCommand) => {
+    const actor = thisCommand.opts().actor;
+    if (actor) process.env.LATTICE_ACTOR = actor;
+  })
   .addHelpText(
     "after",
     `
@@ -84,6 +105,10 @@ THE FOUR LEVELS (this is the core concept):
   other. A principle may ground itself in both: the axiom gives the
   conceptual why, the percept gives the empirical what.
 
+  These four are the default. A vault may declare its own levels, ranks,
+  folders and bedrock levels under "levels" in lattice.config.json (or
+  lattice.config.yaml); every check then uses those.
+
 WHY THIS MATTERS FOR AN AI AGENT:
   Without this tool, an agent's knowledge is a flat list of assertions with
   no way to verify which ones are grounded and which are confabulated. The
@@ -133,8 +158,14 @@ DATA MODEL:
   Level folders:  01-Axioms/ 02-Percepts/ 03-Principles/ 04-Applications/
   YAML fields:    title (string), level (enum), reduces_to (slug string[]),
                   status (enum), tags (string[]), created (ISO 8601 string)
-  Statuses:       "Integrated/Validated" — chain complete, no contradictions
+  Statuses:       The vault's workflow, declared under "statuses" in
+                  lattice.config.json: its status names, which count as
+                  validated, and which changes 'update --status' allows.
+                  Without one, the built-in workflow applies:
+                  "Integrated/Validated" — chain complete, no contradictions
                   "Tentative/Hypothesis" — missing links or pending review
+                  The examples below use the built-in names; 'lattice
+                  promote' always sets the vault's validated status.
   reduces_to:     Filename slugs without .md (e.g. "20260222140032-a-is-a")
                   Empty for axioms and percepts (they are irreducible bedrock).
   Tags:           Must exist in <vault>/tags.json (fixed master list, ~20-30)
@@ -146,7 +177,14 @@ VAULT STRUCTURE (created by 'lattice init'):
   ├── 03-Principles/        General rules induced from axioms and/or percepts
   ├── 04-Applications/      Concrete decisions deduced from principles
   ├── tags.json             Master tag list (machine-readable)
+  ├── lattice.config.json   Vault settings (propagate_demotion, embeddings, levels, statuses)
   ├── Templates/New-Node.md Skeleton template for Obsidian users
+  ├── 99-Trash/             Deleted/ nodes, merged originals, Undone-Merges/,
+  │                         Split/ originals, Undone-Splits/
+  ├── .history/             Per-node revision logs (<slug>.jsonl)
+  ├── .lattice.lock         Write lock, held while a command writes
+  ├── .lattice.index.json   Parsed-node cache (derived; safe to delete)
+  ├── .lattice.embeddings.json  Node embedding cache (derived; safe to delete)
   └── .lattice              Vault marker file
 
 OUTPUT FORMATS:
@@ -158,13 +196,22 @@ OUTPUT FORMATS:
 EXIT CODES:
   0  Success
   1  Validation error (bad level, missing chain, rogue tag, cycle, etc.)
-  2  Filesystem error (vault not initialized, path not found, permissions)
+  2  Filesystem error (vault not initialized, path not found, permissions,
+     vault locked by another writer)
   3  Bad input (missing required flag, malformed argument, ambiguous match)
 
 COMMANDS:
   init       Create vault structure. Only command that works without a vault.
   add        Create one node. Enforces level, chain, tags, cycle detection.
   update     Modify a node: promote status, add/remove tags or reduces_to.
+             --propagate demotes validated dependents along with it.
+  promote    Validate a node, its chain and/or its dependents, parents first.
+  edit       Reword a node: title, proposition, or slug (references rewritten).
+  rename     Change a node's slug; rewrites reduces_to and merge metadata.
+  relevel    Move a node to another level; re-checks every edge it touches.
+  split      Replace a compound node with atomic parts; dependents re-pointed.
+  history    Show a node's revision timeline (who changed what, when).
+  revert     Restore a node to an earlier revision (re-validated like add).
   query      Read the lattice. Subcommands:
                all           — Every node, with optional level/status/tag filters
                applications  — Validated applications (your action rules)
@@ -174,9 +221,17 @@ COMMANDS:
                tag           — All nodes on a topic, grouped by level
                hollow-chains — Validated nodes whose chain contains a Tentative ancestor
                related       — Multi-hop graph walk to find related knowledge
+               search        — Ranked full-text search over titles, propositions, tags
   validate   Integrity scan. Catches broken chains, cycles, rogue tags.
-  delete     Remove a node. Only Tentative or zero-incoming-links.
+  watch      Validate continuously; report issues as files are saved (--json: NDJSON).
+  delete     Move a node to the trash. Only Tentative or zero-incoming-links.
+  restore    Bring a deleted node back from the trash (links re-validated).
+  trash      Inspect or empty the trash (list / empty).
+  batch      Apply a JSON/NDJSON script of add/update/delete/tag ops atomically.
   tags       Manage the master tag list (list / add / remove).
+  serve      Keep the lattice in memory and serve it (--mcp: MCP tools over stdio,
+             --http: JSON API).
+  index      Manage the parsed-node cache (rebuild / verify).
 
 AGENT WORKFLOW (recommended daily cycle):
   1. lattice validate                    — Check vault health first
@@ -191,10 +246,10 @@ AGENT WORKFLOW (recommended daily cycle):
      lattice add --level axiom ...       — Record the axiom (auto-validated)
   7. When you identify a pattern:
      lattice add --level principle ...   — Induce the rule, link to bedrock
-     lattice update <principle> --status "Integrated/Validated"  — promote when ready
+     lattice promote <principle>         — Promote it when ready
   8. When you decide on an action:
      lattice add --level application ... — Deduce the action, link to principle
-     lattice update <application> --status "Integrated/Validated"  — promote when ready
+     lattice promote <application>       — Promote it when ready
   9. Before any significant decision:
      lattice query chain <decision>      — Verify the proof chain holds
   10. lattice validate                   — Confirm nothing is broken
@@ -215,6 +270,8 @@ PURGE AGENT WORKFLOW (weekly cron job):
     # a parent was demoted AFTER the child was already validated.
     # For each result: re-validate the weak-link ancestor, OR demote
     # the hollow node: lattice update <slug> --status "Tentative/Hypothesis"
+    # Set "propagate_demotion": true in lattice.config.json (or demote
+    # with 'update --propagate') and hollow chains are never created.
 
   Step 3 — Stale tentatives approaching threshold (7-day warning window):
     $ lattice query tentative --older-than 7d --json
@@ -304,10 +361,23 @@ Run 'lattice <command> --help' for full flag syntax and more examples.
 program.addCommand(makeInitCommand());
 program.addCommand(makeAddCommand());
 program.addCommand(makeUpdateCommand());
+program.addCommand(makePromoteCommand());
+program.addCommand(makeEditCommand());
+program.addCommand(makeRenameCommand());
+program.addCommand(makeRelevelCommand());
+program.addCommand(makeSplitCommand());
+program.addCommand(makeHistoryCommand());
+program.addCommand(makeRevertCommand());
 program.addCommand(makeQueryCommand());
 program.addCommand(makeValidateCommand());
+program.addCommand(makeWatchCommand());
 program.addCommand(makeDeleteCommand());
+program.addCommand(makeRestoreCommand());
+program.addCommand(makeTrashCommand());
+program.addCommand(makeBatchCommand());
 program.addCommand(makeTagsCommand());
 program.addCommand(makeDedupCommand());
+program.addCommand(makeServeCommand());
+program.addCommand(makeIndexCommand());
 
 program.parse();
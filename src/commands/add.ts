@@ -1,28 +1,8 @@
-import { Command, Option } from "commander";
-import { resolveVaultPath, requireVault } from "../core/vault.js";
-import { loadTags, validateTags } from "../core/tags.js";
-import {
-  loadAllNodes,
-  createNodeFile,
-  filenameToSlug,
-  generateFilename,
-} from "../core/node.js";
-import { validateReductionLinks, validateParentsAreValidated, findTentativeChildren } from "../core/graph.js";
-import {
-  LEVELS,
-  STATUSES,
-  EXIT,
-  type Level,
-  type Status,
-} from "../core/constants.js";
-import {
-  LatticeError,
-  InvalidLevelError,
-  InvalidStatusError,
-  MissingReductionError,
-} from "../util/errors.js";
+import { Command } from "commander";
+import { Lattice } from "../lattice.js";
+import type { Level, Status } from "../core/constants.js";
 import { resolveFormat, formatCreated } from "../util/format.js";
-import { handleError } from "../util/cli-helpers.js";
+import { handleError, readStdin } from "../util/cli-helpers.js";
 
 export function makeAddCommand(): Command {
   const cmd = new Command("add");
@@ -31,7 +11,7 @@ export function makeAddCommand(): Command {
     .description("Create one atomic node with enforced validation")
     .requiredOption(
       "--level <level>",
-      "percept | axiom | principle | application",
+      "percept | axiom | principle | application (or as configured)",
     )
     .requiredOption(
       "--title <title>",
@@ -48,13 +28,9 @@ export function makeAddCommand(): Command {
       [] as string[],
     )
     .option("--tags <tags>", "Comma-separated tags from master list")
-    .addOption(
-      new Option(
-        "--status <status>",
-        "Validation status. Ignored for axiom/percept — bedrock is always Integrated/Validated.",
-      )
-        .choices([...STATUSES])
-        .default("Tentative/Hypothesis"),
+    .option(
+      "--status <status>",
+      "A status of the vault's workflow (default: its initial status). Ignored for bedrock levels, which always hold the validated status.",
     )
     .addHelpText(
       "after",
@@ -119,14 +95,20 @@ FILENAME GENERATION:
   (timestamp with seconds, slug max 60 chars, full title in YAML)
 
 FLAGS:
-  --level         REQUIRED. percept | axiom | principle | application
+  --level         REQUIRED. percept | axiom | principle | application, or a
+                  level declared in lattice.config.json
   --title         REQUIRED. Full human-readable title.
   --proposition   REQUIRED. The claim in propositional form. Use "-" for stdin.
   -r, --reduces-to  Slug of parent node (repeatable). Required for principles/applications.
   --tags          Comma-separated tags from master list (e.g. "career,decisions")
-  --status        "Integrated/Validated" or "Tentative/Hypothesis" (default: Tentative)
-                  Ignored for axiom/percept — bedrock is always Integrated/Validated.
-                  Cannot be Integrated/Validated if any parent is still Tentative/Hypothesis.
+  --status        A status of the vault's workflow (see "statuses" in
+                  lattice.config.json). Default: its initial status —
+                  Tentative/Hypothesis in the built-in workflow.
+                  Ignored for bedrock levels (axiom/percept by default):
+                  they always hold the validated status, the first
+                  grounded one (Integrated/Validated built in).
+                  A grounded status is refused while any parent is not
+                  grounded.
 
 OUTPUT ON SUCCESS (exit 0):
   Default (TOON): structured { created, slug, node } object
@@ -140,9 +122,9 @@ ERROR EXAMPLES:
   "Error: Target node not found: 20260303000000-nonexistent"
   "Error: Cycle detected: adding this link creates a loop"
   "Error: Rogue tag 'vibes' not in tags.json"
-  "Error: Cannot validate: parent node '<slug>' is still Tentative/Hypothesis"
+  "Error: Cannot validate: parent node '<slug>' is still <its status>"
 
-GOLDEN EXAMPLES:
+GOLDEN EXAMPLES (statuses as in the built-in workflow):
 
   1. Record an observation (percept — no reduces_to, always Integrated/Validated):
      $ lattice add --level percept \\
@@ -159,7 +141,7 @@ GOLDEN EXAMPLES:
          the developer's intent." \\
          --tags "career"
 
-  3. Induce a principle from axioms and/or percepts (starts Tentative by default):
+  3. Induce a principle from axioms and/or percepts (starts in the initial status):
      $ lattice add --level principle \\
          --title "Null inputs must be validated at API boundary" \\
          --proposition "Because code acts on what it contains (axiom), and \\
@@ -169,7 +151,7 @@ GOLDEN EXAMPLES:
          -r 20260303091500-api-returns-500-on-null-userid \\
          --tags "career,decisions"
      # Then promote once you are satisfied:
-     # lattice update null-inputs-must-be --status "Integrated/Validated"
+     # lattice promote null-inputs-must-be
 
   4. Deduce an action from a validated principle (can be immediately validated):
      $ lattice add --level application \\
@@ -194,137 +176,39 @@ GOLDEN EXAMPLES:
   cmd.action(async (opts) => {
     try {
       const parentOpts = cmd.parent?.opts() ?? {};
-      const vaultPath = resolveVaultPath(parentOpts.vault ?? ".");
-      await requireVault(vaultPath);
+      const lattice = await Lattice.open(parentOpts.vault ?? ".");
       const format = resolveFormat(parentOpts);
 
-      // Validate level
-      const level = opts.level as Level;
-      if (!LEVELS.includes(level)) {
-        throw new InvalidLevelError(opts.level);
-      }
-
-      // Validate status
-      const statusInput = opts.status as Status;
-      if (!STATUSES.includes(statusInput)) {
-        throw new InvalidStatusError(opts.status);
-      }
-
       // Read proposition (from flag or stdin)
       let proposition = opts.proposition as string;
       if (proposition === "-") {
         proposition = await readStdin();
       }
-      proposition = proposition.trim();
-      if (!proposition) {
-        throw new LatticeError(
-          "Proposition cannot be empty",
-          EXIT.BAD_INPUT,
-        );
-      }
-
-      // Parse tags
-      const tags: string[] = opts.tags
-        ? (opts.tags as string)
-            .split(",")
-            .map((t: string) => t.trim().toLowerCase())
-            .filter(Boolean)
-        : [];
-
-      // Validate tags against master list
-      const masterTags = await loadTags(vaultPath);
-      validateTags(tags, masterTags);
-
-      // Parse reduces_to
-      const reducesTo: string[] = (opts.reducesTo as string[]).map((r) =>
-        r.replace(/\.md$/, "").trim(),
-      );
-
-      // Bedrock nodes (axiom, percept) are always Integrated/Validated.
-      // Their existence in the vault is their validation — no lifecycle needed.
-      const isBedrock = level === "percept" || level === "axiom";
-      const status: Status = isBedrock ? "Integrated/Validated" : statusInput;
-
-      // Validate: only bedrock nodes may have empty reduces_to
-      if (!isBedrock && reducesTo.length === 0) {
-        throw new MissingReductionError(level);
-      }
-
-      // Validate: bedrock nodes must not have reduces_to
-      if (isBedrock && reducesTo.length > 0) {
-        throw new LatticeError(
-          `${level === "axiom" ? "Axiom" : "Percept"} nodes must not have --reduces-to links (they are irreducible bedrock)`,
-          EXIT.BAD_INPUT,
-        );
-      }
-
-      // Load existing nodes for validation
-      const nodes = await loadAllNodes(vaultPath);
-
-      // Generate the slug to check for duplicates and use in cycle detection
-      const filename = generateFilename(opts.title);
-      const newSlug = filenameToSlug(filename);
-
-      // Validate reduction links (existence, level order, cycles)
-      if (reducesTo.length > 0) {
-        validateReductionLinks(newSlug, level, reducesTo, nodes);
-      }
 
-      // Validate: cannot be Integrated/Validated if any parent is not
-      if (status === "Integrated/Validated" && reducesTo.length > 0) {
-        validateParentsAreValidated(reducesTo, nodes);
-      }
-
-      // Create the node
-      const result = await createNodeFile(
-        vaultPath,
-        {
-          title: opts.title,
-          level,
-          reduces_to: reducesTo,
-          status,
-          tags,
-          proposition,
-        },
-        new Set(nodes.keys()),
-      );
-
-      // Output
-      const nodeObj = {
+      const result = await lattice.add({
+        level: opts.level as Level,
         title: opts.title,
-        level,
-        reduces_to: reducesTo,
-        status,
-        tags,
         proposition,
-      };
-
-      // Check for Tentative nodes that reduce to this one and may now be promotable
-      let promotionHints: Array<{ slug: string; title: string }> | undefined;
-      if (status === "Integrated/Validated") {
-        nodes.set(result.slug, {
-          slug: result.slug,
-          title: opts.title,
-          level,
-          reduces_to: reducesTo,
-          status,
-          tags,
-          proposition,
-          filePath: result.filePath,
-          created: new Date(),
-        });
-        const tentativeChildren = findTentativeChildren(result.slug, nodes);
-        if (tentativeChildren.length > 0) {
-          promotionHints = tentativeChildren.map((n) => ({ slug: n.slug, title: n.title }));
-        }
-      }
+        reduces_to: opts.reducesTo as string[],
+        tags: opts.tags ? (opts.tags as string).split(",") : [],
+        status: opts.status as Status | undefined,
+      });
 
+      const { node } = result;
+      const nodeObj = {
+        title: node.title,
+        level: node.level,
+        reduces_to: node.reduces_to,
+        status: node.status,
+        tags: node.tags,
+        proposition: node.proposition,
+      };
       const output = formatCreated(
         result.slug,
         result.filePath,
         nodeObj,
         format,
-        promotionHints,
+        result.promotionHints.length > 0 ? result.promotionHints : undefined,
       );
       process.stdout.write(output + "\n");
     } catch (err) {
@@ -334,41 +218,3 @@ GOLDEN EXAMPLES:
 
   return cmd;
 }
-
-/**
- * Read from stdin with a 30-second timeout.
- * If stdin is a TTY (no pipe), warns on stderr and times out.
- */
-async function readStdin(): Promise<string> {
-  const TIMEOUT_MS = 30_000;
-
-  if (process.stdin.isTTY) {
-    process.stderr.write(
-      "Warning: Reading proposition from stdin (TTY detected). " +
-        "Pipe input or press Ctrl+D when done. Timeout: 30s.\n",
-    );
-  }
-
-  return new Promise((resolve, reject) => {
-    const chunks: Buffer[] = [];
-    const timer = setTimeout(() => {
-      process.stdin.destroy();
-      reject(
-        new LatticeError(
-          "Stdin read timed out after 30 seconds. Pipe input or use --proposition with text directly.",
-          EXIT.BAD_INPUT,
-        ),
-      );
-    }, TIMEOUT_MS);
-
-    process.stdin.on("data", (chunk) => chunks.push(chunk));
-    process.stdin.on("end", () => {
-      clearTimeout(timer);
-      resolve(Buffer.concat(chunks).toString("utf-8"));
-    });
-    process.stdin.on("error", (err) => {
-      clearTimeout(timer);
-      reject(err);
-    });
-  });
-}
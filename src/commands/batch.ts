@@ -0,0 +1,156 @@
+import { Command } from "commander";
+import { readFile } from "node:fs/promises";
+import { resolveVaultPath, requireVault } from "../core/vault.js";
+import { loadAllNodes } from "../core/node.js";
+import { loadTags } from "../core/tags.js";
+import { loadConfig } from "../core/config.js";
+import { parseBatch, planBatch, applyBatch } from "../core/batch.js";
+import { FilesystemError } from "../util/errors.js";
+import { resolveFormat } from "../util/format.js";
+import { encode } from "@toon-format/toon";
+import { handleError, readStdin, lockVault } from "../util/cli-helpers.js";
+
+export function makeBatchCommand(): Command {
+  const cmd = new Command("batch");
+
+  cmd
+    .description("Apply a script of add/update/delete/tag operations atomically")
+    .argument("<file>", "JSON or NDJSON file of operations, or '-' for stdin")
+    .option("--dry-run", "Validate the whole script without writing")
+    .addHelpText(
+      "after",
+      `
+WHAT THIS DOES:
+  Runs many operations in one process, against one load of the vault,
+  with all-or-nothing semantics:
+    1. Every operation is validated in order against an in-memory copy of
+       the lattice, each one seeing the effects of those before it. Checks
+       are the same as the single commands: level, status, tags, rank
+       order, cycles, validated parents, delete protection.
+    2. Only if ALL pass is anything written. All files are staged and
+       committed together, so a failed batch never leaves a half-built
+       chain.
+
+INPUT:
+  A JSON array of operation objects, or NDJSON (one object per line).
+
+  { "op": "add", "id": "p1", "level": "percept", "title": "...",
+    "proposition": "...", "tags": ["..."], "reduces_to": ["<slug>"],
+    "status": "<status; default: the vault's initial status>" }
+  { "op": "update", "node": "<slug|$id>", "status": "...",
+    "add_tags": [...], "remove_tags": [...],
+    "add_reduces_to": [...], "remove_reduces_to": [...],
+    "propagate": true }
+  { "op": "delete", "node": "<slug|$id>" }
+  { "op": "tag", "action": "add", "tag": "nutrition", "reason": "<slug|$id>" }
+  { "op": "tag", "action": "remove", "tag": "hobbies" }
+
+  PLACEHOLDERS: an add with "id": "p1" can be referred to as "$p1" in any
+  later "node", "reduces_to", "add_reduces_to" or "reason" — the slug is not
+  known until the batch runs. "node" also accepts partial slugs and title
+  substrings, as on the command line.
+
+OUTPUT:
+  Default (TOON): { applied, placeholders: { id: slug }, results: [...], dry_run }
+  --json: same as JSON
+  --table: one line per operation
+  On failure nothing is written; the error names the failing operation:
+    Error: Operation 3 (add): Level mismatch: ...
+
+GOLDEN EXAMPLES:
+
+  1. Build a full chain in one call:
+     $ cat chain.json
+     [
+       { "op": "add", "id": "obs", "level": "percept",
+         "title": "Deploy on March 3 crashed after skipping tests",
+         "proposition": "...", "tags": ["failure"] },
+       { "op": "add", "id": "rule", "level": "principle",
+         "title": "Skipping tests leads to production bugs",
+         "proposition": "...", "reduces_to": ["$obs"] },
+       { "op": "update", "node": "$rule", "status": "Integrated/Validated" }
+     ]
+     $ lattice batch chain.json --dry-run
+     $ lattice batch chain.json
+
+  2. Stream operations from an agent:
+     $ agent-emit-ops | lattice batch - --json
+`,
+    );
+
+  cmd.action(async (file: string, opts) => {
+    try {
+      const parentOpts = cmd.parent?.opts() ?? {};
+      const vaultPath = resolveVaultPath(parentOpts.vault ?? ".");
+      await requireVault(vaultPath);
+      await lockVault(vaultPath);
+      const format = resolveFormat(parentOpts);
+
+      let raw: string;
+      if (file === "-") {
+        raw = await readStdin();
+      } else {
+        try {
+          raw = await readFile(file, "utf-8");
+        } catch (err) {
+          throw new FilesystemError(
+            `Cannot read batch file '${file}': ${(err as Error).message}`,
+          );
+        }
+      }
+
+      const ops = parseBatch(raw);
+      const plan = planBatch(
+        vaultPath,
+        ops,
+        await loadAllNodes(vaultPath),
+        await loadTags(vaultPath),
+        await loadConfig(vaultPath),
+      );
+
+      if (!opts.dryRun) {
+        await applyBatch(vaultPath, plan);
+      }
+
+      const result = {
+        applied: opts.dryRun ? 0 : plan.results.length,
+        placeholders: plan.placeholders,
+        results: plan.results,
+        dry_run: Boolean(opts.dryRun),
+      };
+      switch (format) {
+        case "json":
+          process.stdout.write(JSON.stringify(result, null, 2) + "\n");
+          break;
+        case "toon":
+          process.stdout.write(encode(result) + "\n");
+          break;
+        case "table": {
+          const lines = plan.results.map((r) => {
+            const target = r.slug ?? r.tag ?? "";
+            const detail = r.changes
+              ? ` (${Object.entries(r.changes).map(([k, v]) => `${k}: ${v}`).join(", ")})`
+              : "";
+            const propagated = r.propagated?.length
+              ? ` [demoted: ${r.propagated.join(", ")}]`
+              : "";
+            const hollow = r.hollow?.length ? ` [now hollow: ${r.hollow.join(", ")}]` : "";
+            return `${String(r.index + 1).padStart(3)}. ${r.op.padEnd(6)} ${target}${detail}${propagated}${hollow}`;
+          });
+          lines.push(
+            "",
+            opts.dryRun
+              ? `Valid: ${plan.results.length} operation(s). Nothing written (--dry-run).`
+              : `Applied ${plan.results.length} operation(s).`,
+          );
+          process.stdout.write(lines.join("\n") + "\n");
+          break;
+        }
+      }
+    } catch (err) {
+      handleError(err);
+    }
+  });
+
+  return cmd;
+}
@@ -1,33 +1,18 @@
 import { Command, Option } from "commander";
 import { resolveVaultPath, requireVault } from "../core/vault.js";
-import { loadAllNodes, updateNodeFile, createNodeFile, MergedFromEntry, parseNodeFile } from "../core/node.js";
-import { validateGraph } from "../core/graph.js";
-import { loadTags } from "../core/tags.js";
-import { LEVELS } from "../core/constants.js";
-import { resolveFormat } from "../util/format.js";
-import { handleError } from "../util/cli-helpers.js";
+import { loadAllNodes, updateNodeFile } from "../core/node.js";
+import { Lattice } from "../lattice.js";
+import { generateGroupId, selectDedupCandidates } from "../core/dedup.js";
+import type { Level } from "../core/constants.js";
+import { isLevel } from "../core/levels.js";
+import { resolveFormat, formatDedupList } from "../util/format.js";
+import { encode } from "@toon-format/toon";
+import { handleError, lockVault } from "../util/cli-helpers.js";
 import type { LatticeNode } from "../core/node.js";
 import type { Command as CommanderCommand } from "commander";
 import { execSync } from "child_process";
 import { existsSync } from "fs";
-import { mkdir, rename } from "fs/promises";
-import { join, basename } from "path";
-
-/**
- * Generate a unique deduplication group ID in format DG-YYYYMMDDHHMM-XXX
- */
-function generateGroupId(): string {
-  const now = new Date();
-  const timestamp = [
-    now.getFullYear().toString(),
-    (now.getMonth() + 1).toString().padStart(2, "0"),
-    now.getDate().toString().padStart(2, "0"),
-    now.getHours().toString().padStart(2, "0"),
-    now.getMinutes().toString().padStart(2, "0"),
-  ].join("");
-  const random = Math.floor(Math.random() * 1000).toString().padStart(3, "0");
-  return `DG-${timestamp}-${random}`;
-}
+import { join } from "path";
 
 /**
  * Attempt to commit changes to git if vault is in a git repo.
@@ -57,9 +42,11 @@ export function makeDedupCommand(): CommanderCommand {
 
 WORKFLOW OVERVIEW:
 1. Find candidates: 'candidates' → AI analysis → 'group create'
+   (or offline: 'candidates --score [--auto-group]', 'structural')
 2. Review group: 'group show' → decide on merge
 3. Merge duplicates: 'merge' (creates canonical node, trashes old ones)
 4. Undo if needed: 'undo' (restores everything)
+See open groups and past merges at any time: 'list'
 
 This system maintains epistemological hygiene by ensuring each objective truth
 is represented exactly once, while preserving full audit trails and reversibility.
@@ -72,6 +59,9 @@ EXAMPLES:
   lattice dedup merge --deduplication-group DG-202401011200-123 \\
     --title "Combined principle" --level principle --proposition "..."
 
+  # Offline deduplication (CI, agents): score locally, group directly
+  lattice dedup candidates --level principle --score --auto-group --threshold 0.7
+
   # Manual deduplication
   lattice dedup group create --node slug1 --node slug2
   lattice dedup merge --old-node slug1 --old-node slug2 \\
@@ -81,6 +71,8 @@ EXAMPLES:
   lattice dedup undo merged-node-slug --reason "Wrong merge"`);
 
   dedup.addCommand(makeCandidatesCommand());
+  dedup.addCommand(makeStructuralCommand());
+  dedup.addCommand(makeListCommand());
   dedup.addCommand(makeGroupCommand());
   dedup.addCommand(makeMergeCommand());
   dedup.addCommand(makeUndoCommand());
@@ -106,6 +98,40 @@ OUTPUT:
 - Ready to paste into AI chat for duplicate analysis
 - AI will suggest 'lattice dedup group create' commands
 
+SIMILARITY MODE (--similarity <threshold>):
+Instead of a prompt, compares node embeddings offline and lists every pair
+whose cosine similarity is at least the threshold (0-1), most similar first.
+--max-candidates defaults to all nodes at the level in this mode.
+- Default (TOON) / --json: { provider, level, threshold, scanned,
+  pairs: [{ a, a_title, b, b_title, similarity }] }
+- --table: one line per pair, then ready-to-run 'group create' commands
+
+Embeddings come from the provider in lattice.config.json:
+  "embeddings": { "provider": "hashed" }        built in, offline (default):
+                                                 hashed words and word pairs
+  "embeddings": { "provider": "command",        any local model: texts as a
+                  "command": "python3 embed.py", JSON array on stdin, vectors
+                  "model": "minilm-l6" }         as a JSON array on stdout
+Vectors are cached per node in .lattice.embeddings.json; only new or edited
+nodes are embedded again. Changing "model" discards the cache.
+
+SCORE MODE (--score, --auto-group):
+Scores every pair locally and deterministically, no AI or model needed:
+  text     0.4  shared words of title + proposition (Jaccard)
+  title    0.3  1 - edit distance / longer title length
+  parents  0.2  shared reduces_to entries (Jaccard)
+  tags     0.1  shared tags (Jaccard)
+A signal absent on both nodes (no parents, no tags) is left out and the
+others reweighted. Pairs scoring >= --threshold (default 0.6) are joined
+into clusters. Nodes already in a group are skipped.
+- Default (TOON) / --json: { level, threshold, scanned, skipped, dryRun,
+  clusters: [{ group, score, nodes: [{ slug, title }],
+               pairs: [{ a, b, score, signals: { text, title, parents, tags } }] }] }
+- --table: each cluster with its pair scores and a 'group create' command
+--auto-group marks each cluster as a new deduplication group directly
+(with --dry-run: shows the groups it would create). Review them with
+'group show' before merging.
+
 EXAMPLES:
   # Scan recent principles for duplicates
   lattice dedup candidates --level principle --after 2024-01-01
@@ -114,10 +140,24 @@ EXAMPLES:
   lattice dedup candidates --level principle --max-candidates 20
 
   # Full scan of all axioms
-  lattice dedup candidates --level axiom`)
+  lattice dedup candidates --level axiom
+
+  # Ranked pairs of near-identical principles, no AI needed
+  lattice dedup candidates --level principle --similarity 0.85 --table
+
+  # Scored clusters with ready-made group commands
+  lattice dedup candidates --level principle --score --table
+
+  # Headless: group every cluster scoring 0.75 or more
+  lattice dedup candidates --level principle --auto-group --threshold 0.75`)
     .requiredOption("--level <level>", "Knowledge level: axiom | percept | principle | application")
     .option("--after <date>", "ISO date (YYYY-MM-DD). Only scan nodes created after this date.", "1970-01-01")
-    .option("--max-candidates <N>", "Maximum nodes to include in scan (default: 100)", "100");
+    .option("--max-candidates <N>", "Maximum nodes to include in scan (default: 100; all with --similarity)")
+    .option("--similarity <threshold>", "List pairs with embedding similarity >= threshold (0-1) instead of a prompt")
+    .option("--score", "Score pairs locally and list duplicate clusters instead of a prompt")
+    .option("--threshold <score>", "With --score: minimum pair score (0-1, default: 0.6)")
+    .option("--auto-group", "Create a deduplication group for each cluster (implies --score)")
+    .option("--dry-run", "With --auto-group: show the groups without creating them");
 
   cmd.action(async (opts) => {
     try {
@@ -125,19 +165,106 @@ EXAMPLES:
       const vaultPath = resolveVaultPath(parentOpts.vault ?? ".");
       await requireVault(vaultPath);
 
-      const level = opts.level as typeof LEVELS[number];
-      if (!LEVELS.includes(level)) {
+      const level = opts.level as Level;
+      if (!isLevel(level)) {
         throw new Error(`Invalid level: ${level}`);
       }
 
       const afterDate = new Date(opts.after as string);
+      const scoring = Boolean(opts.score || opts.autoGroup);
+
+      if (scoring && opts.similarity !== undefined) {
+        throw new Error("--similarity cannot be combined with --score or --auto-group");
+      }
+
+      if (scoring) {
+        const lattice = await Lattice.open(vaultPath);
+        const result = await lattice.duplicates(level, {
+          threshold: opts.threshold !== undefined ? Number(opts.threshold) : undefined,
+          after: afterDate,
+          max: opts.maxCandidates ? parseInt(opts.maxCandidates as string) || undefined : undefined,
+          autoGroup: Boolean(opts.autoGroup),
+          dryRun: Boolean(opts.dryRun),
+        });
+        const output = { level, ...result };
+        const format = resolveFormat(parentOpts);
+        if (format === "json") {
+          console.log(JSON.stringify(output, null, 2));
+          return;
+        }
+        if (format === "toon") {
+          console.log(encode(output));
+          return;
+        }
+
+        const skipped = result.skipped > 0 ? ` (${result.skipped} already grouped, skipped)` : "";
+        if (result.clusters.length === 0) {
+          console.log(`No pairs scoring >= ${result.threshold} among ${result.scanned} ${level} nodes${skipped}.`);
+          return;
+        }
+        console.log(`${result.clusters.length} cluster(s) scoring >= ${result.threshold} among ${result.scanned} ${level} nodes${skipped}`);
+        const signal = (x: number | null) => (x === null ? "—" : x.toFixed(2));
+        for (const cluster of result.clusters) {
+          console.log("");
+          const label = cluster.group ? `  ${cluster.group}` : "";
+          console.log(`${cluster.score.toFixed(3)}  ${cluster.nodes.length} nodes${label}`);
+          for (const node of cluster.nodes) {
+            console.log(`  ${node.slug} "${node.title}"`);
+          }
+          for (const pair of cluster.pairs) {
+            const s = pair.signals;
+            console.log(
+              `  ${pair.score.toFixed(3)}  ${pair.a} ↔ ${pair.b}` +
+                `  (text ${signal(s.text)}, title ${signal(s.title)}, parents ${signal(s.parents)}, tags ${signal(s.tags)})`,
+            );
+          }
+          if (!opts.autoGroup) {
+            console.log(`  lattice dedup group create ${cluster.nodes.map((n) => `--node ${n.slug}`).join(" ")}`);
+          }
+        }
+        console.log("");
+        if (opts.autoGroup && result.dryRun) {
+          console.log(`Would create ${result.clusters.length} deduplication group(s).`);
+        } else if (opts.autoGroup) {
+          console.log(`Created ${result.clusters.length} deduplication group(s). Review with 'lattice dedup group show <groupId>'.`);
+        }
+        return;
+      }
+
+      if (opts.similarity !== undefined) {
+        const threshold = Number(opts.similarity);
+        const lattice = await Lattice.open(vaultPath);
+        const result = await lattice.similar(level, {
+          threshold,
+          after: afterDate,
+          max: opts.maxCandidates ? parseInt(opts.maxCandidates as string) || undefined : undefined,
+        });
+        const output = { provider: result.provider, level, threshold, scanned: result.scanned, pairs: result.pairs };
+        const format = resolveFormat(parentOpts);
+        if (format === "json") {
+          console.log(JSON.stringify(output, null, 2));
+        } else if (format === "toon") {
+          console.log(encode(output));
+        } else if (result.pairs.length === 0) {
+          console.log(`No pairs with similarity >= ${threshold} among ${result.scanned} ${level} nodes.`);
+        } else {
+          for (const pair of result.pairs) {
+            console.log(`${pair.similarity.toFixed(3)}  ${pair.a} "${pair.a_title}"`);
+            console.log(`       ${pair.b} "${pair.b_title}"`);
+          }
+          console.log("");
+          console.log(`## Ready-to-copy group commands (review each pair first):`);
+          for (const pair of result.pairs) {
+            console.log(`lattice dedup group create --node ${pair.a} --node ${pair.b}`);
+          }
+        }
+        return;
+      }
+
       const max = parseInt(opts.maxCandidates as string) || 100;
 
       const nodes = await loadAllNodes(vaultPath);
-      const levelNodes = Array.from(nodes.values())
-        .filter(n => n.level === level && n.created > afterDate)
-        .sort((a, b) => b.created.getTime() - a.created.getTime())
-        .slice(0, max);
+      const levelNodes = selectDedupCandidates(nodes, level, afterDate, max);
 
       // Markdown output always for candidates
       let md = `# Deduplication Candidates: ${level.toUpperCase()} (after ${afterDate.toISOString().slice(0,10)}, max ${max})\n\n`;
@@ -167,6 +294,146 @@ EXAMPLES:
   return cmd;
 }
 
+function makeStructuralCommand(): CommanderCommand {
+  const cmd = new Command("structural")
+    .description(`Find duplicates by their position in the graph.
+
+Two nodes at the same level that reduce to the same parents are often the
+same induction written twice; two nodes that the same dependents reduce to
+are often one idea cited under two names. This command compares the graph,
+not the wording, so it catches duplicates phrased completely differently.
+
+WHAT IS COMPARED (every level, or --level):
+  parents     each node's reduces_to set
+  dependents  the set of nodes that reduce to it
+Overlap is Jaccard: shared / (union). A pair is reported when it shares at
+least --min-shared neighbours (default: 2) and overlaps by at least
+--min-overlap (default: 0.8). Pairs are joined into clusters; 'identical'
+means every member has exactly the same set. Nodes with no neighbours on
+a side are not compared on it. A single shared parent is common and rarely
+means duplication; pass --min-shared 1 to include it anyway.
+
+OUTPUT:
+- Default (TOON) / --json: { min_overlap, min_shared,
+  clusters: [{ basis, level, score, identical, slugs, shared,
+               pairs: [{ a, b, overlap }] }] }
+- --table: each cluster with titles, shared neighbours, pair overlaps and
+  a ready-to-run 'group create' command
+
+EXAMPLES:
+  # Principles that reduce to the same axioms and percepts
+  lattice dedup structural --level principle --basis parents --table
+
+  # Only exact matches, at every level, on both sides
+  lattice dedup structural --min-overlap 1`)
+    .option("--level <level>", "Only this level: axiom | percept | principle | application")
+    .addOption(new Option("--basis <basis>", "Compare only parents or only dependents (default: both)").choices(["parents", "dependents"]))
+    .option("--min-overlap <ratio>", "Minimum Jaccard overlap of two sets (0-1, default: 0.8)")
+    .option("--min-shared <N>", "Minimum neighbours two nodes must share (default: 2)");
+
+  cmd.action(async (opts) => {
+    try {
+      const parentOpts = cmd.parent!.parent!.opts() as any;
+      const lattice = await Lattice.open(parentOpts.vault ?? ".");
+
+      const result = await lattice.structuralDuplicates({
+        level: opts.level as Level | undefined,
+        basis: opts.basis,
+        minOverlap: opts.minOverlap !== undefined ? Number(opts.minOverlap) : undefined,
+        minShared: opts.minShared !== undefined ? Number(opts.minShared) : undefined,
+      });
+      const format = resolveFormat(parentOpts);
+      if (format === "json") {
+        console.log(JSON.stringify(result, null, 2));
+        return;
+      }
+      if (format === "toon") {
+        console.log(encode(result));
+        return;
+      }
+
+      if (result.clusters.length === 0) {
+        console.log(`No nodes share ${result.min_shared}+ neighbours with overlap >= ${result.min_overlap}.`);
+        return;
+      }
+      const nodes = await lattice.nodes();
+      console.log(`${result.clusters.length} structural cluster(s)`);
+      for (const cluster of result.clusters) {
+        console.log("");
+        const kind = cluster.identical ? "identical" : "overlapping";
+        console.log(`${cluster.score.toFixed(3)}  ${cluster.level}, ${kind} ${cluster.basis}, ${cluster.slugs.length} nodes`);
+        for (const slug of cluster.slugs) {
+          console.log(`  ${slug} "${nodes.get(slug)?.title ?? ""}"`);
+        }
+        console.log(`  shared ${cluster.basis}: ${cluster.shared.join(", ")}`);
+        if (!cluster.identical) {
+          for (const pair of cluster.pairs) {
+            console.log(`  ${pair.overlap.toFixed(3)}  ${pair.a} ↔ ${pair.b}`);
+          }
+        }
+        console.log(`  lattice dedup group create ${cluster.slugs.map((s) => `--node ${s}`).join(" ")}`);
+      }
+    } catch (err) {
+      handleError(err);
+    }
+  });
+
+  return cmd;
+}
+
+function makeListCommand(): CommanderCommand {
+  const cmd = new Command("list")
+    .alias("history")
+    .description(`List open deduplication groups and past merges.
+
+Shows what the dedup workflow has left in the vault, without grepping YAML.
+
+SECTIONS (both when neither flag is given):
+  --groups  every open DG-id (nodes still carrying deduplication_group),
+            with its level, member nodes and age, oldest first. Age comes
+            from the timestamp in the ID.
+  --merges  every canonical node with merged_from, newest first: date,
+            reason, group, state (active, or undone with the undo reason)
+            and each original with its trashed path in 99-Trash/, or
+            "restored" once undone. Undone canonical nodes are read from
+            99-Trash/Undone-Merges/.
+
+OUTPUT:
+- Default (TOON) / --json: { groups: [{ id, level, created, age_days,
+    nodes: [{ slug, title, status }] }],
+  merges: [{ canonical, title, level, merged_date, merged_reason, group,
+    state, undo_reason, originals: [{ slug, title, original_status,
+    trashed_path, in_trash }] }] }
+- --table: one block per group and per merge
+
+EXAMPLES:
+  # Groups waiting for review
+  lattice dedup list --groups --table
+
+  # Merge audit trail as JSON
+  lattice dedup history --merges --json`)
+    .option("--groups", "List open deduplication groups")
+    .option("--merges", "List merges, including undone ones");
+
+  cmd.action(async (opts) => {
+    try {
+      const parentOpts = cmd.parent!.parent!.opts() as any;
+      const lattice = await Lattice.open(parentOpts.vault ?? ".");
+      const both = !opts.groups && !opts.merges;
+
+      const list: Parameters<typeof formatDedupList>[0] = {};
+      if (opts.groups || both) list.groups = await lattice.dedupGroups();
+      if (opts.merges || both) list.merges = await lattice.merges();
+
+      console.log(formatDedupList(list, resolveFormat(parentOpts)));
+    } catch (err) {
+      handleError(err);
+    }
+  });
+
+  return cmd;
+}
+
 function makeGroupCommand(): CommanderCommand {
   const group = new Command("group")
     .description(`Manage temporary deduplication review groups.
@@ -218,9 +485,10 @@ EXAMPLES:
 
   cmd.action(async (opts) => {
     try {
-      const parentOpts = cmd.parent!.parent!.opts() as any;
+      const parentOpts = cmd.parent!.parent!.parent!.opts() as any;
       const vaultPath = resolveVaultPath(parentOpts.vault ?? ".");
       await requireVault(vaultPath);
+      await lockVault(vaultPath);
 
       const nodeSlugs: string[] = opts.node;
       if (nodeSlugs.length === 0) {
@@ -299,9 +567,10 @@ EXAMPLES:
 
   cmd.action(async (groupId, opts) => {
     try {
-      const parentOpts = cmd.parent!.parent!.opts() as any;
+      const parentOpts = cmd.parent!.parent!.parent!.opts() as any;
       const vaultPath = resolveVaultPath(parentOpts.vault ?? ".");
       await requireVault(vaultPath);
+      await lockVault(vaultPath);
 
       const nodes = await loadAllNodes(vaultPath);
 
@@ -326,7 +595,7 @@ EXAMPLES:
       } else {
         // Clear deduplication_group from each node
         for (const node of groupNodes) {
-          await updateNodeFile(node, { deduplication_group: undefined });
+          await updateNodeFile(node, { deduplication_group: null });
         }
         console.log(`Removed deduplication group: ${groupId}`);
       }
@@ -365,7 +634,7 @@ EXAMPLES:
 
   cmd.action(async (groupId) => {
     try {
-      const parentOpts = cmd.parent!.parent!.opts() as any;
+      const parentOpts = cmd.parent!.parent!.parent!.opts() as any;
       const vaultPath = resolveVaultPath(parentOpts.vault ?? ".");
       await requireVault(vaultPath);
 
@@ -435,9 +704,13 @@ and rewrites all references to point to the new canonical node.
 
 WHAT HAPPENS:
 1. Creates new canonical node with provided title/proposition
+   (parents: the first old node's, or all of theirs with --inherit-parents;
+   tags: none, or all of theirs with --inherit-tags; status: the vault's
+   initial status, or as --status says)
 2. Records merge metadata on canonical node (merged_from, merged_reason, etc.)
 3. Moves old nodes to 99-Trash/ with audit trails
-4. Updates all reduces_to references across the vault
+4. Updates all reduces_to references across the vault (the canonical node
+   inherits every dependent of the old nodes)
 5. Clears deduplication_group markers
 6. Validates lattice integrity
 
@@ -448,6 +721,17 @@ SAFETY FEATURES:
 - Validation after merge
 - Optional git commit
 
+INHERITING FROM THE OLD NODES:
+  --inherit-parents       reduces_to = union of the old nodes' reduces_to,
+                          minus links from one old node to another
+  --inherit-tags          tags = union of the old nodes' tags
+  --status auto           The vault's validated status if every parent is
+                          grounded (always for bedrock levels), else its
+                          initial status. An explicit grounded status
+                          fails instead.
+  --proposition-from <n>  reuse the proposition of old node <n> instead of
+                          --proposition
+
 WHEN TO USE:
 - After reviewing a group and confirming they are true duplicates
 - When you have the perfect combined proposition ready
@@ -463,12 +747,21 @@ EXAMPLES:
     --title "Merged title" --level principle --proposition "..." \\
     --reason "Manual consolidation"
 
+  # Keep everything the duplicates had, reuse the better wording
+  lattice dedup merge --deduplication-group DG-202401011230-456 \\
+    --title "Canonical principle title" --level principle \\
+    --proposition-from slug2 --inherit-parents --inherit-tags --status auto
+
   # Preview merge
   lattice dedup merge --dry-run --deduplication-group GROUP-ID \\
     --title "..." --level principle --proposition "..."`)
     .requiredOption("--title <title>", "Title for the new canonical node")
     .requiredOption("--level <level>", "Knowledge level (must match old nodes)")
-    .requiredOption("--proposition <text>", "Full propositional text for canonical node")
+    .option("--proposition <text>", "Full propositional text for canonical node")
+    .option("--proposition-from <slug>", "Reuse the proposition of this old node (instead of --proposition)")
+    .option("--inherit-parents", "Reduce to the union of the old nodes' parents")
+    .option("--inherit-tags", "Tag with the union of the old nodes' tags")
+    .option("--status <status>", "Canonical node status, or auto (default: the vault's initial status)")
     .option("--deduplication-group <id>", "Group ID to merge (alternative to --old-node)")
     .option("--old-node <slug>", "Specific old node to merge. Repeat for multiple.", (v, p) => [...p, v as string], [] as string[])
     .option("--reason <text>", "Human reason for this merge (recorded in metadata)")
@@ -478,189 +771,46 @@ EXAMPLES:
   cmd.action(async (opts) => {
     try {
       const parentOpts = cmd.parent!.parent!.opts() as any;
-      const vaultPath = resolveVaultPath(parentOpts.vault ?? ".");
-      await requireVault(vaultPath);
-
-      const title: string = opts.title;
-      const level: string = opts.level;
-      const proposition: string = opts.proposition;
-      const groupId: string | undefined = opts.deduplicationGroup;
+      const lattice = await Lattice.open(parentOpts.vault ?? ".");
       const oldNodeSlugs: string[] = opts.oldNode || [];
-      const reason: string | undefined = opts.reason;
-      const dryRun: boolean = opts.dryRun;
-      const autoCommit: boolean = opts.autoCommit;
-
-      if (!LEVELS.includes(level as any)) {
-        throw new Error(`Invalid level: ${level}`);
-      }
-
-      // Warn for axiom/percept merges
-      if ((level === "axiom" || level === "percept") && !dryRun) {
-        console.error("Warning: Merging bedrock nodes (axiom/percept) is allowed but not recommended.");
-        console.error("These are philosophical/empirical foundations. Proceed only if certain.");
-      }
-
-      // Warn for large groups
-      if (oldNodeSlugs.length > 10) {
-        console.error(`Warning: Merging ${oldNodeSlugs.length} nodes. Large merges increase risk of error.`);
-      }
-
-      let nodes = await loadAllNodes(vaultPath);
 
-      // Determine old nodes
-      let oldNodes: LatticeNode[] = [];
-      if (groupId) {
-        // From group
-        for (const node of nodes.values()) {
-          if (node.deduplication_group === groupId) {
-            oldNodes.push(node);
-          }
-        }
-        if (oldNodes.length === 0) {
-          throw new Error(`No nodes found in group: ${groupId}`);
-        }
-        // Union with manual old nodes
-        for (const slug of oldNodeSlugs) {
-          const node = nodes.get(slug);
-          if (!node) {
-            throw new Error(`Node not found: ${slug}`);
-          }
-          if (!oldNodes.find(n => n.slug === slug)) {
-            oldNodes.push(node);
-          }
-        }
-      } else {
-        // Manual only
-        for (const slug of oldNodeSlugs) {
-          const node = nodes.get(slug);
-          if (!node) {
-            throw new Error(`Node not found: ${slug}`);
-          }
-          oldNodes.push(node);
-        }
-      }
-
-      if (oldNodes.length === 0) {
-        throw new Error("No old nodes specified");
-      }
-
-      // Validate all at same level
-      const expectedLevel = oldNodes[0].level;
-      for (const node of oldNodes) {
-        if (node.level !== expectedLevel) {
-          throw new Error(`All nodes must be at same level. Found ${node.level}, expected ${expectedLevel}`);
-        }
-        if (node.level !== level) {
-          throw new Error(`Old nodes are at level ${node.level}, but new node is ${level}`);
-        }
-        if (node.merged_into) {
-          throw new Error(`Node ${node.slug} has already been merged`);
-        }
+      const result = await lattice.merge({
+        title: opts.title,
+        level: opts.level as Level,
+        proposition: opts.proposition,
+        propositionFrom: opts.propositionFrom,
+        group: opts.deduplicationGroup,
+        nodes: oldNodeSlugs,
+        inheritParents: Boolean(opts.inheritParents),
+        inheritTags: Boolean(opts.inheritTags),
+        status: opts.status,
+        reason: opts.reason,
+        dryRun: Boolean(opts.dryRun),
+      });
+      for (const warning of result.warnings) {
+        console.error(`Warning: ${warning}`);
       }
 
-      const now = new Date();
-      const mergedDate = now.toISOString();
-
-      // Prepare merged_from entries
-      const mergedFrom: MergedFromEntry[] = oldNodes.map(node => ({
-        id: node.slug,
-        original_path: node.filePath,
-        original_status: node.status,
-        trashed_path: "", // Will fill after moving
-      }));
-
-      if (dryRun) {
+      if (result.dryRun) {
         console.log("Would merge the following nodes:");
-        for (const node of oldNodes) {
+        for (const node of result.merged) {
           console.log(`  - ${node.slug} (${node.title})`);
         }
-        console.log(`Into new node: ${title}`);
-        console.log(`At level: ${level}`);
+        console.log(`Into new node: ${opts.title}`);
+        console.log(`At level: ${opts.level}`);
+        console.log(`Status: ${result.status}`);
+        console.log(`Reduces to: ${result.reduces_to.join(", ") || "none"}`);
+        console.log(`Tags: ${result.tags.join(", ") || "none"}`);
         return;
       }
 
-      // Create the trash folder
-      const trashDir = join(vaultPath, "99-Trash");
-      await mkdir(trashDir, { recursive: true });
-
-      // Create new canonical node
-      const canonicalResult = await createNodeFile(vaultPath, {
-        title,
-        level: level as any,
-        reduces_to: oldNodes[0].reduces_to, // Inherit reduces_to from old nodes
-        status: "Tentative/Hypothesis", // Default, can be changed later
-        tags: [], // Merge tags? For now empty
-        proposition,
-        merged_from: mergedFrom,
-        merged_reason: reason,
-        merged_date: mergedDate,
-        merged_group_id: groupId,
-      }, new Set(nodes.keys()));
-
-      const canonicalSlug = canonicalResult.slug;
-      console.log(`Created canonical node: ${canonicalSlug}`);
-
-      // Move old nodes to trash and update metadata
-      for (let i = 0; i < oldNodes.length; i++) {
-        const oldNode = oldNodes[i];
-        const trashedPath = join(trashDir, basename(oldNode.filePath));
-
-        // Update metadata on old node
-        await updateNodeFile(oldNode, {
-          merged_into: canonicalSlug,
-          trashed_on: mergedDate,
-          original_status: oldNode.status,
-          original_path: oldNode.filePath,
-          deduplication_group: undefined, // Clear group
-        });
-
-        // Move file to trash
-        await rename(oldNode.filePath, trashedPath);
-
-        // Update merged_from entry
-        mergedFrom[i].trashed_path = trashedPath;
-      }
-
-      // Update canonical node with correct merged_from (with trashed paths)
-      // Load just the canonical node to update it
-      const canonicalNode = await parseNodeFile(canonicalResult.filePath);
-      await updateNodeFile(canonicalNode, { merged_from: mergedFrom });
-
-      // Rewrite reduces_to references across the vault
-      // Find all nodes that reference any of the old nodes
-      for (const node of nodes.values()) {
-        if (node.slug === canonicalSlug) continue; // Skip the new one
-
-        const oldRefs = node.reduces_to.filter(ref => oldNodes.some(old => old.slug === ref));
-        if (oldRefs.length > 0) {
-          // Replace old refs with canonical slug
-          const newReducesTo = node.reduces_to.map(ref =>
-            oldRefs.includes(ref) ? canonicalSlug : ref
-          );
-          await updateNodeFile(node, { reduces_to: newReducesTo });
-        }
-      }
-
-      // Run validate
-      console.log("Running validation...");
-      const updatedNodes = await loadAllNodes(vaultPath);
-      const masterTags = await loadTags(vaultPath);
-      const issues = validateGraph(updatedNodes, masterTags);
-      if (issues.length > 0) {
-        console.error("Validation issues found:");
-        for (const issue of issues) {
-          console.error(`  ${issue.slug}: ${issue.message}`);
-        }
-        throw new Error("Validation failed after merge");
-      }
-
       // Git commit
-      if (autoCommit) {
-        const commitMsg = `Merge ${oldNodes.length} nodes into ${canonicalSlug}: ${title}`;
-        await gitCommitIfEnabled(vaultPath, commitMsg, true);
+      if (opts.autoCommit) {
+        const commitMsg = `Merge ${result.merged.length} nodes into ${result.canonical}: ${opts.title}`;
+        await gitCommitIfEnabled(lattice.vaultPath, commitMsg, true);
       }
 
-      console.log(`Successfully merged ${oldNodes.length} nodes into ${canonicalSlug}`);
+      console.log(`Successfully merged ${result.merged.length} nodes into ${result.canonical} (${result.status})`);
 
     } catch (err) {
       handleError(err);
@@ -683,9 +833,20 @@ WHAT HAPPENS:
 2. Moves canonical node to 99-Trash/Undone-Merges/ with undo reason
 3. Restores all trashed nodes to original paths
 4. Clears merge-related metadata from restored nodes
-5. Rewrites reduces_to references back to oldest restored node
+5. Points each node that reduces to the canonical node back at the
+   original(s) it reduced to when merged (recorded by the merge)
 6. Validates lattice integrity
 
+NODES ADDED AFTER THE MERGE:
+A node that reduces to the canonical node but did not exist (or did not
+reduce to any original) at merge time has no recorded edge. The undo
+stops and lists them; choose an original for each with
+  --assign <child>=<original>     (repeatable; partial slugs accepted)
+--assign also overrides a recorded edge. --dry-run lists every rewire
+and every unassigned child without failing. Merges made before edges
+were recorded point all dependents at the oldest original, with a
+warning, unless assigned.
+
 SAFETY FEATURES:
 - Complete restoration of original state
 - Audit trail of undo operation
@@ -705,119 +866,68 @@ EXAMPLES:
   lattice dedup undo merged-node-slug --dry-run
 
   # Undo with auto-commit
-  lattice dedup undo merged-node-slug --reason "Mistake" --auto-commit`)
+  lattice dedup undo merged-node-slug --reason "Mistake" --auto-commit
+
+  # A principle added after the merge cites the canonical node
+  lattice dedup undo merged-node-slug --assign new-principle=original-slug-2`)
     .argument("<canonicalSlug>", "Slug of the merged canonical node to undo")
     .option("--reason <text>", "Reason for undoing this merge")
+    .option("--assign <child=original>", "Point a dependent at this original. Repeat for multiple.", (v: string, p: string[]) => [...p, v], [] as string[])
     .option("--dry-run", "Show what would be done without making changes")
     .option("--auto-commit", "Automatically commit to git if vault is in repo");
 
   cmd.action(async (canonicalSlug, opts) => {
     try {
       const parentOpts = cmd.parent!.parent!.opts() as any;
-      const vaultPath = resolveVaultPath(parentOpts.vault ?? ".");
-      await requireVault(vaultPath);
-
-      const reason: string | undefined = opts.reason;
-      const dryRun: boolean = opts.dryRun;
-      const autoCommit: boolean = opts.autoCommit;
-
-      const nodes = await loadAllNodes(vaultPath);
-
-      const canonicalNode = nodes.get(canonicalSlug);
-      if (!canonicalNode) {
-        throw new Error(`Canonical node not found: ${canonicalSlug}`);
-      }
-
-      if (!canonicalNode.merged_from || canonicalNode.merged_from.length === 0) {
-        throw new Error(`Node ${canonicalSlug} is not a merged node`);
-      }
+      const lattice = await Lattice.open(parentOpts.vault ?? ".");
 
-      // Warn for axiom/percept undos
-      if ((canonicalNode.level === "axiom" || canonicalNode.level === "percept") && !dryRun) {
-        console.error("Warning: Undoing merge of bedrock nodes (axiom/percept). Proceed only if certain.");
-      }
-
-      if (dryRun) {
-        console.log(`Would undo merge of ${canonicalSlug} (${canonicalNode.title})`);
-        console.log(`Would restore ${canonicalNode.merged_from.length} nodes:`);
-        for (const entry of canonicalNode.merged_from) {
-          console.log(`  - ${entry.id} to ${entry.original_path}`);
+      const assign: Record<string, string> = {};
+      for (const pair of opts.assign as string[]) {
+        const eq = pair.indexOf("=");
+        if (eq <= 0 || eq === pair.length - 1) {
+          throw new Error(`Invalid --assign '${pair}'. Use --assign <child>=<original>`);
         }
-        console.log(`Would move canonical node to 99-Trash/Undone-Merges/`);
-        return;
+        assign[pair.slice(0, eq).trim()] = pair.slice(eq + 1).trim();
       }
 
-      // Create undone merges folder
-      const undoneDir = join(vaultPath, "99-Trash", "Undone-Merges");
-      await mkdir(undoneDir, { recursive: true });
-
-      // Move canonical node to undone
-      const undonePath = join(undoneDir, basename(canonicalNode.filePath));
-      await updateNodeFile(canonicalNode, {
-        undone_merge: { reason },
+      const result = await lattice.undoMerge(canonicalSlug, {
+        reason: opts.reason,
+        assign,
+        dryRun: Boolean(opts.dryRun),
       });
-      await rename(canonicalNode.filePath, undonePath);
-
-      // Restore each merged node
-      let oldestNodeId = canonicalNode.merged_from[0].id; // Default to first
-      for (const entry of canonicalNode.merged_from) {
-        // Move back from trash
-        await rename(entry.trashed_path, entry.original_path);
-
-        // Reload the node (since path changed)
-        const restoredNodes = await loadAllNodes(vaultPath);
-        const restoredNode = restoredNodes.get(entry.id);
-        if (!restoredNode) {
-          throw new Error(`Failed to restore node: ${entry.id}`);
-        }
-
-        // Restore original status and remove merge fields
-        await updateNodeFile(restoredNode, {
-          status: entry.original_status,
-          merged_into: undefined,
-          trashed_on: undefined,
-          original_status: undefined,
-          original_path: undefined,
-          deduplication_group: undefined,
-        });
-
-        // Find oldest by creation date
-        const oldestNode = restoredNodes.get(oldestNodeId);
-        if (restoredNode.created < oldestNode!.created) {
-          oldestNodeId = entry.id;
-        }
+      for (const warning of result.warnings) {
+        console.error(`Warning: ${warning}`);
       }
 
-      // Rewrite reduces_to references back to oldest node
-      for (const node of nodes.values()) {
-        if (node.reduces_to.includes(canonicalSlug)) {
-          const newReducesTo = node.reduces_to.map(ref =>
-            ref === canonicalSlug ? oldestNodeId : ref
-          );
-          await updateNodeFile(node, { reduces_to: newReducesTo });
+      if (result.dryRun) {
+        console.log(`Would undo merge of ${result.canonical} (${result.title})`);
+        console.log(`Would restore ${result.restored.length} nodes:`);
+        for (const entry of result.restored) {
+          console.log(`  - ${entry.slug} to ${entry.originalPath}`);
         }
-      }
-
-      // Run validate
-      console.log("Running validation...");
-      const updatedNodes = await loadAllNodes(vaultPath);
-      const masterTags = await loadTags(vaultPath);
-      const issues = validateGraph(updatedNodes, masterTags);
-      if (issues.length > 0) {
-        console.error("Validation issues found:");
-        for (const issue of issues) {
-          console.error(`  ${issue.slug}: ${issue.message}`);
+        if (result.rewired.length > 0) {
+          console.log(`Would point ${result.rewired.length} dependent(s) back at originals:`);
+          for (const entry of result.rewired) {
+            console.log(`  - ${entry.slug} → ${entry.to.join(", ")} (${entry.source})`);
+          }
+        }
+        if (result.unassigned.length > 0) {
+          console.log(`Added after the merge; assign with --assign <child>=<original>:`);
+          for (const slug of result.unassigned) {
+            console.log(`  - ${slug}`);
+          }
         }
-        throw new Error("Validation failed after undo");
+        console.log(`Would move canonical node to 99-Trash/Undone-Merges/`);
+        return;
       }
 
       // Git commit
-      if (autoCommit) {
-        const commitMsg = `Undo merge of ${canonicalSlug}: ${canonicalNode.title}`;
-        await gitCommitIfEnabled(vaultPath, commitMsg, true);
+      if (opts.autoCommit) {
+        const commitMsg = `Undo merge of ${result.canonical}: ${result.title}`;
+        await gitCommitIfEnabled(lattice.vaultPath, commitMsg, true);
       }
 
-      console.log(`Successfully undid merge of ${canonicalSlug}`);
+      console.log(`Successfully undid merge of ${result.canonical}`);
 
     } catch (err) {
       handleError(err);
@@ -1,25 +1,38 @@
 import { Command } from "commander";
-import { unlink } from "node:fs/promises";
-import { resolveVaultPath, requireVault } from "../core/vault.js";
-import { loadAllNodes } from "../core/node.js";
-import { buildIncomingLinks } from "../core/graph.js";
+import {
+  Lattice,
+  type CascadeDeleteResult,
+  type DeleteResult,
+  type DetachDeleteResult,
+} from "../lattice.js";
+import { EXIT } from "../core/constants.js";
+import { initialStatus } from "../core/statuses.js";
 import { resolveFormat } from "../util/format.js";
 import { encode } from "@toon-format/toon";
-import { DeleteBlockedError } from "../util/errors.js";
-import { handleError, resolveNodeSlug } from "../util/cli-helpers.js";
+import { LatticeError } from "../util/errors.js";
+import { handleError } from "../util/cli-helpers.js";
 
 export function makeDeleteCommand(): Command {
   const cmd = new Command("delete");
 
   cmd
-    .description("Remove a node from the lattice")
+    .description("Remove a node from the lattice (moved to 99-Trash/Deleted/)")
     .argument("<node>", "Node slug, filename, or partial title match")
+    .option("--cascade", "Also delete every node that transitively reduces to this one")
+    .option("--detach", "Remove the edge from every child; demote children left with no reduction")
+    .option("--yes", "Apply --cascade or --detach (required unless --dry-run)")
+    .option("--dry-run", "Show what --cascade or --detach would change without writing")
     .addHelpText(
       "after",
       `
 WHAT THIS DOES:
-  Removes a node from the lattice permanently. No confirmation, no undo.
-  The Markdown file is deleted from disk immediately.
+  Removes a node from the lattice. No confirmation. The Markdown file is
+  moved to 99-Trash/Deleted/ with trashed_on, original_path and
+  original_status recorded in its YAML — the same audit fields
+  'dedup merge' writes. The node no longer exists for any query or
+  validation, but 'lattice restore <slug>' brings it back.
+
+  Trashed files are only destroyed by 'lattice trash empty'.
 
   Deletion is how you clean the lattice of noise: abandoned hypotheses,
   disproven observations, or superseded rules. A lean lattice with 500
@@ -34,31 +47,53 @@ WHEN TO DELETE:
 
 DELETION RULES (enforced):
   You CAN delete a node if:
-    - Its status is Tentative/Hypothesis (any tentative node can be deleted)
+    - Its status is not grounded (e.g. Tentative/Hypothesis in the built-in
+      workflow: any unvalidated node can be deleted)
     - OR no other nodes have reduces_to links pointing to it
 
   You CANNOT delete a node if:
-    - It is Integrated/Validated AND other nodes reduce to it
+    - Its status is grounded (validated) AND other nodes reduce to it
     - This protects the lattice: deleting a validated axiom would break
       every principle and application built on top of it
-    - To delete anyway: first 'lattice update <node> --status "Tentative/Hypothesis"'
-      then delete. Or remove the incoming links from dependent nodes first.
+    - To delete anyway: first demote it ('lattice update <node> --status
+      <the initial status>'), then delete. Or remove the incoming links from dependent nodes first.
+      Or use one of the two batch modes below.
+
+BATCH MODES (for a node with dependents):
+  --cascade  Deletes the node AND its full dependent subtree: every node
+             that reduces to it, directly or through other nodes. Use when
+             the foundation was wrong and everything built on it goes too.
+
+  --detach   Deletes only the node. Its edge is removed from every direct
+             child's reduces_to. A child left with no reduces_to at all is
+             demoted to the vault's initial status (its chain no longer
+             reaches bedrock). Children with other parents keep their status.
+
+  Both modes print the affected nodes and refuse to write unless --yes is
+  given. Use --dry-run to preview. --cascade and --detach cannot be
+  combined.
 
 NODE MATCHING:
   Exact slug > prefix match > slug substring > title substring.
   Ambiguous matches (multiple nodes match) produce an error listing candidates.
 
 OUTPUT:
-  Default (TOON): { deleted: "<slug>", file: "<filepath>" }
+  Default (TOON): { deleted: "<slug>", file: "<filepath>", trashed_path: "<filepath>" }
+  --cascade:      { deleted, mode: "cascade", dependents: [{ slug, depth, status }], dry_run }
+  --detach:       { deleted, mode: "detach", detached: [{ slug, demoted }],
+                    propagated, dry_run }
+                  propagated lists validated dependents of demoted children,
+                  demoted as well when the vault sets propagate_demotion.
   --json: same as JSON
-  --table: "Deleted: <filepath>"
+  --table: "Deleted: <filepath> (moved to <trashed_path>)", plus one line
+           per affected node in batch modes
 
 GOLDEN EXAMPLES:
 
   1. Remove a tentative node that never got grounded:
      $ lattice query tentative --older-than 7d    # find stale nodes
      $ lattice delete config-drift-hypothesis      # remove one
-     Deleted: ./03-Principles/20260310-config-drift-hypothesis.md
+     Deleted: ./03-Principles/20260310-config-drift-hypothesis.md (moved to ./99-Trash/Deleted/...)
 
   2. Remove a percept after discovering the data was wrong:
      $ lattice delete api-returns-500
@@ -66,52 +101,100 @@ GOLDEN EXAMPLES:
      # WARNING: if other nodes reduced to this percept, they now have
      # broken chains. Run 'lattice validate' immediately after.
 
-  3. ERROR — trying to delete a foundational validated node:
+  3. Changed your mind:
+     $ lattice restore api-returns-500
+
+  4. ERROR — trying to delete a foundational validated node:
      $ lattice delete code-behaves-according
      Error: Cannot delete '20260303091545-code-behaves-according-to-what-it-contains':
      3 other node(s) reduce to it and it is Integrated/Validated.
      # Fix: demote it first, or update the dependent nodes.
+
+  5. A percept was wrong and everything derived from it must go:
+     $ lattice delete api-returns-500 --cascade --dry-run
+     $ lattice delete api-returns-500 --cascade --yes
+
+  6. Retire a validated principle but keep the applications built on it:
+     $ lattice delete old-caching-rule --detach --yes
+     # Applications that reduced only to it are back in the initial status.
+     $ lattice query tentative --table
 `,
     );
 
-  cmd.action(async (nodeQuery: string) => {
+  cmd.action(async (nodeQuery: string, opts) => {
     try {
       const parentOpts = cmd.parent?.opts() ?? {};
-      const vaultPath = resolveVaultPath(parentOpts.vault ?? ".");
-      await requireVault(vaultPath);
+      const lattice = await Lattice.open(parentOpts.vault ?? ".");
       const format = resolveFormat(parentOpts);
 
-      const nodes = await loadAllNodes(vaultPath);
-      const slug = resolveNodeSlug(nodeQuery, nodes);
-      const node = nodes.get(slug)!;
+      const deleteOpts = {
+        cascade: Boolean(opts.cascade),
+        detach: Boolean(opts.detach),
+        dryRun: Boolean(opts.dryRun),
+      };
+      if ((opts.cascade || opts.detach) && !opts.yes && !opts.dryRun) {
+        const preview = await lattice.delete(nodeQuery, { ...deleteOpts, dryRun: true });
+        requireConfirmation(preview);
+      }
+      const result = await lattice.delete(nodeQuery, deleteOpts);
+
+      // ─── Batch modes ───────────────────────────────────────────
+      if (result.mode !== "single") {
+        const { mode, deleted: slug, dryRun } = result;
+        let output: Record<string, unknown>;
+        let lines: string[];
+        if (result.mode === "cascade") {
+          output = { deleted: slug, mode, dependents: result.dependents, dry_run: dryRun };
+          lines = result.dependents.map(
+            (d) => `${"  ".repeat(d.depth)}${d.slug} [${d.status}]`,
+          );
+        } else {
+          output = {
+            deleted: slug,
+            mode,
+            detached: result.detached,
+            propagated: result.propagated,
+            dry_run: dryRun,
+          };
+          // Demotions, detached or propagated, move nodes to the initial status
+          const initial = initialStatus();
+          lines = [
+            ...result.detached.map((d) => `  ${d.slug}${d.demoted ? ` → ${initial}` : ""}`),
+            ...result.propagated.map((p) => `  ${p.slug} → ${initial} (propagated)`),
+          ];
+        }
 
-      // Check deletion rules
-      if (node.status === "Integrated/Validated") {
-        const incoming = buildIncomingLinks(nodes);
-        const incomingLinks = incoming.get(slug) ?? [];
-        if (incomingLinks.length > 0) {
-          throw new DeleteBlockedError(slug, incomingLinks.length);
+        switch (format) {
+          case "json":
+            process.stdout.write(JSON.stringify(output, null, 2) + "\n");
+            break;
+          case "toon":
+            process.stdout.write(encode(output) + "\n");
+            break;
+          case "table": {
+            const verb = dryRun ? "Would delete" : "Deleted";
+            const what = mode === "cascade" ? "dependent(s) also deleted" : "child edge(s) removed";
+            process.stdout.write(
+              `${verb} (${mode}): ${slug}, ${affectedCount(result)} ${what}\n` +
+                (lines.length > 0 ? lines.join("\n") + "\n" : ""),
+            );
+            break;
+          }
         }
+        return;
       }
 
-      // Delete the file
-      await unlink(node.filePath);
-
       // Output
+      const output = { deleted: result.deleted, file: result.filePath, trashed_path: result.trashedPath };
       switch (format) {
         case "json":
-          process.stdout.write(
-            JSON.stringify({ deleted: slug, file: node.filePath }, null, 2) +
-              "\n",
-          );
+          process.stdout.write(JSON.stringify(output, null, 2) + "\n");
           break;
         case "toon":
-          process.stdout.write(
-            encode({ deleted: slug, file: node.filePath }) + "\n",
-          );
+          process.stdout.write(encode(output) + "\n");
           break;
         case "table":
-          process.stdout.write(`Deleted: ${node.filePath}\n`);
+          process.stdout.write(`Deleted: ${result.filePath} (moved to ${result.trashedPath})\n`);
           break;
       }
     } catch (err) {
@@ -121,3 +204,21 @@ GOLDEN EXAMPLES:
 
   return cmd;
 }
+
+/** Nodes other than the named one that a batch delete changes. */
+function affectedCount(result: CascadeDeleteResult | DetachDeleteResult): number {
+  return result.mode === "cascade" ? result.dependents.length : result.detached.length;
+}
+
+/**
+ * Batch deletes touch more than the named node, so they must be
+ * previewed (--dry-run) or confirmed (--yes) explicitly. Called with the
+ * preview of an unconfirmed run; always throws.
+ */
+function requireConfirmation(preview: DeleteResult): never {
+  const count = preview.mode === "single" ? 0 : affectedCount(preview);
+  throw new LatticeError(
+    `--${preview.mode} affects ${count} other node(s). Re-run with --dry-run to preview or --yes to apply.`,
+    EXIT.BAD_INPUT,
+  );
+}
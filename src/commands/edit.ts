@@ -0,0 +1,197 @@
+import { Command } from "commander";
+import { resolveVaultPath, requireVault } from "../core/vault.js";
+import {
+  loadAllNodes,
+  updateNodeFile,
+  renameNode,
+  isValidSlug,
+} from "../core/node.js";
+import { runInTransaction } from "../core/transaction.js";
+import { LatticeError, DuplicateSlugError } from "../util/errors.js";
+import { EXIT } from "../core/constants.js";
+import { resolveFormat } from "../util/format.js";
+import { encode } from "@toon-format/toon";
+import { handleError, readStdin, resolveNodeSlug, lockVault } from "../util/cli-helpers.js";
+
+export function makeEditCommand(): Command {
+  const cmd = new Command("edit");
+
+  cmd
+    .description("Rewrite a node's title, proposition, or slug in place")
+    .argument("<node>", "Node slug, filename, or partial title match")
+    .option("--title <title>", "New human-readable title (stored in YAML)")
+    .option(
+      "--proposition <text>",
+      'New propositional text. Use "-" to read from stdin.',
+    )
+    .option(
+      "--slug <slug>",
+      "New filename slug (no .md). All reduces_to references are rewritten.",
+    )
+    .addHelpText(
+      "after",
+      `
+WHAT THIS DOES:
+  Rewords an existing node without deleting and re-adding it. Level,
+  status, tags and reduces_to are untouched — use 'lattice update' for those.
+
+  Deleting and re-adding a node breaks every incoming link. Editing keeps
+  the node's identity: other nodes continue to reduce to it.
+
+  The slug is NOT changed when you change the title. Slugs are identifiers,
+  not labels. Pass --slug explicitly if the old slug now contradicts the
+  title; every reduces_to reference across the vault is rewritten to the
+  new slug, exactly as 'dedup merge' rewrites references to a canonical node.
+  ('lattice rename' does the same with --dry-run and --from-title.)
+
+FLAGS:
+  <node>                 REQUIRED. Slug, partial slug, or title substring.
+  --title <title>        New title.
+  --proposition <text>   New proposition. Use "-" to read from stdin.
+  --slug <slug>          New slug: lowercase letters, digits and hyphens.
+                         Rejected if another node already uses it.
+
+OUTPUT:
+  Default (TOON): { edited: "<slug>", changes: { ... }, references_rewritten: [...] }
+  --json: same as JSON
+  --table: "Edited: <slug> (title: ..., proposition: updated)"
+
+GOLDEN EXAMPLES:
+
+  1. Reword a principle's proposition:
+     $ lattice edit untested-code-will-exhibit \\
+         --proposition "Deploying untested code guarantees that latent \\
+         defects reach users, because code acts on what it contains."
+
+  2. Correct a title and bring the slug in line with it:
+     $ lattice edit 20260303091620-untested-code \\
+         --title "Untested code ships its defects to production" \\
+         --slug 20260303091620-untested-code-ships-its-defects-to-production
+     # Every node that reduced to the old slug now reduces to the new one.
+
+  3. Pipe a long proposition from stdin:
+     $ cat proposition.txt | lattice edit run-full-test-suite --proposition -
+`,
+    );
+
+  cmd.action(async (nodeQuery: string, opts) => {
+    try {
+      const parentOpts = cmd.parent?.opts() ?? {};
+      const vaultPath = resolveVaultPath(parentOpts.vault ?? ".");
+      await requireVault(vaultPath);
+      await lockVault(vaultPath);
+      const format = resolveFormat(parentOpts);
+
+      const nodes = await loadAllNodes(vaultPath);
+      const slug = resolveNodeSlug(nodeQuery, nodes);
+      const node = nodes.get(slug)!;
+
+      const changes: Record<string, string> = {};
+
+      // ── Title ──
+      let newTitle: string | undefined;
+      if (opts.title !== undefined) {
+        newTitle = (opts.title as string).trim();
+        if (!newTitle) {
+          throw new LatticeError("Title cannot be empty", EXIT.BAD_INPUT);
+        }
+        if (newTitle !== node.title) {
+          changes.title = `${node.title} → ${newTitle}`;
+        }
+      }
+
+      // ── Proposition ──
+      let newProposition: string | undefined;
+      if (opts.proposition !== undefined) {
+        newProposition = opts.proposition as string;
+        if (newProposition === "-") {
+          newProposition = await readStdin();
+        }
+        newProposition = newProposition.trim();
+        if (!newProposition) {
+          throw new LatticeError(
+            "Proposition cannot be empty",
+            EXIT.BAD_INPUT,
+          );
+        }
+        if (newProposition !== node.proposition) {
+          changes.proposition = "updated";
+        }
+      }
+
+      // ── Slug ──
+      let newSlug: string | undefined;
+      if (opts.slug !== undefined) {
+        newSlug = (opts.slug as string).trim().replace(/\.md$/, "");
+        if (!isValidSlug(newSlug)) {
+          throw new LatticeError(
+            `Invalid slug '${newSlug}'. Use lowercase letters, digits and single hyphens only.`,
+            EXIT.BAD_INPUT,
+          );
+        }
+        if (newSlug !== slug) {
+          if (nodes.has(newSlug)) {
+            throw new DuplicateSlugError(newSlug);
+          }
+          changes.slug = `${slug} → ${newSlug}`;
+        }
+      }
+
+      if (Object.keys(changes).length === 0) {
+        throw new LatticeError(
+          "No edits specified. Use --title, --proposition, or --slug with a value that differs from the current one.",
+          EXIT.BAD_INPUT,
+        );
+      }
+
+      // Apply the content edit first, then move the file
+      let referencesRewritten: string[] = [];
+      let finalSlug = slug;
+      await runInTransaction(vaultPath, async () => {
+        if (changes.title || changes.proposition) {
+          await updateNodeFile(node, {
+            title: changes.title ? newTitle : undefined,
+            proposition: changes.proposition ? newProposition : undefined,
+          });
+        }
+
+        if (changes.slug && newSlug) {
+          const renamed = await renameNode(vaultPath, node, newSlug, nodes);
+          referencesRewritten = renamed.reduces_to_rewritten;
+          finalSlug = newSlug;
+        }
+      });
+
+      // Output
+      const result: Record<string, unknown> = { edited: finalSlug, changes };
+      if (changes.slug) {
+        result.references_rewritten = referencesRewritten;
+      }
+      switch (format) {
+        case "json":
+          process.stdout.write(JSON.stringify(result, null, 2) + "\n");
+          break;
+        case "toon":
+          process.stdout.write(encode(result) + "\n");
+          break;
+        case "table": {
+          const parts = Object.entries(changes)
+            .map(([k, v]) => `${k}: ${v}`)
+            .join(", ");
+          let out = `Edited: ${finalSlug} (${parts})`;
+          if (referencesRewritten.length > 0) {
+            out +=
+              `\n\nRewrote reduces_to in ${referencesRewritten.length} node(s):\n` +
+              referencesRewritten.map((s) => `  ${s}`).join("\n");
+          }
+          process.stdout.write(out + "\n");
+          break;
+        }
+      }
+    } catch (err) {
+      handleError(err);
+    }
+  });
+
+  return cmd;
+}
@@ -0,0 +1,99 @@
+import { Command } from "commander";
+import { resolveVaultPath, requireVault } from "../core/vault.js";
+import { loadAllNodes } from "../core/node.js";
+import { loadHistory } from "../core/history.js";
+import { resolveFormat } from "../util/format.js";
+import { encode } from "@toon-format/toon";
+import { handleError, resolveNodeSlug } from "../util/cli-helpers.js";
+
+export function makeHistoryCommand(): Command {
+  const cmd = new Command("history");
+
+  cmd
+    .description("Show a node's revision timeline")
+    .argument("<node>", "Node slug, filename, or partial title match")
+    .addHelpText(
+      "after",
+      `
+WHAT THIS DOES:
+  Prints every recorded write to a node, oldest first: when, who, and
+  which fields changed from what to what.
+
+  Every write through the CLI (add, update, edit, rename, relevel, dedup)
+  appends a revision to <vault>/.history/<slug>.jsonl. Edits made outside
+  the CLI (e.g. in Obsidian) are not recorded.
+
+  The actor is taken from $LATTICE_ACTOR (or --actor), falling back to the
+  OS user name. Agents should set it so a demotion can be traced to the
+  agent that made it.
+
+OUTPUT:
+  Default (TOON): { slug, revisions: [{ rev, timestamp, actor, action, changes }] }
+  --json: same as JSON
+  --table: one block per revision, "field: old → new"
+
+GOLDEN EXAMPLES:
+
+  1. Find out who demoted a principle:
+     $ lattice history untested-code-will-exhibit --table
+
+  2. Pick a revision to roll back to:
+     $ lattice history untested-code-will-exhibit --json | jq '.revisions[] | {rev, actor}'
+     $ lattice revert untested-code-will-exhibit --to 3
+`,
+    );
+
+  cmd.action(async (nodeQuery: string) => {
+    try {
+      const parentOpts = cmd.parent?.opts() ?? {};
+      const vaultPath = resolveVaultPath(parentOpts.vault ?? ".");
+      await requireVault(vaultPath);
+      const format = resolveFormat(parentOpts);
+
+      const nodes = await loadAllNodes(vaultPath);
+      const slug = resolveNodeSlug(nodeQuery, nodes);
+      const revisions = await loadHistory(vaultPath, slug);
+
+      const result = { slug, revisions };
+      switch (format) {
+        case "json":
+          process.stdout.write(JSON.stringify(result, null, 2) + "\n");
+          break;
+        case "toon":
+          process.stdout.write(encode(result) + "\n");
+          break;
+        case "table": {
+          if (revisions.length === 0) {
+            process.stdout.write(`No recorded history for ${slug}.\n`);
+            break;
+          }
+          const lines: string[] = [`History of ${slug}:`, ""];
+          for (const r of revisions) {
+            lines.push(`rev ${r.rev}  ${r.timestamp}  ${r.actor}  ${r.action}`);
+            for (const [field, change] of Object.entries(r.changes)) {
+              lines.push(`  ${field}: ${formatValue(change.old)} → ${formatValue(change.new)}`);
+            }
+            lines.push("");
+          }
+          process.stdout.write(lines.join("\n"));
+          break;
+        }
+      }
+    } catch (err) {
+      handleError(err);
+    }
+  });
+
+  return cmd;
+}
+
+/** Render a revision value on one line, truncated for terminal output. */
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) return "(none)";
+  const text = Array.isArray(value)
+    ? value.join(",") || "(empty)"
+    : typeof value === "string"
+      ? value
+      : JSON.stringify(value);
+  return text.length > 60 ? text.slice(0, 57) + "..." : text;
+}
@@ -0,0 +1,183 @@
+import { Command } from "commander";
+import { relative } from "node:path";
+import { encode } from "@toon-format/toon";
+import { resolveVaultPath, requireVault } from "../core/vault.js";
+import { rebuildNodeIndex, verifyNodeIndex } from "../core/node-index.js";
+import { resolveFormat } from "../util/format.js";
+import { EXIT } from "../core/constants.js";
+import { resolveParentOpts, handleError } from "../util/cli-helpers.js";
+
+export function makeIndexCommand(): Command {
+  const cmd = new Command("index");
+
+  cmd
+    .description("Manage the parsed-node cache (.lattice.index.json)")
+    .addHelpText(
+      "after",
+      `
+WHAT THIS DOES:
+  Every command that reads the lattice needs every node parsed. Rather
+  than re-reading each markdown file every time, the parsed nodes are
+  cached in <vault>/.lattice.index.json, keyed by file path, mtime and
+  size, together with the incoming-link map (who reduces to whom).
+
+  A load stats each node file and re-parses only those that changed
+  since they were cached. New, edited (including by hand in Obsidian),
+  moved and deleted files are all picked up automatically. There is
+  nothing to keep in sync by hand.
+
+  The index is derived data. Deleting it is always safe; the next
+  command rebuilds it. It should not be committed to version control.
+
+SUBCOMMANDS:
+  rebuild  Discard the index and re-parse every node file
+  verify   Compare the index with the files on disk (read-only)
+`,
+    );
+
+  // ─── rebuild ───────────────────────────────────────────────────
+  const rebuildCmd = new Command("rebuild")
+    .description("Discard the index and re-parse every node file")
+    .addHelpText(
+      "after",
+      `
+WHAT THIS DOES:
+  Deletes .lattice.index.json and builds it again from a full parse of
+  the level folders. Never needed in normal use; run it if 'index verify'
+  reports mismatched entries (e.g. a file was rewritten by a tool that
+  preserved its mtime and size).
+
+  Malformed node files are reported on stderr and left out, exactly as
+  every other command does.
+
+OUTPUT:
+  Default (TOON): { file, nodes, time_ms }
+  --json: same as JSON
+  --table: one summary line
+
+EXAMPLES:
+  $ lattice index rebuild
+  $ lattice index rebuild --table
+  # Index rebuilt: 1,204 nodes in 412ms (.lattice.index.json)
+`,
+    );
+
+  rebuildCmd.action(async () => {
+    try {
+      const parentOpts = resolveParentOpts(cmd);
+      const vaultPath = resolveVaultPath((parentOpts.vault as string | undefined) ?? ".");
+      await requireVault(vaultPath);
+      const format = resolveFormat(parentOpts);
+
+      const start = Date.now();
+      const rebuilt = await rebuildNodeIndex(vaultPath);
+      const result = {
+        file: relative(vaultPath, rebuilt.file),
+        nodes: rebuilt.nodes,
+        time_ms: Date.now() - start,
+      };
+
+      switch (format) {
+        case "json":
+          process.stdout.write(JSON.stringify(result, null, 2) + "\n");
+          break;
+        case "toon":
+          process.stdout.write(encode(result) + "\n");
+          break;
+        case "table":
+          process.stdout.write(
+            `Index rebuilt: ${result.nodes.toLocaleString()} nodes in ${result.time_ms}ms (${result.file})\n`,
+          );
+          break;
+      }
+    } catch (err) {
+      handleError(err);
+    }
+  });
+
+  // ─── verify ────────────────────────────────────────────────────
+  const verifyCmd = new Command("verify")
+    .description("Compare the index with the node files on disk")
+    .addHelpText(
+      "after",
+      `
+WHAT THIS DOES:
+  Parses every node file and compares it with the index, without using
+  or rewriting the index. Reports:
+    stale                — mtime or size changed; re-parsed on the next load
+    missing              — not in the index yet; parsed on the next load
+    orphaned             — indexed but no longer on disk; dropped on the next load
+    mismatched           — mtime and size match but the cached node differs
+                           from the file: the next load would return wrong data
+    incoming_mismatched  — slugs whose cached incoming links are wrong
+                           (checked only when nothing is stale/missing/orphaned)
+
+  Stale, missing and orphaned entries are normal: they are how the index
+  notices changes, and the next command fixes them. Only mismatches are
+  errors; 'lattice index rebuild' repairs them.
+
+OUTPUT:
+  Default (TOON): { exists, indexed, files, stale, missing, orphaned,
+                    mismatched, incoming_mismatched }
+  --json: same as JSON
+  --table: summary, then one line per problem file
+  Exit code 1 if anything is mismatched, 0 otherwise.
+
+EXAMPLES:
+  $ lattice index verify --table
+  # Index: 1,204 entries for 1,205 files
+  # missing: 04-Applications/20260412093000-review-budget-monthly.md
+  # No mismatches.
+`,
+    );
+
+  verifyCmd.action(async () => {
+    try {
+      const parentOpts = resolveParentOpts(cmd);
+      const vaultPath = resolveVaultPath((parentOpts.vault as string | undefined) ?? ".");
+      await requireVault(vaultPath);
+      const format = resolveFormat(parentOpts);
+
+      const result = await verifyNodeIndex(vaultPath);
+      const corrupt = result.mismatched.length > 0 || result.incoming_mismatched.length > 0;
+
+      switch (format) {
+        case "json":
+          process.stdout.write(JSON.stringify(result, null, 2) + "\n");
+          break;
+        case "toon":
+          process.stdout.write(encode(result) + "\n");
+          break;
+        case "table": {
+          if (!result.exists) {
+            process.stdout.write(
+              `No index yet (${result.files.toLocaleString()} files); the next command builds it.\n`,
+            );
+            break;
+          }
+          const lines = [
+            `Index: ${result.indexed.toLocaleString()} entries for ${result.files.toLocaleString()} files`,
+          ];
+          for (const key of ["stale", "missing", "orphaned", "mismatched"] as const) {
+            for (const file of result[key]) lines.push(`${key}: ${file}`);
+          }
+          for (const slug of result.incoming_mismatched) {
+            lines.push(`incoming_mismatched: ${slug}`);
+          }
+          lines.push(corrupt ? "Run 'lattice index rebuild' to repair." : "No mismatches.");
+          process.stdout.write(lines.join("\n") + "\n");
+          break;
+        }
+      }
+
+      if (corrupt) process.exit(EXIT.VALIDATION_ERROR);
+    } catch (err) {
+      handleError(err);
+    }
+  });
+
+  cmd.addCommand(rebuildCmd);
+  cmd.addCommand(verifyCmd);
+
+  return cmd;
+}
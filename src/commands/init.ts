@@ -29,12 +29,18 @@ WHAT THIS DOES:
     ├── 03-Principles/     Induced general rules
     ├── 04-Applications/   Concrete decisions deduced from principles
     ├── tags.json          Master tag list (20 defaults)
+    ├── lattice.config.json  Vault settings (e.g. propagate_demotion, levels, statuses)
     ├── Templates/         Obsidian template skeleton
     └── .lattice           Marker file proving the vault is initialized
 
   Idempotent: safe to run multiple times. Never overwrites existing files.
   If someone deletes a folder, re-running init recreates only what is missing.
 
+  The level folders are those lattice.config.json (or lattice.config.yaml)
+  declares under "levels" — the four above unless the vault defines its
+  own. Write the config first, or re-run init after adding a level, to
+  create its folder.
+
 OUTPUT:
   "Initialized lattice vault at <path>"   — first time
   "Vault already initialized at <path>"   — subsequent runs
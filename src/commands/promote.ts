@@ -0,0 +1,165 @@
+import { Command } from "commander";
+import { resolveVaultPath, requireVault } from "../core/vault.js";
+import { loadAllNodes, updateNodeFile } from "../core/node.js";
+import {
+  buildIncomingLinks,
+  collectAncestors,
+  collectDependents,
+} from "../core/graph.js";
+import { planPromotion } from "../core/propagation.js";
+import { runInTransaction } from "../core/transaction.js";
+import { EXIT } from "../core/constants.js";
+import { isBedrock } from "../core/levels.js";
+import {
+  allowedTransitions,
+  canTransition,
+  isGrounded,
+  validatedStatus,
+} from "../core/statuses.js";
+import { InvalidTransitionError, LatticeError } from "../util/errors.js";
+import { resolveFormat } from "../util/format.js";
+import { encode } from "@toon-format/toon";
+import { handleError, resolveNodeSlug, lockVault } from "../util/cli-helpers.js";
+
+export function makePromoteCommand(): Command {
+  const cmd = new Command("promote");
+
+  cmd
+    .description("Promote a node (and optionally its subtree) to Integrated/Validated")
+    .argument("<node>", "Node slug, filename, or partial title match")
+    .option("--with-dependents", "Also promote every Tentative node that reduces to it, transitively")
+    .option("--with-ancestors", "Also promote every Tentative node in its reduction chain")
+    .option("--dry-run", "Show what would be promoted without writing")
+    .addHelpText(
+      "after",
+      `
+WHAT THIS DOES:
+  Promotes Tentative/Hypothesis nodes to Integrated/Validated in one step,
+  in the order 'update --status' would need: parents before children.
+
+  Without flags, promotes just <node> (same check as 'update --status').
+  --with-ancestors  also promotes the Tentative nodes in <node>'s chain,
+                    so a node can be validated together with the
+                    principles it rests on.
+  --with-dependents also promotes the Tentative nodes built on <node>,
+                    e.g. a principle and then all its applications.
+  Both flags may be combined.
+
+  Each node is checked as 'update' checks it: every direct parent must be
+  Integrated/Validated by the time the node is reached. Nodes promoted
+  earlier in the batch count. A node that fails the check is skipped and
+  reported with the reason; nodes that depend on it are skipped too.
+  The rest of the batch still goes through.
+
+  Bedrock (axiom, percept) and already-validated nodes are left alone.
+  Exit code is 1 if any node in scope could not be promoted.
+
+  With a custom status workflow (lattice.config.json "statuses"), nodes
+  are promoted to the first grounded status, and only nodes whose status
+  may change to it are in scope: a Refuted node stays Refuted.
+
+OUTPUT:
+  Default (TOON): { promoted: [slug, ...], not_promoted: [{ slug, reason }], dry_run }
+  --json: same as JSON
+  --table: "✓ <slug>" per promoted node, "✗ <slug> — <reason>" per skipped one
+
+GOLDEN EXAMPLES:
+
+  1. A principle and all its applications, after the principle checked out:
+     $ lattice promote untested-code-will-exhibit --with-dependents --table
+     ✓ 20260303091620-untested-code-will-exhibit-its-defects-in-pro
+     ✓ 20260303092000-run-full-test-suite-before-every-deploy
+     ✗ 20260303092100-block-merges-without-ci — parent '...-ci-is-reliable' is still Tentative/Hypothesis
+
+  2. Validate an application together with its tentative chain:
+     $ lattice promote run-full-test-suite --with-ancestors --dry-run
+`,
+    );
+
+  cmd.action(async (nodeQuery: string, opts) => {
+    try {
+      const parentOpts = cmd.parent?.opts() ?? {};
+      const vaultPath = resolveVaultPath(parentOpts.vault ?? ".");
+      await requireVault(vaultPath);
+      await lockVault(vaultPath);
+      const format = resolveFormat(parentOpts);
+
+      const nodes = await loadAllNodes(vaultPath);
+      const slug = resolveNodeSlug(nodeQuery, nodes);
+      const node = nodes.get(slug)!;
+
+      const scope = [slug];
+      if (opts.withAncestors) {
+        scope.push(...collectAncestors(slug, nodes));
+      }
+      if (opts.withDependents) {
+        const incoming = buildIncomingLinks(nodes);
+        scope.push(...collectDependents(slug, incoming).map((d) => d.slug));
+      }
+
+      const steps = planPromotion(scope, nodes);
+      if (steps.length === 0) {
+        if (
+          !isBedrock(node.level) &&
+          !isGrounded(node.status) &&
+          !canTransition(node.status, validatedStatus())
+        ) {
+          throw new InvalidTransitionError(
+            node.status,
+            validatedStatus(),
+            allowedTransitions(node.status) ?? [],
+          );
+        }
+        throw new LatticeError(
+          `Nothing to promote: '${slug}' is ${node.status}${opts.withAncestors || opts.withDependents ? " and no other nodes in scope can be promoted" : ""}.`,
+          EXIT.BAD_INPUT,
+        );
+      }
+
+      if (!opts.dryRun) {
+        await runInTransaction(vaultPath, async () => {
+          for (const step of steps) {
+            if (step.promoted) {
+              await updateNodeFile(nodes.get(step.slug)!, {
+                status: validatedStatus(),
+              });
+            }
+          }
+        });
+      }
+
+      const result = {
+        promoted: steps.filter((s) => s.promoted).map((s) => s.slug),
+        not_promoted: steps
+          .filter((s) => !s.promoted)
+          .map((s) => ({ slug: s.slug, reason: s.reason! })),
+        dry_run: Boolean(opts.dryRun),
+      };
+      switch (format) {
+        case "json":
+          process.stdout.write(JSON.stringify(result, null, 2) + "\n");
+          break;
+        case "toon":
+          process.stdout.write(encode(result) + "\n");
+          break;
+        case "table": {
+          const lines = steps.map((s) =>
+            s.promoted ? `✓ ${s.slug}` : `✗ ${s.slug} — ${s.reason}`,
+          );
+          const verb = opts.dryRun ? "Would promote" : "Promoted";
+          lines.push("", `${verb} ${result.promoted.length} of ${steps.length} node(s).`);
+          process.stdout.write(lines.join("\n") + "\n");
+          break;
+        }
+      }
+
+      if (result.not_promoted.length > 0) {
+        process.exit(EXIT.VALIDATION_ERROR);
+      }
+    } catch (err) {
+      handleError(err);
+    }
+  });
+
+  return cmd;
+}
@@ -1,12 +1,21 @@
 import { Command } from "commander";
 import { resolveVaultPath, requireVault } from "../core/vault.js";
 import { loadAllNodes, type LatticeNode } from "../core/node.js";
-import { buildReductionChain, findHollowChains, findRelatedNodes, buildIncomingLinks } from "../core/graph.js";
+import {
+  findHollowChains,
+  findTentativeNodes,
+  SEED_STRATEGIES,
+  type SeedStrategy,
+} from "../core/graph.js";
+import type { Level, Status } from "../core/constants.js";
+import { Lattice } from "../lattice.js";
 import { resolveFormat, formatNodes, formatChainTree } from "../util/format.js";
 import { encode } from "@toon-format/toon";
-import { LatticeError } from "../util/errors.js";
-import { EXIT, LEVELS } from "../core/constants.js";
-import { resolveParentOpts, handleError, resolveNodeSlug } from "../util/cli-helpers.js";
+import { InvalidLevelError, InvalidStatusError, LatticeError } from "../util/errors.js";
+import { EXIT } from "../core/constants.js";
+import { isLevel, levelNames } from "../core/levels.js";
+import { isGrounded, isStatus } from "../core/statuses.js";
+import { resolveParentOpts, handleError, parseDuration } from "../util/cli-helpers.js";
 
 export function makeQueryCommand(): Command {
   const cmd = new Command("query");
@@ -21,8 +30,9 @@ WHAT THIS DOES:
   read interface — the commands an agent runs dozens of times per session
   to look up what it knows, verify its reasoning, and find gaps.
 
-  Every query loads the full graph from disk into memory. No database.
-  Performance: <0.5s for 10,000 nodes.
+  Every query loads the full graph into memory. No database: parsed
+  nodes are cached in .lattice.index.json and only files changed since
+  the last command are re-read (see 'lattice index --help').
 
   Default output is TOON (compact, LLM-optimized). Use --json for scripts
   or --table for human-readable terminal output.
@@ -36,6 +46,7 @@ SUBCOMMANDS:
   tag            Everything you know about a topic, grouped by level.
   hollow-chains  Validated nodes whose chain contains a Tentative ancestor.
   related        Multi-hop graph walk to find epistemically connected nodes.
+  search         Ranked full-text search over titles, propositions and tags.
 
 WHEN TO USE EACH:
   "What should I do about X?"         → query applications --tag X
@@ -46,6 +57,7 @@ WHEN TO USE EACH:
   "Give me a full inventory"          → query all
   "Is any validated node now hollow?" → query hollow-chains
   "What do I know related to X?"      → query related <query>
+  "Where did I write about X?"        → query search <terms>
 
 Run 'lattice query <subcommand> --help' for full details.
 `,
@@ -107,16 +119,16 @@ GOLDEN EXAMPLES:
 
       if (opts.level) {
         const level = opts.level.toLowerCase();
-        if (!LEVELS.includes(level as typeof LEVELS[number])) {
-          throw new LatticeError(
-            `Invalid level '${opts.level}'. Must be one of: percept, axiom, principle, application`,
-            EXIT.BAD_INPUT,
-          );
+        if (!isLevel(level)) {
+          throw new InvalidLevelError(opts.level);
         }
         results = results.filter((n) => n.level === level);
       }
 
       if (opts.status) {
+        if (!isStatus(opts.status)) {
+          throw new InvalidStatusError(opts.status);
+        }
         results = results.filter((n) => n.status === opts.status);
       }
 
@@ -124,8 +136,8 @@ GOLDEN EXAMPLES:
         results = results.filter((n) => n.tags.includes(opts.tag.toLowerCase()));
       }
 
-      // Sort by level order (percepts first)
-      const levelOrder = ["percept", "axiom", "principle", "application"];
+      // Sort by level order (as declared: percepts first by default)
+      const levelOrder = levelNames();
       results.sort((a, b) => levelOrder.indexOf(a.level) - levelOrder.indexOf(b.level));
 
       process.stdout.write(formatNodes(results, format) + "\n");
@@ -178,7 +190,7 @@ GOLDEN EXAMPLES:
       const format = resolveFormat(parentOpts);
 
       const nodes = await loadAllNodes(vaultPath);
-      let results = filterByLevelAndStatus(nodes, "application", "Integrated/Validated");
+      let results = filterGroundedByLevel(nodes, "application");
       if (opts.tag) {
         results = results.filter((n) => n.tags.includes(opts.tag.toLowerCase()));
       }
@@ -230,7 +242,7 @@ GOLDEN EXAMPLES:
       const format = resolveFormat(parentOpts);
 
       const nodes = await loadAllNodes(vaultPath);
-      let results = filterByLevelAndStatus(nodes, "principle", "Integrated/Validated");
+      let results = filterGroundedByLevel(nodes, "principle");
       if (opts.tag) {
         results = results.filter((n) => n.tags.includes(opts.tag.toLowerCase()));
       }
@@ -300,21 +312,10 @@ GOLDEN EXAMPLES:
   chainCmd.action(async (nodeQuery: string) => {
     try {
       const parentOpts = resolveParentOpts(cmd);
-      const vaultPath = resolveVaultPath(parentOpts.vault ?? ".");
-      await requireVault(vaultPath);
+      const lattice = await Lattice.open((parentOpts.vault as string | undefined) ?? ".");
       const format = resolveFormat(parentOpts);
 
-      const nodes = await loadAllNodes(vaultPath);
-      const slug = resolveNodeSlug(nodeQuery, nodes);
-
-      const tree = buildReductionChain(slug, nodes);
-      if (!tree) {
-        throw new LatticeError(
-          `Could not build reduction chain for '${slug}'`,
-          EXIT.VALIDATION_ERROR,
-        );
-      }
-
+      const tree = await lattice.chain(nodeQuery);
       process.stdout.write(formatChainTree(tree, format) + "\n");
     } catch (err) {
       handleError(err);
@@ -341,6 +342,11 @@ WHAT THIS DOES:
   If a belief has sat ungrounded for a week, it is either worth validating
   (do it now) or not worth keeping (delete it).
 
+  With custom statuses (lattice.config.json "statuses"), every open status
+  is listed — neither grounded nor terminal, e.g. Under-Review, Contested.
+  Terminal statuses such as Refuted are settled and left out: if the vault
+  has one, mark a disproven belief with it rather than deleting it.
+
 FLAGS:
   --older-than <duration>   Filter by age: "7d" (days) or "48h" (hours)
 
@@ -368,19 +374,11 @@ GOLDEN EXAMPLES:
       const format = resolveFormat(parentOpts);
 
       const nodes = await loadAllNodes(vaultPath);
-      let results = Array.from(nodes.values()).filter(
-        (n) => n.status === "Tentative/Hypothesis",
+      const results = findTentativeNodes(
+        nodes,
+        opts.olderThan ? parseDuration(opts.olderThan) : undefined,
       );
 
-      if (opts.olderThan) {
-        const thresholdMs = parseDuration(opts.olderThan);
-        const cutoff = Date.now() - thresholdMs;
-        results = results.filter((n) => n.created.getTime() < cutoff);
-      }
-
-      // Sort oldest first
-      results.sort((a, b) => a.created.getTime() - b.created.getTime());
-
       process.stdout.write(formatNodes(results, format) + "\n");
     } catch (err) {
       handleError(err);
@@ -436,7 +434,7 @@ GOLDEN EXAMPLES:
       const results = Array.from(nodes.values())
         .filter((n) => n.tags.includes(tagLower))
         .sort((a, b) => {
-          const levelOrder = ["percept", "axiom", "principle", "application"];
+          const levelOrder = levelNames();
           return levelOrder.indexOf(a.level) - levelOrder.indexOf(b.level);
         });
 
@@ -515,7 +513,7 @@ GOLDEN EXAMPLES:
             lines.push(`  slug: ${r.slug}`);
             lines.push(`  weak links:`);
             for (const w of r.weak_links) {
-              lines.push(`    ${w.level}: "${w.title}"  (${w.slug})`);
+              lines.push(`    ${w.level}: "${w.title}"  (${w.slug}) [${w.status}]`);
             }
             lines.push("");
           }
@@ -542,6 +540,11 @@ GOLDEN EXAMPLES:
     .argument("<query>", "Partial slug, tag name, or title keyword to seed the search")
     .option("--limit <n>", "Maximum results to return (default: 5)", "5")
     .option("--depth <n>", "Maximum hops in each direction (default: 3)", "3")
+    .option(
+      "--seed <strategy>",
+      "Entry points: auto (slug/tag/title, then search), search, or semantic (embeddings)",
+      "auto",
+    )
     .addHelpText(
       "after",
       `
@@ -560,6 +563,11 @@ HOW IT WORKS:
        a) Slug match (partial/substring) → single seed node
        b) Tag match  → every node tagged with that name as seeds
        c) Title keyword match → matching nodes as seeds
+       d) Full-text search → the 5 best matches (as 'query search')
+     --seed search skips a)–c): use it for free-text questions whose words
+     happen to match a title or tag too loosely.
+     --seed semantic seeds from the 5 nodes whose embeddings are nearest
+     the query's (provider set in lattice.config.json; see 'dedup candidates').
 
   2. GRAPH WALK — from each seed, walk up to --depth hops in both directions:
        down: follows reduces_to toward bedrock
@@ -611,63 +619,29 @@ GOLDEN EXAMPLES:
 
   4. Machine-readable for agent consumption:
      $ lattice query related "rewrite vs refactor" --json
+
+  5. Seed from the propositions that best match a question:
+     $ lattice query related "should I take on debt for education" --seed search
 `,
     );
 
   relatedCmd.action(async (query: string, opts) => {
     try {
       const parentOpts = resolveParentOpts(cmd);
-      const vaultPath = resolveVaultPath(parentOpts.vault ?? ".");
-      await requireVault(vaultPath);
+      const lattice = await Lattice.open((parentOpts.vault as string | undefined) ?? ".");
       const format = resolveFormat(parentOpts);
 
       const limit = Math.max(1, parseInt(opts.limit as string, 10) || 5);
       const depth = Math.max(1, parseInt(opts.depth as string, 10) || 3);
-
-      const nodes = await loadAllNodes(vaultPath);
-      const incomingLinks = buildIncomingLinks(nodes);
-
-      // ── Entry point resolution ──────────────────────────────────
-      let entryPoints: string[] = [];
-      let entryMethod = "";
-
-      // 1. Slug match
-      try {
-        const slug = resolveNodeSlug(query, nodes);
-        entryPoints = [slug];
-        entryMethod = `slug match: "${slug}"`;
-      } catch {
-        // 2. Tag match
-        const tagLower = query.toLowerCase().trim();
-        const tagMatches = Array.from(nodes.values())
-          .filter((n) => n.tags.includes(tagLower))
-          .map((n) => n.slug);
-
-        if (tagMatches.length > 0) {
-          entryPoints = tagMatches;
-          entryMethod = `tag match: "${tagLower}" (${tagMatches.length} seeds)`;
-        } else {
-          // 3. Title substring match
-          const titleLower = query.toLowerCase().trim();
-          const titleMatches = Array.from(nodes.values())
-            .filter((n) => n.title.toLowerCase().includes(titleLower))
-            .map((n) => n.slug);
-
-          if (titleMatches.length > 0) {
-            entryPoints = titleMatches;
-            entryMethod = `title match: "${query}" (${titleMatches.length} seeds)`;
-          }
-        }
-      }
-
-      if (entryPoints.length === 0) {
+      const seed = opts.seed as SeedStrategy;
+      if (!SEED_STRATEGIES.includes(seed)) {
         throw new LatticeError(
-          `No entry points found for "${query}". Try a partial slug, a tag name, or a title keyword.`,
+          `Invalid seed strategy '${opts.seed}'. Must be one of: ${SEED_STRATEGIES.join(", ")}`,
           EXIT.BAD_INPUT,
         );
       }
 
-      const results = findRelatedNodes(entryPoints, nodes, incomingLinks, depth, limit);
+      const { entry: entryMethod, results } = await lattice.related(query, { depth, limit, seed });
 
       if (format === "table") {
         if (results.length === 0) {
@@ -680,7 +654,7 @@ GOLDEN EXAMPLES:
           for (let i = 0; i < results.length; i++) {
             const r = results[i];
             const rel = r.relationship.join("+");
-            const validated = r.status === "Integrated/Validated" ? "✓" : "~";
+            const validated = isGrounded(r.status) ? "✓" : "~";
             lines.push(
               `${i + 1}. [score ${r.score}] ${validated} ${r.level}: ${r.title}`,
             );
@@ -704,6 +678,97 @@ GOLDEN EXAMPLES:
     }
   });
 
+  // ─── search ────────────────────────────────────────────────────────
+  const searchCmd = new Command("search")
+    .description("Ranked full-text search over titles, propositions and tags")
+    .argument("<terms...>", "Words to find; wrap a phrase in double quotes")
+    .option("--level <level>", "Filter by level (percept, axiom, principle, application)")
+    .option("--status <status>", "Filter by status (Integrated/Validated or Tentative/Hypothesis)")
+    .option("--tag <tag>", "Filter by tag")
+    .option("--limit <n>", "Maximum results to return (default: 10)", "10")
+    .addHelpText(
+      "after",
+      `
+WHAT THIS DOES:
+  Searches the words of every node — title, proposition and tags — and
+  ranks the matches with BM25, the scoring used by search engines:
+  rare words count for more than common ones, repeated words count with
+  diminishing returns, and a match in a short title outweighs the same
+  word buried in a long proposition (title ×3, tags ×2, proposition ×1).
+
+  Slug and title lookups ('query chain', 'query related') only match
+  names. This finds what you actually wrote.
+
+QUERY SYNTAX:
+  Bare words match any of them; more matching words rank higher.
+  "Quoted phrases" must appear word for word (quote them for the shell).
+  Matching ignores case, accents, plurals ("tests" finds "test") and
+  common words like "the" or "of".
+
+FLAGS:
+  --level <level>    Only nodes at this level
+  --status <status>  Only nodes with this status
+  --tag <tag>        Only nodes with this tag
+  --limit <n>        Maximum results (default: 10)
+
+OUTPUT:
+  Default (TOON): [{ slug, title, level, status, tags, score, snippet, highlights }]
+    snippet:    the proposition around the first match
+    highlights: [start, end) ranges of the matched words in snippet
+  --json: same as JSON
+  --table: ranked list with matched words in the snippet marked **like this**
+
+GOLDEN EXAMPLES:
+
+  1. Where did I write about interest rates?
+     $ lattice query search interest rates --table
+     # 1. [score 4.12] ✓ principle: Debt compounds against you
+     #    20260301120000-debt-compounds-against-you
+     #    …variable **interest** **rates** make the cost of a loan unknowable…
+
+  2. Exact phrase, validated principles only:
+     $ lattice query search '"sunk cost"' --level principle --status "Integrated/Validated"
+
+  3. Feed an agent the best matches:
+     $ lattice query search deploy rollback --limit 5 --json
+`,
+    );
+
+  searchCmd.action(async (terms: string[], opts) => {
+    try {
+      const parentOpts = resolveParentOpts(cmd);
+      const lattice = await Lattice.open((parentOpts.vault as string | undefined) ?? ".");
+      const format = resolveFormat(parentOpts);
+
+      const hits = await lattice.search(terms.join(" "), {
+        level: opts.level?.toLowerCase() as Level | undefined,
+        status: opts.status as Status | undefined,
+        tag: opts.tag,
+        limit: Math.max(1, parseInt(opts.limit as string, 10) || 10),
+      });
+
+      if (format === "table") {
+        if (hits.length === 0) {
+          process.stdout.write("No matches.\n");
+          return;
+        }
+        const lines: string[] = [];
+        hits.forEach((h, i) => {
+          const validated = isGrounded(h.status) ? "✓" : "~";
+          lines.push(`${i + 1}. [score ${h.score}] ${validated} ${h.level}: ${h.title}`);
+          lines.push(`   ${h.slug}`);
+          if (h.snippet) lines.push(`   ${highlight(h.snippet, h.highlights)}`);
+        });
+        process.stdout.write(lines.join("\n") + "\n");
+      } else {
+        const output = format === "json" ? JSON.stringify(hits, null, 2) : encode(hits);
+        process.stdout.write(output + "\n");
+      }
+    } catch (err) {
+      handleError(err);
+    }
+  });
+
   cmd.addCommand(allCmd);
   cmd.addCommand(appCmd);
   cmd.addCommand(prinCmd);
@@ -712,32 +777,29 @@ GOLDEN EXAMPLES:
   cmd.addCommand(tagCmd);
   cmd.addCommand(hollowCmd);
   cmd.addCommand(relatedCmd);
+  cmd.addCommand(searchCmd);
 
   return cmd;
 }
 
 // ─── Helpers ─────────────────────────────────────────────────────────
 
-function filterByLevelAndStatus(
+function filterGroundedByLevel(
   nodes: Map<string, LatticeNode>,
   level: string,
-  status: string,
 ): LatticeNode[] {
   return Array.from(nodes.values()).filter(
-    (n) => n.level === level && n.status === status,
+    (n) => n.level === level && isGrounded(n.status),
   );
 }
 
-function parseDuration(s: string): number {
-  const match = s.match(/^(\d+)(d|h)$/);
-  if (!match) {
-    throw new LatticeError(
-      `Invalid duration '${s}'. Use format like 7d (days) or 48h (hours).`,
-      EXIT.BAD_INPUT,
-    );
+/** Mark each [start, end) range of text as **bold**. */
+function highlight(text: string, ranges: Array<[number, number]>): string {
+  let out = "";
+  let at = 0;
+  for (const [start, end] of ranges) {
+    out += text.slice(at, start) + "**" + text.slice(start, end) + "**";
+    at = end;
   }
-  const value = parseInt(match[1], 10);
-  const unit = match[2];
-  if (unit === "d") return value * 24 * 60 * 60 * 1000;
-  return value * 60 * 60 * 1000;
+  return out + text.slice(at);
 }
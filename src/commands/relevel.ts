@@ -0,0 +1,265 @@
+import { Command } from "commander";
+import { join, basename } from "node:path";
+import { resolveVaultPath, requireVault } from "../core/vault.js";
+import { loadAllNodes, updateNodeFile, moveNodeFile } from "../core/node.js";
+import { runInTransaction } from "../core/transaction.js";
+import {
+  buildIncomingLinks,
+  findLevelMismatchesAt,
+  validateParentsAreValidated,
+  wouldCreateCycle,
+} from "../core/graph.js";
+import { EXIT, type Level, type Status } from "../core/constants.js";
+import { isBedrock, isLevel, levelFolder } from "../core/levels.js";
+import { initialStatus, isGrounded, validatedStatus } from "../core/statuses.js";
+import {
+  LatticeError,
+  BedrockReductionError,
+  CycleDetectedError,
+  InvalidLevelError,
+  MissingReductionError,
+  TargetNotFoundError,
+} from "../util/errors.js";
+import { resolveFormat } from "../util/format.js";
+import { encode } from "@toon-format/toon";
+import { handleError, resolveNodeSlug, lockVault } from "../util/cli-helpers.js";
+import { propagateDemotion, shouldPropagate } from "../core/propagation.js";
+
+export function makeRelevelCommand(): Command {
+  const cmd = new Command("relevel");
+
+  cmd
+    .description("Move a node to a different level, re-validating every edge")
+    .argument("<node>", "Node slug, filename, or partial title match")
+    .requiredOption("--to <level>", "Target level: percept, axiom, principle, application (or as configured)")
+    .option(
+      "-r, --reduces-to <slug>",
+      "Replace reduces_to with these links. Repeatable. Required when leaving bedrock.",
+      (val: string, prev: string[]) => [...prev, val],
+      [] as string[],
+    )
+    .option("--dry-run", "Report the edge check without moving anything")
+    .addHelpText(
+      "after",
+      `
+WHAT THIS DOES:
+  Reclassifies a node: rewrites its level and moves its file to the matching
+  level folder. The slug, and therefore every incoming link, is unchanged.
+
+  Use this when a node was filed at the wrong level — a "principle" that is
+  really a concrete application, or a "percept" that was actually an
+  inference from what was seen.
+
+EDGE CHECK:
+  Level ordering is re-validated on every edge the node touches:
+    - outgoing: its own reduces_to links, at the new level
+    - incoming: every node that reduces to it
+  Each edge that would become a level_mismatch is reported by name. If any
+  edge fails, nothing is changed (exit 1). Run with --dry-run to see the
+  report first, then fix the offending links with 'lattice update'.
+
+STATUS RULES:
+  - Leaving bedrock (axiom/percept → principle/application): status is
+    reset to Tentative/Hypothesis. Bedrock is validated by presence; a
+    principle must earn validation through its chain. -r is required,
+    because a non-bedrock node without reduces_to is a floating abstraction.
+  - Entering bedrock: status becomes Integrated/Validated and reduces_to
+    is cleared (bedrock is irreducible). Dropped links are reported.
+  - Between principle and application: status is kept. If new -r links are
+    given on a validated node, every parent must be validated.
+
+FLAGS:
+  <node>              REQUIRED. Slug, partial slug, or title substring.
+  --to <level>        REQUIRED. percept | axiom | principle | application, or a
+                      level declared in lattice.config.json
+  -r, --reduces-to    Replace reduces_to (repeatable).
+  --dry-run           Report only.
+
+OUTPUT:
+  Default (TOON): { relevelled, from_level, to_level, new_file, status,
+                    reduces_to, reduces_to_dropped, level_mismatches,
+                    propagated, dry_run }
+                  propagated lists validated dependents demoted because the
+                  node left bedrock (only when the vault sets
+                  propagate_demotion in lattice.config.json).
+  --json: same as JSON
+  --table: human-readable summary
+
+GOLDEN EXAMPLES:
+
+  1. A "principle" that is really an application of another principle:
+     $ lattice relevel run-tests-before-deploy --to application \\
+         -r 20260303091620-untested-code-will-exhibit-its-defects
+     # reduces_to is replaced: a principle → axiom link is fine for an
+     # application too, but the new link makes the deduction explicit.
+
+  2. A "percept" that was actually an inference:
+     $ lattice relevel users-hate-modals --to principle \\
+         -r 20260310120000-user-closed-modal-within-1s --dry-run
+     $ lattice relevel users-hate-modals --to principle \\
+         -r 20260310120000-user-closed-modal-within-1s
+     # Status is now Tentative/Hypothesis. Promote it once grounded.
+
+  3. Edge check refusing the move:
+     $ lattice relevel causality-is-identity --to application
+     Error: Cannot relevel '...': 1 edge(s) would become level_mismatch:
+       20260303092000-run-full-test-suite → ...: Level mismatch: application cannot reduce to application
+`,
+    );
+
+  cmd.action(async (nodeQuery: string, opts) => {
+    try {
+      const parentOpts = cmd.parent?.opts() ?? {};
+      const vaultPath = resolveVaultPath(parentOpts.vault ?? ".");
+      await requireVault(vaultPath);
+      await lockVault(vaultPath);
+      const format = resolveFormat(parentOpts);
+
+      const nodes = await loadAllNodes(vaultPath);
+      const slug = resolveNodeSlug(nodeQuery, nodes);
+      const node = nodes.get(slug)!;
+
+      const toLevel = opts.to as Level;
+      if (!isLevel(toLevel)) {
+        throw new InvalidLevelError(toLevel);
+      }
+      if (toLevel === node.level) {
+        throw new LatticeError(
+          `Node '${slug}' is already at level ${toLevel}`,
+          EXIT.BAD_INPUT,
+        );
+      }
+
+      const wasBedrock = isBedrock(node.level);
+      const willBeBedrock = isBedrock(toLevel);
+      const requested: string[] = (opts.reducesTo as string[]).map((r) =>
+        r.replace(/\.md$/, "").trim(),
+      );
+
+      // ── New reduces_to ──
+      let newReducesTo: string[];
+      let dropped: string[] = [];
+      if (willBeBedrock) {
+        if (requested.length > 0) {
+          throw new BedrockReductionError(toLevel);
+        }
+        newReducesTo = [];
+        dropped = [...node.reduces_to];
+      } else {
+        newReducesTo = requested.length > 0 ? requested : [...node.reduces_to];
+        if (newReducesTo.length === 0) {
+          throw new MissingReductionError(toLevel);
+        }
+      }
+
+      // Existence and cycles for new links; level order is reported below
+      for (const target of requested) {
+        if (!nodes.has(target)) throw new TargetNotFoundError(target);
+        if (wouldCreateCycle(slug, target, nodes)) throw new CycleDetectedError();
+      }
+
+      // ── New status ──
+      let newStatus: Status;
+      if (willBeBedrock) {
+        newStatus = validatedStatus();
+      } else if (wasBedrock) {
+        newStatus = initialStatus();
+      } else {
+        newStatus = node.status;
+        if (isGrounded(newStatus) && requested.length > 0) {
+          validateParentsAreValidated(newReducesTo, nodes);
+        }
+      }
+
+      const incoming = buildIncomingLinks(nodes);
+      const mismatches = findLevelMismatchesAt(
+        slug,
+        toLevel,
+        newReducesTo,
+        nodes,
+        incoming,
+      );
+
+      if (mismatches.length > 0 && !opts.dryRun) {
+        const list = mismatches
+          .map((m) => `  ${m.from} → ${m.to}: ${m.message}`)
+          .join("\n");
+        throw new LatticeError(
+          `Cannot relevel '${slug}': ${mismatches.length} edge(s) would become level_mismatch:\n${list}`,
+          EXIT.VALIDATION_ERROR,
+        );
+      }
+
+      const newFile = join(vaultPath, levelFolder(toLevel), basename(node.filePath));
+
+      const propagated = await runInTransaction(vaultPath, async () => {
+        if (!opts.dryRun) {
+          await updateNodeFile(node, {
+            level: toLevel,
+            status: newStatus,
+            reduces_to: newReducesTo,
+          });
+          await moveNodeFile(node, newFile);
+        }
+
+        // Leaving bedrock is a demotion; honour the vault's propagation setting
+        return isGrounded(node.status) &&
+          !isGrounded(newStatus) &&
+          (await shouldPropagate(vaultPath, false))
+          ? await propagateDemotion(slug, nodes, Boolean(opts.dryRun))
+          : [];
+      });
+
+      // Output
+      const result = {
+        relevelled: slug,
+        from_level: node.level,
+        to_level: toLevel,
+        new_file: newFile,
+        status: newStatus === node.status
+          ? newStatus
+          : `${node.status} → ${newStatus}`,
+        reduces_to: newReducesTo,
+        reduces_to_dropped: dropped,
+        level_mismatches: mismatches,
+        propagated,
+        dry_run: Boolean(opts.dryRun),
+      };
+      switch (format) {
+        case "json":
+          process.stdout.write(JSON.stringify(result, null, 2) + "\n");
+          break;
+        case "toon":
+          process.stdout.write(encode(result) + "\n");
+          break;
+        case "table": {
+          const lines = [
+            `${opts.dryRun ? "Would relevel" : "Relevelled"}: ${slug} (${node.level} → ${toLevel})`,
+            `  file: ${newFile}`,
+            `  status: ${result.status}`,
+          ];
+          if (dropped.length > 0) {
+            lines.push(`  reduces_to dropped: ${dropped.join(", ")}`);
+          }
+          if (propagated.length > 0) {
+            lines.push(`  demoted dependents: ${propagated.map((p) => p.slug).join(", ")}`);
+          }
+          if (mismatches.length === 0) {
+            lines.push("  ✓ 0 level mismatches");
+          } else {
+            lines.push(`  ⚠ ${mismatches.length} edge(s) would become level_mismatch:`);
+            for (const m of mismatches) {
+              lines.push(`    ${m.from} → ${m.to}: ${m.message}`);
+            }
+          }
+          process.stdout.write(lines.join("\n") + "\n");
+          break;
+        }
+      }
+    } catch (err) {
+      handleError(err);
+    }
+  });
+
+  return cmd;
+}
@@ -0,0 +1,162 @@
+import { Command } from "commander";
+import { resolveVaultPath, requireVault } from "../core/vault.js";
+import {
+  loadAllNodes,
+  renameNode,
+  isValidSlug,
+  slugify,
+} from "../core/node.js";
+import { LatticeError } from "../util/errors.js";
+import { EXIT } from "../core/constants.js";
+import { resolveFormat } from "../util/format.js";
+import { encode } from "@toon-format/toon";
+import { handleError, resolveNodeSlug, lockVault } from "../util/cli-helpers.js";
+
+export function makeRenameCommand(): Command {
+  const cmd = new Command("rename");
+
+  cmd
+    .description("Change a node's slug and rewrite every reference to it")
+    .argument("<node>", "Node slug, filename, or partial title match")
+    .argument("[new-slug]", "New slug (no .md). Omit when using --from-title.")
+    .option(
+      "--from-title",
+      "Derive the new slug from the node's current title (keeps the timestamp prefix)",
+    )
+    .option("--dry-run", "Show what would be rewritten without changing anything")
+    .addHelpText(
+      "after",
+      `
+WHAT THIS DOES:
+  Changes a node's slug — its filename and identity — and rewrites every
+  reference to the old slug so no link breaks. The file stays in its
+  level folder.
+
+  Slugs are generated once from the title at 'add' time and never change
+  on their own. When a title is corrected (see 'lattice edit'), the slug
+  keeps contradicting it until you rename.
+
+REFERENCES REWRITTEN:
+  - reduces_to on every live node that reduced to the old slug
+  - merged_into on trashed nodes that were merged into this node
+  - merged_from[].id (and original_path) and merged_from[].dependents
+    on canonical nodes that record it
+  - split_into on the trashed original of a split
+
+FLAGS:
+  <node>         REQUIRED. Slug, partial slug, or title substring.
+  [new-slug]     New slug: lowercase letters, digits and hyphens.
+  --from-title   Build the new slug from the current title. The original
+                 timestamp prefix is kept, so chronological ordering holds.
+  --dry-run      Print the plan without touching any file.
+
+  Exactly one of [new-slug] or --from-title is required.
+  Refuses (exit 1) if another node already has the new slug.
+
+OUTPUT:
+  Default (TOON): { from, to, file, new_file, reduces_to_rewritten: [...],
+                    merged_into_rewritten: [...], merged_from_rewritten: [...],
+                    split_into_rewritten: [...], dry_run }
+  --json: same as JSON
+  --table: "Renamed: <old> → <new>" followed by rewritten references
+
+GOLDEN EXAMPLES:
+
+  1. Bring a slug in line with a corrected title:
+     $ lattice edit untested-code --title "Untested code ships its defects"
+     $ lattice rename untested-code --from-title --dry-run
+     $ lattice rename untested-code --from-title
+
+  2. Choose a slug by hand:
+     $ lattice rename 20260303091620-untested-code \\
+         20260303091620-untested-code-ships-its-defects
+
+  3. ERROR — slug already taken:
+     $ lattice rename causality 20260222140000-a-is-a
+     Error: Node with slug '20260222140000-a-is-a' already exists
+`,
+    );
+
+  cmd.action(async (nodeQuery: string, newSlugArg: string | undefined, opts) => {
+    try {
+      const parentOpts = cmd.parent?.opts() ?? {};
+      const vaultPath = resolveVaultPath(parentOpts.vault ?? ".");
+      await requireVault(vaultPath);
+      await lockVault(vaultPath);
+      const format = resolveFormat(parentOpts);
+
+      if (Boolean(newSlugArg) === Boolean(opts.fromTitle)) {
+        throw new LatticeError(
+          "Specify exactly one of <new-slug> or --from-title.",
+          EXIT.BAD_INPUT,
+        );
+      }
+
+      const nodes = await loadAllNodes(vaultPath);
+      const slug = resolveNodeSlug(nodeQuery, nodes);
+      const node = nodes.get(slug)!;
+
+      let newSlug: string;
+      if (opts.fromTitle) {
+        const timestamp = slug.match(/^\d+-/)?.[0] ?? "";
+        newSlug = timestamp + slugify(node.title);
+      } else {
+        newSlug = newSlugArg!.trim().replace(/\.md$/, "");
+      }
+
+      if (!isValidSlug(newSlug)) {
+        throw new LatticeError(
+          `Invalid slug '${newSlug}'. Use lowercase letters, digits and single hyphens only.`,
+          EXIT.BAD_INPUT,
+        );
+      }
+      if (newSlug === slug) {
+        throw new LatticeError(
+          `Node already has slug '${slug}'. Nothing to rename.`,
+          EXIT.BAD_INPUT,
+        );
+      }
+
+      const result = await renameNode(
+        vaultPath,
+        node,
+        newSlug,
+        nodes,
+        Boolean(opts.dryRun),
+      );
+      const output = { ...result, dry_run: Boolean(opts.dryRun) };
+
+      switch (format) {
+        case "json":
+          process.stdout.write(JSON.stringify(output, null, 2) + "\n");
+          break;
+        case "toon":
+          process.stdout.write(encode(output) + "\n");
+          break;
+        case "table": {
+          const lines = [
+            `${opts.dryRun ? "Would rename" : "Renamed"}: ${result.from} → ${result.to}`,
+            `  file: ${result.new_file}`,
+          ];
+          const sections: Array<[string, string[]]> = [
+            ["reduces_to", result.reduces_to_rewritten],
+            ["merged_into", result.merged_into_rewritten],
+            ["merged_from", result.merged_from_rewritten],
+            ["split_into", result.split_into_rewritten],
+          ];
+          for (const [field, slugs] of sections) {
+            if (slugs.length === 0) continue;
+            lines.push(`  ${field} rewritten in ${slugs.length} node(s):`);
+            for (const s of slugs) lines.push(`    ${s}`);
+          }
+          process.stdout.write(lines.join("\n") + "\n");
+          break;
+        }
+      }
+    } catch (err) {
+      handleError(err);
+    }
+  });
+
+  return cmd;
+}
@@ -0,0 +1,98 @@
+import { Command } from "commander";
+import { resolveVaultPath, requireVault } from "../core/vault.js";
+import { loadAllNodes, type LatticeNode } from "../core/node.js";
+import { loadTags } from "../core/tags.js";
+import { loadDeletedNodes, restoreNode } from "../core/trash.js";
+import { resolveFormat } from "../util/format.js";
+import { encode } from "@toon-format/toon";
+import { handleError, resolveNodeSlug, lockVault } from "../util/cli-helpers.js";
+
+export function makeRestoreCommand(): Command {
+  const cmd = new Command("restore");
+
+  cmd
+    .description("Bring a deleted node back from 99-Trash/Deleted/")
+    .argument("<slug>", "Slug, partial slug, or title substring of the deleted node")
+    .addHelpText(
+      "after",
+      `
+WHAT THIS DOES:
+  Moves a node deleted with 'lattice delete' (or 'validate --fix-auto')
+  back into its level folder and clears its trash metadata.
+
+  The lattice may have changed since the node was deleted, so its links
+  are re-validated against the live graph first, with the same checks
+  'add' runs:
+    - every reduces_to target must exist and obey level ordering
+    - restoring must not create a cycle
+    - every tag must still be in tags.json
+  If any check fails, nothing moves and the error says what to fix.
+
+  A node deleted while Integrated/Validated comes back validated only if
+  all its parents still are. Otherwise it is restored as
+  Tentative/Hypothesis and the output says why.
+
+  Merged originals are not restorable here — use 'lattice dedup undo'.
+
+OUTPUT:
+  Default (TOON): { restored: "<slug>", file: "<filepath>", status, note? }
+  --json: same as JSON
+  --table: "Restored: <filepath> (status: ...)"
+
+GOLDEN EXAMPLES:
+
+  1. Undo an accidental delete:
+     $ lattice delete config-drift-hypothesis
+     $ lattice restore config-drift-hypothesis
+
+  2. See what is in the bin first:
+     $ lattice trash list --table
+`,
+    );
+
+  cmd.action(async (slugQuery: string) => {
+    try {
+      const parentOpts = cmd.parent?.opts() ?? {};
+      const vaultPath = resolveVaultPath(parentOpts.vault ?? ".");
+      await requireVault(vaultPath);
+      await lockVault(vaultPath);
+      const format = resolveFormat(parentOpts);
+
+      const deleted = new Map<string, LatticeNode>();
+      for (const node of await loadDeletedNodes(vaultPath)) {
+        deleted.set(node.slug, node);
+      }
+      const slug = resolveNodeSlug(slugQuery, deleted);
+
+      const nodes = await loadAllNodes(vaultPath);
+      const masterTags = await loadTags(vaultPath);
+      const result = await restoreNode(vaultPath, deleted.get(slug)!, nodes, masterTags);
+
+      const output: Record<string, unknown> = {
+        restored: result.slug,
+        file: result.file,
+        status: result.status,
+      };
+      if (result.note) output.note = result.note;
+
+      switch (format) {
+        case "json":
+          process.stdout.write(JSON.stringify(output, null, 2) + "\n");
+          break;
+        case "toon":
+          process.stdout.write(encode(output) + "\n");
+          break;
+        case "table":
+          process.stdout.write(
+            `Restored: ${result.file} (status: ${result.status})\n` +
+              (result.note ? `  ${result.note}\n` : ""),
+          );
+          break;
+      }
+    } catch (err) {
+      handleError(err);
+    }
+  });
+
+  return cmd;
+}
@@ -0,0 +1,203 @@
+import { Command } from "commander";
+import { resolveVaultPath, requireVault } from "../core/vault.js";
+import { loadTags, validateTags } from "../core/tags.js";
+import { loadAllNodes, updateNodeFile } from "../core/node.js";
+import { loadHistory, stateAtRevision } from "../core/history.js";
+import { runInTransaction } from "../core/transaction.js";
+import { validateReductionLinks, validateParentsAreValidated } from "../core/graph.js";
+import { EXIT, type Status } from "../core/constants.js";
+import { isGrounded, isStatus, validatedStatus } from "../core/statuses.js";
+import { isBedrock } from "../core/levels.js";
+import {
+  LatticeError,
+  InvalidStatusError,
+  MissingReductionError,
+} from "../util/errors.js";
+import { resolveFormat } from "../util/format.js";
+import { encode } from "@toon-format/toon";
+import { handleError, resolveNodeSlug, lockVault } from "../util/cli-helpers.js";
+import { propagateDemotion, shouldPropagate } from "../core/propagation.js";
+
+export function makeRevertCommand(): Command {
+  const cmd = new Command("revert");
+
+  cmd
+    .description("Restore a node to how it looked at an earlier revision")
+    .argument("<node>", "Node slug, filename, or partial title match")
+    .requiredOption("--to <rev>", "Revision number from 'lattice history'")
+    .option("--dry-run", "Show what would change without writing")
+    .addHelpText(
+      "after",
+      `
+WHAT THIS DOES:
+  Rolls a node's title, proposition, status, tags and reduces_to back to
+  their values right after revision <rev>. The revert itself is recorded
+  as a new revision, so it can be reverted too.
+
+  A revert is a write like any other. It is checked exactly as 'add'
+  checks a new node:
+    - tags must exist in tags.json
+    - reduces_to targets must exist, obey level ordering, and not cycle
+    - principles/applications need at least one reduces_to
+    - Integrated/Validated requires every parent to be validated
+  If the lattice has moved on (a parent was deleted, a tag removed), the
+  revert is refused with the same error 'add' would give.
+
+  If the revert demotes the node and the vault sets propagate_demotion,
+  validated dependents are demoted too and listed under 'propagated'.
+
+  A revert restores history, so it is not bound by the status transitions
+  a vault may declare in lattice.config.json: reverting a node marked
+  Refuted by mistake brings back its earlier status.
+
+  Level and slug are not reverted. Use 'lattice relevel' or
+  'lattice rename' for those.
+
+GOLDEN EXAMPLES:
+
+  1. An agent demoted a principle by mistake:
+     $ lattice history untested-code --table
+     $ lattice revert untested-code --to 2 --dry-run
+     $ lattice revert untested-code --to 2
+`,
+    );
+
+  cmd.action(async (nodeQuery: string, opts) => {
+    try {
+      const parentOpts = cmd.parent?.opts() ?? {};
+      const vaultPath = resolveVaultPath(parentOpts.vault ?? ".");
+      await requireVault(vaultPath);
+      await lockVault(vaultPath);
+      const format = resolveFormat(parentOpts);
+
+      const nodes = await loadAllNodes(vaultPath);
+      const slug = resolveNodeSlug(nodeQuery, nodes);
+      const node = nodes.get(slug)!;
+
+      const rev = parseInt(opts.to as string, 10);
+      const revisions = await loadHistory(vaultPath, slug);
+      if (!revisions.some((r) => r.rev === rev)) {
+        throw new LatticeError(
+          `Revision '${opts.to}' not found for '${slug}'. Run 'lattice history ${slug}' to list revisions.`,
+          EXIT.BAD_INPUT,
+        );
+      }
+
+      const current: Record<string, unknown> = {
+        title: node.title,
+        level: node.level,
+        reduces_to: node.reduces_to,
+        status: node.status,
+        tags: node.tags,
+        proposition: node.proposition,
+      };
+      const target = stateAtRevision(current, revisions, rev);
+
+      if (target.level !== null && target.level !== node.level) {
+        throw new LatticeError(
+          `Revision ${rev} has level '${target.level}' but the node is now '${node.level}'. Run 'lattice relevel ${slug} --to ${target.level}' first.`,
+          EXIT.BAD_INPUT,
+        );
+      }
+
+      const bedrock = isBedrock(node.level);
+      const title = typeof target.title === "string" ? target.title : node.title;
+      const proposition = typeof target.proposition === "string"
+        ? target.proposition
+        : node.proposition;
+      const tags = Array.isArray(target.tags) ? (target.tags as string[]) : [];
+      const reducesTo = Array.isArray(target.reduces_to)
+        ? (target.reduces_to as string[])
+        : [];
+      const status: Status = bedrock
+        ? validatedStatus()
+        : String(target.status ?? node.status);
+
+      // Same checks 'add' enforces
+      if (!isStatus(status)) {
+        throw new InvalidStatusError(status);
+      }
+      validateTags(tags, await loadTags(vaultPath));
+      if (!bedrock && reducesTo.length === 0) {
+        throw new MissingReductionError(node.level);
+      }
+      if (reducesTo.length > 0) {
+        validateReductionLinks(slug, node.level, reducesTo, nodes);
+      }
+      if (isGrounded(status) && reducesTo.length > 0) {
+        validateParentsAreValidated(reducesTo, nodes);
+      }
+
+      const updates = {
+        title: title !== node.title ? title : undefined,
+        proposition: proposition !== node.proposition ? proposition : undefined,
+        status: status !== node.status ? status : undefined,
+        tags: JSON.stringify(tags) !== JSON.stringify(node.tags) ? tags : undefined,
+        reduces_to: JSON.stringify(reducesTo) !== JSON.stringify(node.reduces_to)
+          ? reducesTo
+          : undefined,
+      };
+
+      const changes: Record<string, string> = {};
+      for (const [field, value] of Object.entries(updates)) {
+        if (value === undefined) continue;
+        const old = current[field];
+        changes[field] = field === "proposition"
+          ? "reverted"
+          : `${Array.isArray(old) ? old.join(",") : old} → ${Array.isArray(value) ? value.join(",") : value}`;
+      }
+
+      if (Object.keys(changes).length === 0) {
+        throw new LatticeError(
+          `Node '${slug}' already matches revision ${rev}. Nothing to revert.`,
+          EXIT.BAD_INPUT,
+        );
+      }
+
+      const propagated = await runInTransaction(vaultPath, async () => {
+        if (!opts.dryRun) {
+          await updateNodeFile(node, updates);
+        }
+
+        // Reverting to an ungrounded revision is a demotion like any other
+        return isGrounded(node.status) &&
+          !isGrounded(status) &&
+          (await shouldPropagate(vaultPath, false))
+          ? await propagateDemotion(slug, nodes, Boolean(opts.dryRun))
+          : [];
+      });
+
+      const result = {
+        reverted: slug,
+        to_rev: rev,
+        changes,
+        propagated,
+        dry_run: Boolean(opts.dryRun),
+      };
+      switch (format) {
+        case "json":
+          process.stdout.write(JSON.stringify(result, null, 2) + "\n");
+          break;
+        case "toon":
+          process.stdout.write(encode(result) + "\n");
+          break;
+        case "table": {
+          const parts = Object.entries(changes)
+            .map(([k, v]) => `${k}: ${v}`)
+            .join(", ");
+          process.stdout.write(
+            `${opts.dryRun ? "Would revert" : "Reverted"}: ${slug} to rev ${rev} (${parts})\n` +
+              (propagated.length > 0
+                ? `  demoted dependents: ${propagated.map((p) => p.slug).join(", ")}\n`
+                : ""),
+          );
+          break;
+        }
+      }
+    } catch (err) {
+      handleError(err);
+    }
+  });
+
+  return cmd;
+}
@@ -0,0 +1,155 @@
+import { Command } from "commander";
+import { resolveVaultPath, requireVault } from "../core/vault.js";
+import { openSession } from "../core/session.js";
+import { serveMcp } from "../server/mcp.js";
+import { serveHttp } from "../server/http.js";
+import { EXIT, DEFAULT_HTTP_PORT, API_TOKEN_ENV } from "../core/constants.js";
+import { LatticeError } from "../util/errors.js";
+import { handleError } from "../util/cli-helpers.js";
+
+export function makeServeCommand(): Command {
+  const cmd = new Command("serve");
+
+  cmd
+    .description("Run a long-lived server that keeps the lattice in memory")
+    .option("--mcp", "Speak the Model Context Protocol over stdin/stdout")
+    .option("--http", "Serve a JSON API over HTTP")
+    .option("--port <n>", "HTTP port", String(DEFAULT_HTTP_PORT))
+    .option("--host <addr>", "HTTP bind address", "127.0.0.1")
+    .option("--token <token>", `Require this bearer token (default: $${API_TOKEN_ENV})`)
+    .option("--read-only", "Reject every HTTP request that would write")
+    .addHelpText(
+      "after",
+      `
+WHAT THIS DOES:
+  Loads the vault once and answers requests until the client disconnects,
+  instead of re-reading every file on every call. The graph stays in
+  memory; a file watcher marks it stale when anything in the vault changes
+  (Obsidian edits, other lattice processes) and the next request reloads.
+
+  Writes take the same vault lock as the CLI commands and run the same
+  validation as 'lattice batch': level order, cycles, tags, validated
+  parents, demotion propagation.
+
+--mcp:
+  Model Context Protocol over stdio (JSON-RPC 2.0, one message per line).
+  stdout carries protocol messages only; warnings go to stderr.
+
+  TOOLS:
+    add               Create a node               (as 'lattice add')
+    update            Status / tags / reduces_to  (as 'lattice update')
+    query_chain       Reduction tree of a node    (as 'lattice query chain')
+    query_related     Multi-hop graph walk        (as 'lattice query related')
+    search            Ranked full-text search     (as 'lattice query search')
+    query_tentative   Ungrounded beliefs          (as 'lattice query tentative')
+    validate          Whole-vault integrity check (as 'lattice validate')
+    dedup_candidates  Nodes to review for duplicates at one level
+
+  Input schemas enumerate the levels, statuses and the vault's tags.json,
+  so the client can reject a rogue tag before calling. When tags.json
+  changes the server sends notifications/tools/list_changed.
+
+  Results are TOON text. A rule violation is a tool result with isError
+  and the same message the CLI prints, e.g.
+    Error: Cannot validate: parent node '...' is still Tentative/Hypothesis.
+
+--http:
+  JSON over HTTP, bound to 127.0.0.1 unless --host says otherwise.
+
+  ROUTES:
+    GET    /nodes?level=&status=&tag=  List nodes           (as 'lattice query all')
+    GET    /nodes/:slug                One node, with its file path
+    POST   /nodes                      Create a node        (as 'lattice add')
+    PATCH  /nodes/:slug                Status / tags / reduces_to / propagate
+                                                            (as 'lattice update')
+    DELETE /nodes/:slug                Move to trash        (as 'lattice delete')
+    GET    /chain/:slug                Reduction tree       (as 'lattice query chain')
+    GET    /related?q=&limit=&depth=&seed=
+                                       Multi-hop graph walk (as 'lattice query related')
+    GET    /search?q=&level=&status=&tag=&limit=
+                                       Ranked full-text search (as 'lattice query search')
+    GET    /validate                   Integrity check      (as 'lattice validate')
+    GET    /hollow-chains              Validated nodes over tentative ground
+    GET    /tags                       Master tag list
+
+  :slug accepts anything the CLI does: exact slug, unique prefix, or a
+  unique title substring. POST/PATCH bodies use the 'lattice batch' field
+  names (title, level, proposition, tags, reduces_to, status, ...).
+
+  Errors are { "error": { "type": "<ErrorClass>", "message": "..." } } with
+  the CLI's message:
+    400  bad input               409  duplicate slug, ambiguous match,
+    401  missing/invalid token        delete blocked by dependents
+    403  server is read-only     422  rule violation (level order, cycle,
+    404  node or route not found      rogue tag, tentative parent)
+    503  vault locked by another writer
+
+  --token (or $${API_TOKEN_ENV}) requires 'Authorization: Bearer <token>' on
+  every request. Prefer the environment variable: a --token argument is
+  visible in the process list. --read-only answers every write with 403.
+
+GOLDEN EXAMPLES:
+
+  1. Register with an MCP client (e.g. in its JSON config):
+     { "command": "lattice", "args": ["--vault", "/path/to/vault", "serve", "--mcp"] }
+
+  2. Smoke-test by hand:
+     $ printf '%s\\n' \\
+         '{"jsonrpc":"2.0","id":1,"method":"initialize","params":{"protocolVersion":"2025-06-18"}}' \\
+         '{"jsonrpc":"2.0","id":2,"method":"tools/call","params":{"name":"validate","arguments":{}}}' \\
+       | lattice serve --mcp
+
+  3. Read-only API for a dashboard:
+     $ ${API_TOKEN_ENV}=s3cret lattice serve --http --port 8080 --read-only
+     $ curl -H 'Authorization: Bearer s3cret' localhost:8080/hollow-chains
+
+  4. Validate a node over HTTP:
+     $ curl -X PATCH localhost:${DEFAULT_HTTP_PORT}/nodes/2026-02-17-tax-law \\
+         -H 'Content-Type: application/json' -d '{"status":"Integrated/Validated"}'
+`,
+    );
+
+  cmd.action(async (opts) => {
+    try {
+      const parentOpts = cmd.parent?.opts() ?? {};
+      const vaultPath = resolveVaultPath(parentOpts.vault ?? ".");
+      await requireVault(vaultPath);
+
+      if (opts.mcp === opts.http) {
+        throw new LatticeError(
+          "Choose one transport: --mcp (Model Context Protocol over stdio) " +
+            "or --http (JSON API).",
+          EXIT.BAD_INPUT,
+        );
+      }
+
+      const port = Number(opts.port);
+      if (!Number.isInteger(port) || port < 0 || port > 65535) {
+        throw new LatticeError(`Invalid port '${opts.port}'`, EXIT.BAD_INPUT);
+      }
+
+      const session = openSession(vaultPath);
+      try {
+        if (opts.mcp) {
+          await serveMcp(session, {
+            name: "objectivist-lattice",
+            version: cmd.parent?.version() ?? "0.0.0",
+          });
+        } else {
+          await serveHttp(session, {
+            host: opts.host,
+            port,
+            token: opts.token || process.env[API_TOKEN_ENV] || undefined,
+            readOnly: opts.readOnly ?? false,
+          });
+        }
+      } finally {
+        session.close();
+      }
+    } catch (err) {
+      handleError(err);
+    }
+  });
+
+  return cmd;
+}
@@ -0,0 +1,185 @@
+import { Command } from "commander";
+import { readFile } from "node:fs/promises";
+import { Lattice } from "../lattice.js";
+import { parseSplitSpec } from "../core/split.js";
+import { EXIT } from "../core/constants.js";
+import { resolveFormat } from "../util/format.js";
+import { encode } from "@toon-format/toon";
+import { FilesystemError, LatticeError } from "../util/errors.js";
+import { handleError, readStdin } from "../util/cli-helpers.js";
+
+export function makeSplitCommand(): Command {
+  const cmd = new Command("split");
+
+  cmd
+    .description("Replace a compound node with several atomic ones (or --undo a split)")
+    .argument("<node>", "Node slug, filename, or partial title match")
+    .option("--into <file>", "JSON spec of the parts and where each dependent goes, or '-' for stdin")
+    .option("--undo", "Restore the original of a split and trash its parts")
+    .option("--reason <text>", "Reason recorded with the split or the undo")
+    .option("--dry-run", "Validate and show the plan without writing")
+    .addHelpText(
+      "after",
+      `
+WHAT THIS DOES:
+  The reverse of 'dedup merge'. A node should hold ONE testable claim;
+  a compound one ("X and Y") is split into parts at the same level:
+    1. Each part is created as a new node, with split_from naming the
+       original. Parts are checked as 'add' checks a node.
+    2. Every node that reduced to the original is re-pointed to the
+       part(s) the spec assigns it.
+    3. The original moves to 99-Trash/Split/ with split_into (the part
+       slugs), split_reason, trashed_on, original_path and original_status.
+  Everything is written in one transaction, and only if the vault still
+  validates afterwards.
+
+  --undo reverses it: the parts move to 99-Trash/Undone-Splits/ with
+  undone_split, the original returns to its level folder with its
+  original status, and every node that reduces to a part reduces to the
+  original instead. <node> names the trashed original or any live part.
+
+SPEC (--into):
+  { "parts": [
+      { "id": "a", "title": "...", "proposition": "...",
+        "reduces_to": ["<slug>"], "tags": ["..."], "status": "..." },
+      { "id": "b", "title": "...", "proposition": "..." }
+    ],
+    "dependents": { "<child slug>": ["$a"], "<other child>": ["$a", "$b"] },
+    "reason": "..." }
+
+  parts        REQUIRED, at least 2. title and proposition are required.
+               reduces_to and tags default to the original's. status
+               defaults to the original's, or Tentative/Hypothesis if the
+               part's parents are not all validated. id defaults to the
+               part's position ("1", "2", ...).
+  dependents   Each node that reduces to the original → the parts it
+               reduces to instead, as "$<id>". Every dependent must be
+               assigned; --dry-run lists those that are not.
+  reason       Recorded on the trashed original (--reason overrides it).
+
+FLAGS:
+  <node>         REQUIRED. Slug, partial slug, or title substring.
+  --into <file>  Spec file, or '-' for stdin. Required unless --undo.
+  --undo         Reverse an earlier split.
+  --reason       Why the node was split (or the split undone).
+  --dry-run      Print the plan without touching any file.
+
+OUTPUT:
+  Default (TOON): { original, title, parts: [{ id, slug, title, reduces_to,
+                    tags, status }], rewired: [{ slug, to }], unassigned,
+                    trashed_path, dry_run }
+  --undo:         { original, title, restored_path, status, removed,
+                    rewired, warnings, dry_run }
+  --json: same as JSON
+  --table: "Split: <original> → N parts", the parts, then each rewired
+           dependent
+
+GOLDEN EXAMPLES:
+
+  1. Split a compound principle; one application relies on both halves:
+     $ cat split.json
+     { "parts": [
+         { "id": "tests", "title": "Untested code ships its defects",
+           "proposition": "Code that is not run before release ships its defects." },
+         { "id": "review", "title": "Unreviewed code hides its intent",
+           "proposition": "Code nobody else reads keeps assumptions nobody checked." }
+       ],
+       "dependents": { "run-tests-before-deploy": ["$tests"],
+                       "release-checklist": ["$tests", "$review"] } }
+     $ lattice split untested-unreviewed --into split.json --dry-run
+     $ lattice split untested-unreviewed --into split.json --reason "Two claims"
+
+  2. Undo it, naming either a part or the original:
+     $ lattice split untested-code-ships --undo --reason "Claims are inseparable"
+
+  3. ERROR — a dependent left out of the spec:
+     $ lattice split untested-unreviewed --into split.json
+     Error: Node(s) reduce to 20260301120000-untested-unreviewed but are not
+     assigned a part: 20260302090000-release-checklist. Map each to one or
+     more parts under "dependents" in the spec
+`,
+    );
+
+  cmd.action(async (nodeQuery: string, opts) => {
+    try {
+      const parentOpts = cmd.parent?.opts() ?? {};
+      const lattice = await Lattice.open(parentOpts.vault ?? ".");
+      const format = resolveFormat(parentOpts);
+      const dryRun = Boolean(opts.dryRun);
+
+      if (Boolean(opts.into) === Boolean(opts.undo)) {
+        throw new LatticeError("Specify exactly one of --into <file> or --undo.", EXIT.BAD_INPUT);
+      }
+
+      let output: Record<string, unknown>;
+      let lines: string[];
+      if (opts.undo) {
+        const result = await lattice.undoSplit(nodeQuery, { reason: opts.reason, dryRun });
+        output = {
+          original: result.original,
+          title: result.title,
+          restored_path: result.restoredPath,
+          status: result.status,
+          removed: result.removed,
+          rewired: result.rewired,
+          warnings: result.warnings,
+          dry_run: dryRun,
+        };
+        lines = [
+          `${dryRun ? "Would restore" : "Restored"}: ${result.original} "${result.title}" [${result.status}]`,
+          ...result.removed.map((s) => `  - ${s} (part trashed)`),
+          ...result.rewired.map((s) => `  ${s} → ${result.original}`),
+          ...result.warnings.map((w) => `Warning: ${w}`),
+        ];
+      } else {
+        let raw: string;
+        if (opts.into === "-") {
+          raw = await readStdin();
+        } else {
+          try {
+            raw = await readFile(opts.into, "utf-8");
+          } catch (err) {
+            throw new FilesystemError(`Cannot read split spec '${opts.into}': ${(err as Error).message}`);
+          }
+        }
+        const spec = parseSplitSpec(raw);
+        const result = await lattice.split(nodeQuery, {
+          ...spec,
+          reason: opts.reason ?? spec.reason,
+          dryRun,
+        });
+        output = {
+          original: result.original,
+          title: result.title,
+          parts: result.parts,
+          rewired: result.rewired,
+          unassigned: result.unassigned,
+          trashed_path: result.trashedPath,
+          dry_run: dryRun,
+        };
+        lines = [
+          `${dryRun ? "Would split" : "Split"}: ${result.original} → ${result.parts.length} parts`,
+          ...result.parts.map((p) => `  + ${p.slug} "${p.title}" [${p.status}]`),
+          ...result.rewired.map((r) => `  ${r.slug} → ${r.to.join(", ")}`),
+          ...result.unassigned.map((s) => `  ${s} → (unassigned)`),
+        ];
+      }
+
+      switch (format) {
+        case "json":
+          process.stdout.write(JSON.stringify(output, null, 2) + "\n");
+          break;
+        case "toon":
+          process.stdout.write(encode(output) + "\n");
+          break;
+        case "table":
+          process.stdout.write(lines.join("\n") + "\n");
+          break;
+      }
+    } catch (err) {
+      handleError(err);
+    }
+  });
+
+  return cmd;
+}
@@ -5,7 +5,8 @@ import { loadAllNodes } from "../core/node.js";
 import { resolveFormat, formatTagList } from "../util/format.js";
 import { LatticeError } from "../util/errors.js";
 import { EXIT } from "../core/constants.js";
-import { resolveParentOpts, handleError, resolveNodeSlug } from "../util/cli-helpers.js";
+import { isGrounded } from "../core/statuses.js";
+import { resolveParentOpts, handleError, resolveNodeSlug, lockVault } from "../util/cli-helpers.js";
 
 export function makeTagsCommand(): Command {
   const cmd = new Command("tags");
@@ -123,6 +124,7 @@ EXAMPLES:
       const parentOpts = resolveParentOpts(cmd);
       const vaultPath = resolveVaultPath(parentOpts.vault ?? ".");
       await requireVault(vaultPath);
+      await lockVault(vaultPath);
 
       const tags = await loadTags(vaultPath);
       const cleanTag = tag.toLowerCase().trim();
@@ -139,9 +141,9 @@ EXAMPLES:
       const nodes = await loadAllNodes(vaultPath);
       const reasonSlug = resolveNodeSlug(opts.reason, nodes);
       const reasonNode = nodes.get(reasonSlug)!;
-      if (reasonNode.status !== "Integrated/Validated") {
+      if (!isGrounded(reasonNode.status)) {
         throw new LatticeError(
-          `Reason node '${reasonSlug}' is not Integrated/Validated (status: ${reasonNode.status})`,
+          `Reason node '${reasonSlug}' is not validated (status: ${reasonNode.status})`,
           EXIT.VALIDATION_ERROR,
         );
       }
@@ -190,6 +192,7 @@ EXAMPLES:
       const parentOpts = resolveParentOpts(cmd);
       const vaultPath = resolveVaultPath(parentOpts.vault ?? ".");
       await requireVault(vaultPath);
+      await lockVault(vaultPath);
 
       const tags = await loadTags(vaultPath);
       const cleanTag = tag.toLowerCase().trim();
@@ -0,0 +1,189 @@
+import { Command } from "commander";
+import { relative } from "node:path";
+import { encode } from "@toon-format/toon";
+import { resolveVaultPath, requireVault } from "../core/vault.js";
+import { loadTrashedNodes } from "../core/node.js";
+import { loadDeletedNodes, purgeTrashedNode, trashKind } from "../core/trash.js";
+import { resolveFormat } from "../util/format.js";
+import {
+  resolveParentOpts,
+  handleError,
+  parseDuration,
+  lockVault,
+} from "../util/cli-helpers.js";
+
+export function makeTrashCommand(): Command {
+  const cmd = new Command("trash");
+
+  cmd
+    .description("Inspect and empty the trash (99-Trash/)")
+    .addHelpText(
+      "after",
+      `
+WHAT THIS DOES:
+  'lattice delete' never destroys a node. It moves the file to
+  99-Trash/Deleted/ with trashed_on, original_path and original_status
+  recorded, so 'lattice restore <slug>' can bring it back.
+
+  99-Trash/ also holds originals retired by 'dedup merge' (directly in
+  99-Trash/) and canonical nodes trashed by 'dedup undo'
+  (99-Trash/Undone-Merges/). Those are audit records of merges and are
+  never purged by 'trash empty'.
+
+SUBCOMMANDS:
+  list     Show deleted nodes (--all: every trashed node, with its kind)
+  empty    Permanently remove deleted nodes (--older-than to keep recent ones)
+`,
+    );
+
+  // ─── list ──────────────────────────────────────────────────────
+  const listCmd = new Command("list")
+    .description("Show nodes in the trash")
+    .option("--all", "Include merged and split originals and undone merges and splits, not just deletions")
+    .addHelpText(
+      "after",
+      `
+WHAT THIS DOES:
+  Lists nodes in 99-Trash/Deleted/, newest deletion first. With --all,
+  lists everything under 99-Trash/ and labels each entry with its kind:
+    deleted       — removed by 'lattice delete' (restorable)
+    merged        — original retired by 'dedup merge' (see 'dedup undo')
+    undone_merge  — canonical node trashed by 'dedup undo'
+    split         — original replaced by its parts (see 'split --undo')
+    undone_split  — part trashed by 'split --undo'
+
+OUTPUT:
+  Default (TOON): { trashed: [{ slug, title, level, kind, trashed_on, original_path }] }
+  --json: same as JSON
+  --table: one line per node
+
+EXAMPLES:
+  $ lattice trash list --table
+  $ lattice trash list --all --json
+`,
+    );
+
+  listCmd.action(async (opts) => {
+    try {
+      const parentOpts = resolveParentOpts(cmd);
+      const vaultPath = resolveVaultPath((parentOpts.vault as string | undefined) ?? ".");
+      await requireVault(vaultPath);
+      const format = resolveFormat(parentOpts);
+
+      const nodes = opts.all
+        ? await loadTrashedNodes(vaultPath)
+        : await loadDeletedNodes(vaultPath);
+
+      const trashed = nodes
+        .map((n) => ({
+          slug: n.slug,
+          title: n.title,
+          level: n.level,
+          kind: trashKind(vaultPath, n),
+          trashed_on: n.trashed_on ?? "",
+          original_path: n.original_path ? relative(vaultPath, n.original_path) : "",
+        }))
+        .sort((a, b) => b.trashed_on.localeCompare(a.trashed_on));
+
+      switch (format) {
+        case "json":
+          process.stdout.write(JSON.stringify({ trashed }, null, 2) + "\n");
+          break;
+        case "toon":
+          process.stdout.write(encode({ trashed }) + "\n");
+          break;
+        case "table": {
+          if (trashed.length === 0) {
+            process.stdout.write("Trash is empty.\n");
+            break;
+          }
+          const lines = trashed.map(
+            (t) => `${t.trashed_on || "(unknown)"}  ${t.kind.padEnd(12)}  ${t.slug}  "${t.title}"`,
+          );
+          process.stdout.write(lines.join("\n") + "\n");
+          break;
+        }
+      }
+    } catch (err) {
+      handleError(err);
+    }
+  });
+
+  // ─── empty ─────────────────────────────────────────────────────
+  const emptyCmd = new Command("empty")
+    .description("Permanently remove deleted nodes")
+    .option("--older-than <duration>", "Only purge nodes trashed longer ago than this (e.g. 30d, 48h)")
+    .option("--dry-run", "Show what would be purged without removing anything")
+    .addHelpText(
+      "after",
+      `
+WHAT THIS DOES:
+  Permanently unlinks node files in 99-Trash/Deleted/. This cannot be
+  undone. Merged originals and undone merges are never touched — they are
+  the audit trail for 'dedup undo'.
+
+  --older-than keeps recent deletions: only nodes whose trashed_on is
+  older than the duration are purged. Nodes with no trashed_on are
+  treated as infinitely old.
+
+OUTPUT:
+  Default (TOON): { purged: [slug, ...], count, dry_run }
+  --json: same as JSON
+  --table: one line per purged slug
+
+EXAMPLES:
+  $ lattice trash empty --older-than 30d --dry-run
+  $ lattice trash empty --older-than 30d
+  $ lattice trash empty
+`,
+    );
+
+  emptyCmd.action(async (opts) => {
+    try {
+      const parentOpts = resolveParentOpts(cmd);
+      const vaultPath = resolveVaultPath((parentOpts.vault as string | undefined) ?? ".");
+      await requireVault(vaultPath);
+      await lockVault(vaultPath);
+      const format = resolveFormat(parentOpts);
+
+      let deleted = await loadDeletedNodes(vaultPath);
+      if (opts.olderThan) {
+        const cutoff = Date.now() - parseDuration(opts.olderThan);
+        deleted = deleted.filter(
+          (n) => !n.trashed_on || new Date(n.trashed_on).getTime() < cutoff,
+        );
+      }
+
+      if (!opts.dryRun) {
+        for (const node of deleted) {
+          await purgeTrashedNode(node);
+        }
+      }
+
+      const purged = deleted.map((n) => n.slug);
+      const result = { purged, count: purged.length, dry_run: Boolean(opts.dryRun) };
+      switch (format) {
+        case "json":
+          process.stdout.write(JSON.stringify(result, null, 2) + "\n");
+          break;
+        case "toon":
+          process.stdout.write(encode(result) + "\n");
+          break;
+        case "table": {
+          const verb = opts.dryRun ? "Would purge" : "Purged";
+          const lines = purged.map((s) => `${verb}: ${s}`);
+          lines.push(`${verb} ${purged.length} node(s).`);
+          process.stdout.write(lines.join("\n") + "\n");
+          break;
+        }
+      }
+    } catch (err) {
+      handleError(err);
+    }
+  });
+
+  cmd.addCommand(listCmd);
+  cmd.addCommand(emptyCmd);
+
+  return cmd;
+}
@@ -1,14 +1,9 @@
-import { Command, Option } from "commander";
-import { resolveVaultPath, requireVault } from "../core/vault.js";
-import { loadTags, validateTags } from "../core/tags.js";
-import { loadAllNodes, updateNodeFile } from "../core/node.js";
-import { validateReductionLinks, validateParentsAreValidated, findTentativeChildren } from "../core/graph.js";
-import { STATUSES, LEVELS, type Status } from "../core/constants.js";
-import { LatticeError } from "../util/errors.js";
-import { EXIT } from "../core/constants.js";
-import { resolveFormat } from "../util/format.js";
+import { Command } from "commander";
+import { Lattice } from "../lattice.js";
+import type { Status } from "../core/constants.js";
+import { promotionHintMessage, resolveFormat } from "../util/format.js";
 import { encode } from "@toon-format/toon";
-import { handleError, resolveNodeSlug } from "../util/cli-helpers.js";
+import { handleError } from "../util/cli-helpers.js";
 
 export function makeUpdateCommand(): Command {
   const cmd = new Command("update");
@@ -16,10 +11,7 @@ export function makeUpdateCommand(): Command {
   cmd
     .description("Update an existing node's status, tags, or reduces_to links")
     .argument("<node>", "Node slug, filename, or partial title match")
-    .addOption(
-      new Option("--status <status>", "New validation status")
-        .choices([...STATUSES]),
-    )
+    .option("--status <status>", "New validation status (Integrated/Validated, Tentative/Hypothesis, or as configured)")
     .option(
       "--add-tag <tag>",
       "Add a tag (comma-separated for multiple). Must exist in tags.json.",
@@ -40,12 +32,17 @@ export function makeUpdateCommand(): Command {
       (val: string, prev: string[]) => [...prev, val],
       [] as string[],
     )
+    .option(
+      "--propagate",
+      "On demotion, also demote every validated node that reduces to this one",
+    )
     .addHelpText(
       "after",
       `
 WHAT THIS DOES:
   Modifies an existing node's metadata without recreating it. The file's
-  proposition text (body) is preserved unchanged.
+  proposition text (body) is preserved unchanged. To reword the title or
+  proposition, use 'lattice edit'.
 
   This is how you promote beliefs through the validation lifecycle:
     Tentative/Hypothesis → Integrated/Validated
@@ -69,11 +66,15 @@ THE PROMOTION WORKFLOW:
 
 FLAGS:
   <node>                 REQUIRED. Slug, partial slug, or title substring.
-  --status <status>      Set to "Integrated/Validated" or "Tentative/Hypothesis"
+  --status <status>      Set to "Integrated/Validated" or "Tentative/Hypothesis",
+                         or a status declared in lattice.config.json
   --add-tag <tags>       Add tags (comma-separated). Must exist in tags.json.
   --remove-tag <tags>    Remove tags (comma-separated).
   --add-reduces-to <slug>     Add a reduction link (repeatable).
   --remove-reduces-to <slug>  Remove a reduction link (repeatable).
+  --propagate            When this update demotes the node, demote every
+                         Integrated/Validated node that transitively reduces
+                         to it as well (see DEMOTION PROPAGATION).
 
 VALIDATION (still enforced on update):
   - New tags must exist in tags.json
@@ -83,8 +84,34 @@ VALIDATION (still enforced on update):
     to Tentative (a principle with no grounding is, by definition, floating)
   - Axioms and percepts may not have reduces_to added (they are bedrock)
 
+CUSTOM STATUSES:
+  A vault may declare its own statuses under "statuses" in
+  lattice.config.json, e.g. Under-Review, Contested and Refuted. Each
+  says whether it is grounded (counts as validated) and, optionally,
+  which statuses it may change to. --status is rejected when the change
+  is not listed:
+    Error: Cannot change status from 'Refuted' to 'Integrated/Validated'.
+           Refuted may only change to: nothing (it is final)
+  Moving a grounded node to any ungrounded status is a demotion (see
+  below). A terminal status such as Refuted keeps the node as a negative
+  record: mark a disproven belief Refuted instead of deleting it.
+
+DEMOTION PROPAGATION:
+  Demoting a validated node leaves every validated node built on it with a
+  hollow chain (see 'lattice query hollow-chains'). With --propagate, the
+  demotion walks all transitive dependents and demotes each one that is
+  still Integrated/Validated (grounded) to Tentative/Hypothesis (the
+  initial status), and reports them under 'propagated'.
+
+  Set "propagate_demotion": true in <vault>/lattice.config.json to make
+  every demotion propagate — update, relevel, revert and delete --detach
+  alike — so hollow chains cannot be created at all.
+
+  Without propagation, the output lists the dependents that are now
+  hollow under 'hollow_warning'.
+
 OUTPUT:
-  Default (TOON): { updated: "<slug>", changes: { ... } }
+  Default (TOON): { updated: "<slug>", changes: { ... }, propagated?: [...] }
   --json: same as JSON
   --table: "Updated: <slug> (status: Tentative → Validated, ...)"
 
@@ -113,7 +140,13 @@ GOLDEN EXAMPLES:
      $ lattice update some-principle --status "Tentative/Hypothesis"
      # Now it shows up in 'lattice query tentative' for review.
 
-  5. ERROR — rogue tag:
+  5. Demote it and everything validated on top of it:
+     $ lattice update some-principle --status "Tentative/Hypothesis" --propagate
+     Updated: 20260303091620-some-principle (status: ...)
+     Demoted 2 dependent(s):
+       20260303092000-run-full-test-suite-before-every-deploy
+
+  6. ERROR — rogue tag:
      $ lattice update homework-before --add-tag "vibes"
      Error: Rogue tag 'vibes' not in tags.json
 `,
@@ -122,162 +155,34 @@ GOLDEN EXAMPLES:
   cmd.action(async (nodeQuery: string, opts) => {
     try {
       const parentOpts = cmd.parent?.opts() ?? {};
-      const vaultPath = resolveVaultPath(parentOpts.vault ?? ".");
-      await requireVault(vaultPath);
+      const lattice = await Lattice.open(parentOpts.vault ?? ".");
       const format = resolveFormat(parentOpts);
 
-      const nodes = await loadAllNodes(vaultPath);
-      const slug = resolveNodeSlug(nodeQuery, nodes);
-      const node = nodes.get(slug)!;
-
-      const changes: Record<string, string> = {};
-
-      // ── Status update ──
-      const isBedrock = node.level === "percept" || node.level === "axiom";
-      let newStatus: Status | undefined;
-      if (opts.status) {
-        if (isBedrock) {
-          throw new LatticeError(
-            `Cannot change status of a ${node.level} node. Bedrock nodes (axiom, percept) are always Integrated/Validated.`,
-            EXIT.BAD_INPUT,
-          );
-        }
-        newStatus = opts.status as Status;
-        changes.status = `${node.status} → ${newStatus}`;
-      }
-
-      // ── Tag updates ──
-      let newTags: string[] | undefined;
-      const currentTags = [...node.tags];
-      let tagsChanged = false;
-
-      if (opts.addTag) {
-        const toAdd = (opts.addTag as string)
-          .split(",")
-          .map((t) => t.trim().toLowerCase())
-          .filter(Boolean);
-
-        // Validate against master list
-        const masterTags = await loadTags(vaultPath);
-        validateTags(toAdd, masterTags);
-
-        for (const t of toAdd) {
-          if (!currentTags.includes(t)) {
-            currentTags.push(t);
-            tagsChanged = true;
-          }
-        }
-      }
-
-      if (opts.removeTag) {
-        const toRemove = new Set(
-          (opts.removeTag as string)
-            .split(",")
-            .map((t) => t.trim().toLowerCase())
-            .filter(Boolean),
-        );
-
-        const before = currentTags.length;
-        const filtered = currentTags.filter((t) => !toRemove.has(t));
-        if (filtered.length !== before) {
-          currentTags.length = 0;
-          currentTags.push(...filtered);
-          tagsChanged = true;
-        }
-      }
-
-      if (tagsChanged) {
-        newTags = currentTags;
-        changes.tags = newTags.join(",");
-      }
-
-      // ── Reduces_to updates ──
-      let newReducesTo: string[] | undefined;
-      const currentReduces = [...node.reduces_to];
-      let reducesChanged = false;
-
-      if ((opts.addReducesTo as string[]).length > 0) {
-        const toAdd = (opts.addReducesTo as string[]).map((r) =>
-          r.replace(/\.md$/, "").trim(),
-        );
-
-        // Validate new links
-        validateReductionLinks(slug, node.level, toAdd, nodes);
-
-        for (const r of toAdd) {
-          if (!currentReduces.includes(r)) {
-            currentReduces.push(r);
-            reducesChanged = true;
-          }
-        }
-      }
-
-      if ((opts.removeReducesTo as string[]).length > 0) {
-        const toRemove = new Set(
-          (opts.removeReducesTo as string[]).map((r) =>
-            r.replace(/\.md$/, "").trim(),
-          ),
-        );
-
-        const before = currentReduces.length;
-        const filtered = currentReduces.filter((r) => !toRemove.has(r));
-        if (filtered.length !== before) {
-          currentReduces.length = 0;
-          currentReduces.push(...filtered);
-          reducesChanged = true;
-        }
-      }
-
-      if (reducesChanged) {
-        newReducesTo = currentReduces;
-        changes.reduces_to = newReducesTo.join(",") || "(empty)";
-
-        // If a non-bedrock node loses all reduces_to, force Tentative
-        if (
-          !isBedrock &&
-          newReducesTo.length === 0 &&
-          !newStatus
-        ) {
-          newStatus = "Tentative/Hypothesis";
-          changes.status = `${node.status} → Tentative/Hypothesis (no reduces_to links remain)`;
-        }
-      }
-
-      // Check that at least one update was requested
-      if (Object.keys(changes).length === 0) {
-        throw new LatticeError(
-          "No updates specified. Use --status, --add-tag, --remove-tag, --add-reduces-to, or --remove-reduces-to.",
-          EXIT.BAD_INPUT,
-        );
-      }
-
-      // Enforce: cannot promote to Integrated/Validated if any parent is still Tentative
-      const effectiveStatus = newStatus ?? node.status;
-      const effectiveReducesTo = newReducesTo ?? node.reduces_to;
-      if (effectiveStatus === "Integrated/Validated" && effectiveReducesTo.length > 0) {
-        validateParentsAreValidated(effectiveReducesTo, nodes);
-      }
-
-      // Apply the update
-      await updateNodeFile(node, {
-        status: newStatus,
-        tags: newTags,
-        reduces_to: newReducesTo,
+      const splitList = (v: string | undefined) => (v ? v.split(",") : []);
+      const { slug, changes, propagated, hollow, promotionHints } = await lattice.update(nodeQuery, {
+        status: opts.status as Status | undefined,
+        add_tags: splitList(opts.addTag),
+        remove_tags: splitList(opts.removeTag),
+        add_reduces_to: opts.addReducesTo as string[],
+        remove_reduces_to: opts.removeReducesTo as string[],
+        propagate: Boolean(opts.propagate),
       });
 
-      // Check for Tentative nodes that reduce to this one and may now be promotable
-      const tentativeChildren =
-        effectiveStatus === "Integrated/Validated"
-          ? findTentativeChildren(slug, nodes)
-          : [];
-      const promotionHints = tentativeChildren.map((n) => ({ slug: n.slug, title: n.title }));
-
       // Output
       const result: Record<string, unknown> = { updated: slug, changes };
+      if (propagated.length > 0) {
+        result.propagated = propagated;
+      }
+      if (hollow.length > 0) {
+        result.hollow_warning = {
+          message:
+            "These validated nodes reduce to the demoted node and now have hollow chains. Re-run with --propagate to demote them, or re-validate this node.",
+          nodes: hollow,
+        };
+      }
       if (promotionHints.length > 0) {
         result.promotion_hints = {
-          message:
-            "This node is now Integrated/Validated. The following nodes reduce to it and are still Tentative/Hypothesis — their chain may now be complete. Consider running 'lattice update <slug> --status Integrated/Validated' for each.",
+          message: promotionHintMessage(),
           nodes: promotionHints,
         };
       }
@@ -293,6 +198,16 @@ GOLDEN EXAMPLES:
             .map(([k, v]) => `${k}: ${v}`)
             .join(", ");
           let out = `Updated: ${slug} (${parts})`;
+          if (propagated.length > 0) {
+            out +=
+              `\nDemoted ${propagated.length} dependent(s):\n` +
+              propagated.map((p) => `  ${p.slug}  "${p.title}"`).join("\n");
+          }
+          if (hollow.length > 0) {
+            out +=
+              `\n\nWarning: ${hollow.length} validated dependent(s) now have hollow chains (use --propagate to demote):\n` +
+              hollow.map((h) => `  ${h.slug}  "${h.title}"`).join("\n");
+          }
           if (promotionHints.length > 0) {
             out +=
               "\n\nNow validated — these nodes may be ready for promotion:\n" +
@@ -1,9 +1,5 @@
 import { Command } from "commander";
-import { unlink } from "node:fs/promises";
-import { resolveVaultPath, requireVault } from "../core/vault.js";
-import { loadAllNodes } from "../core/node.js";
-import { loadTags } from "../core/tags.js";
-import { validateGraph } from "../core/graph.js";
+import { Lattice } from "../lattice.js";
 import { resolveFormat, formatValidationResult } from "../util/format.js";
 import { EXIT } from "../core/constants.js";
 import { handleError } from "../util/cli-helpers.js";
@@ -51,6 +47,7 @@ FLAGS:
   --fix-auto   Auto-delete stale Tentatives (>14d) that have ZERO reduces_to.
                These are abandoned drafts with no evidence at all.
                Tentatives with partial chains are flagged but NOT deleted.
+               Deletions go to 99-Trash/Deleted/, exactly like 'lattice delete'.
   --dry-run    With --fix-auto: show what WOULD be deleted, without deleting.
   --quiet      Suppress output. Exit code only (0=clean, 1=issues).
 
@@ -86,65 +83,33 @@ GOLDEN EXAMPLES:
   cmd.action(async (opts) => {
     try {
       const parentOpts = cmd.parent?.opts() ?? {};
-      const vaultPath = resolveVaultPath(parentOpts.vault ?? ".");
-      await requireVault(vaultPath);
+      const lattice = await Lattice.open(parentOpts.vault ?? ".");
       const format = resolveFormat(parentOpts);
 
-      const startTime = Date.now();
-
-      const nodes = await loadAllNodes(vaultPath);
-      const masterTags = await loadTags(vaultPath);
-      let issues = validateGraph(nodes, masterTags);
-
-      // --fix-auto: delete stale tentatives with no reduction chain
-      let deletedCount = 0;
-      if (opts.fixAuto) {
-        const staleTentatives = issues.filter(
-          (i) => i.type === "stale_tentative",
-        );
-        for (const issue of staleTentatives) {
-          const node = nodes.get(issue.slug);
-          const isBedrockNode = node && (node.level === "percept" || node.level === "axiom");
-          if (node && !isBedrockNode && node.reduces_to.length === 0) {
-            if (opts.dryRun) {
-              process.stderr.write(
-                `Would delete: ${node.filePath}\n`,
-              );
-              deletedCount++;
-            } else {
-              try {
-                await unlink(node.filePath);
-                nodes.delete(issue.slug);
-                deletedCount++;
-              } catch {
-                // Ignore delete failures
-              }
-            }
-          }
-        }
-
-        // Re-validate after deletions (skip if dry-run)
-        if (deletedCount > 0 && !opts.dryRun) {
-          issues = validateGraph(nodes, masterTags);
+      const result = await lattice.validate({
+        fixAuto: Boolean(opts.fixAuto),
+        dryRun: Boolean(opts.dryRun),
+      });
+      if (opts.dryRun) {
+        for (const file of result.deleted) {
+          process.stderr.write(`Would delete: ${file}\n`);
         }
       }
 
-      const timeMs = Date.now() - startTime;
-
       if (opts.quiet) {
-        process.exit(issues.length === 0 ? EXIT.SUCCESS : EXIT.VALIDATION_ERROR);
+        process.exit(result.issues.length === 0 ? EXIT.SUCCESS : EXIT.VALIDATION_ERROR);
       }
 
       const output = formatValidationResult(
-        nodes.size,
-        issues,
+        result.totalNodes,
+        result.issues,
         format,
-        deletedCount,
-        timeMs,
+        result.deleted.length,
+        result.timeMs,
       );
       process.stdout.write(output + "\n");
 
-      if (issues.length > 0) {
+      if (result.issues.length > 0) {
         process.exit(EXIT.VALIDATION_ERROR);
       }
     } catch (err) {
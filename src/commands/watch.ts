@@ -0,0 +1,123 @@
+import { Command } from "commander";
+import { resolveVaultPath, requireVault } from "../core/vault.js";
+import { watchVault, type WatchEvent, type WatchIssue } from "../core/watch.js";
+import { handleError } from "../util/cli-helpers.js";
+
+/** Issue types that break the lattice's structure, marked ✗ instead of ⚠. */
+const STRUCTURAL: ReadonlySet<WatchIssue["type"]> = new Set([
+  "broken_link",
+  "level_mismatch",
+  "cycle",
+  "hollow_chain",
+]);
+
+export function makeWatchCommand(): Command {
+  const cmd = new Command("watch");
+
+  cmd
+    .description("Validate continuously, reporting issues as files change")
+    .addHelpText(
+      "after",
+      `
+WHAT THIS DOES:
+  Loads the vault, reports every current issue, then watches the level
+  folders and tags.json. Each time a node file is saved — by Obsidian,
+  an editor, or another lattice command — only that file is re-parsed
+  and only the checks it can affect are re-run:
+    - links, level order, missing reductions, tags: the node and the
+      nodes that reduce directly to it
+    - hollow chains: the node and everything that reduces to it
+    - cycles: the whole graph, when a reduces_to list changed
+
+  Each issue is reported once when it appears and once when it is
+  resolved, so the stream shows exactly what a save broke or fixed.
+  Runs until Ctrl-C.
+
+  Checks are those of 'lattice validate', plus hollow chains (validated
+  nodes with a Tentative ancestor, see 'lattice query hollow-chains').
+  Stale tentatives are only re-checked when their node changes; run
+  'lattice validate' for the time-based check.
+
+OUTPUT:
+  Default / --table: one line per event
+    ✗  new structural issue (broken link, level mismatch, cycle, hollow chain)
+    ⚠  new issue (rogue tag, missing reduction, stale tentative)
+    ✓  issue resolved
+    ·  file re-parsed or removed
+  --json: NDJSON, one event object per line:
+    { event: "issue" | "resolved", slug, type, message }
+    { event: "changed", file, slug, removed }
+    { event: "parse_error", file, message }
+    { event: "ready", nodes, issues }   (after the initial scan)
+    { event: "error", message }
+
+GOLDEN EXAMPLES:
+
+  1. Keep a terminal open next to Obsidian:
+     $ lattice watch
+     # Watching 312 nodes, 0 issue(s). Ctrl-C to stop.
+     # 14:02:11 · 03-Principles/20260303091620-untested-code-will-exhibit.md
+     # 14:02:11 ✗ level_mismatch  20260303091620-untested-code-will-exhibit:
+     #            Level mismatch: principle reduces to application (...)
+
+  2. Feed issues to an agent or a notifier:
+     $ lattice watch --json | jq -c 'select(.event == "issue")'
+`,
+    );
+
+  cmd.action(async () => {
+    try {
+      const parentOpts = cmd.parent?.opts() ?? {};
+      const vaultPath = resolveVaultPath(parentOpts.vault ?? ".");
+      await requireVault(vaultPath);
+      const ndjson = Boolean(parentOpts.json);
+
+      let ready = false;
+      const onEvent = (event: WatchEvent): void => {
+        if (ndjson) {
+          process.stdout.write(JSON.stringify(event) + "\n");
+          return;
+        }
+        const line = formatEvent(event);
+        if (event.event === "ready") ready = true;
+        const stamp = ready && event.event !== "ready" ? `${timeOfDay()} ` : "";
+        process.stdout.write(stamp + line + "\n");
+      };
+
+      const watcher = await watchVault(vaultPath, onEvent);
+      await new Promise<void>((resolve) => {
+        process.once("SIGINT", resolve);
+        process.once("SIGTERM", resolve);
+      });
+      watcher.close();
+    } catch (err) {
+      handleError(err);
+    }
+  });
+
+  return cmd;
+}
+
+function formatEvent(event: WatchEvent): string {
+  switch (event.event) {
+    case "ready":
+      return `Watching ${event.nodes.toLocaleString()} nodes, ${event.issues} issue(s). Ctrl-C to stop.`;
+    case "changed":
+      return event.removed ? `· removed ${event.file}` : `· ${event.file}`;
+    case "parse_error":
+      return `✗ parse_error  ${event.file}: ${event.message}`;
+    case "error":
+      return `✗ error  ${event.message}`;
+    case "issue": {
+      const mark = STRUCTURAL.has(event.type) ? "✗" : "⚠";
+      return `${mark} ${event.type}  ${event.slug}: ${event.message}`;
+    }
+    case "resolved":
+      return `✓ resolved ${event.type}  ${event.slug}: ${event.message}`;
+  }
+}
+
+/** HH:MM:SS in local time. */
+function timeOfDay(): string {
+  return new Date().toTimeString().slice(0, 8);
+}
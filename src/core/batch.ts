@@ -0,0 +1,511 @@
+import { join } from "node:path";
+import {
+  EXIT,
+  type Level,
+  type Status,
+} from "./constants.js";
+import { bedrockLevels, isBedrock, isLevel, levelFolder } from "./levels.js";
+import {
+  allowedTransitions,
+  canTransition,
+  initialStatus,
+  isGrounded,
+  isStatus,
+  validatedStatus,
+} from "./statuses.js";
+import {
+  createNodeFile,
+  updateNodeFile,
+  generateFilename,
+  filenameToSlug,
+  resolveNodeSlug,
+  type CreateNodeOptions,
+  type LatticeNode,
+} from "./node.js";
+import {
+  buildIncomingLinks,
+  validateReductionLinks,
+  validateParentsAreValidated,
+} from "./graph.js";
+import { saveTags, validateTags } from "./tags.js";
+import { trashNode } from "./trash.js";
+import { runInTransaction } from "./transaction.js";
+import { planDemotion } from "./propagation.js";
+import type { VaultConfig } from "./config.js";
+import {
+  LatticeError,
+  BatchOperationError,
+  BedrockReductionError,
+  DeleteBlockedError,
+  DuplicateSlugError,
+  InvalidLevelError,
+  InvalidStatusError,
+  InvalidTransitionError,
+  MissingReductionError,
+} from "../util/errors.js";
+
+// ─── Operation types ─────────────────────────────────────────────────
+
+/** Create a node. `id` names a placeholder later operations can use as `$id`. */
+export interface AddOperation {
+  op: "add";
+  id?: string;
+  level: string;
+  title: string;
+  proposition: string;
+  reduces_to?: string[];
+  tags?: string[];
+  status?: string;
+}
+
+/** Same fields as `lattice update`, as arrays instead of flags. */
+export interface UpdateOperation {
+  op: "update";
+  node: string;
+  status?: string;
+  add_tags?: string[];
+  remove_tags?: string[];
+  add_reduces_to?: string[];
+  remove_reduces_to?: string[];
+  /** Demote validated dependents on a demotion, even if the vault doesn't. */
+  propagate?: boolean;
+}
+
+/** Soft-delete a node, under the same rules as `lattice delete`. */
+export interface DeleteOperation {
+  op: "delete";
+  node: string;
+}
+
+/** Add a tag to, or remove one from, the master list. */
+export interface TagOperation {
+  op: "tag";
+  action: "add" | "remove";
+  tag: string;
+  /** Required for add: an Integrated/Validated node justifying the tag. */
+  reason?: string;
+}
+
+export type BatchOperation =
+  | AddOperation
+  | UpdateOperation
+  | DeleteOperation
+  | TagOperation;
+
+/** What one operation did (or will do, on a dry run). */
+export interface BatchOpResult {
+  index: number;
+  op: BatchOperation["op"];
+  slug?: string;
+  tag?: string;
+  changes?: Record<string, string>;
+  /** Validated dependents demoted with this node (propagate). */
+  propagated?: string[];
+  /** Validated dependents left on hollow ground (demotion not propagated). */
+  hollow?: string[];
+}
+
+type NodeUpdates = Parameters<typeof updateNodeFile>[1];
+
+/** A single file write, in the order it must happen. */
+type PlannedWrite =
+  | { kind: "create"; slug: string; filePath: string; options: CreateNodeOptions }
+  | { kind: "update"; node: LatticeNode; updates: NodeUpdates }
+  | { kind: "trash"; node: LatticeNode };
+
+/** A fully validated batch, ready to write. */
+export interface BatchPlan {
+  writes: PlannedWrite[];
+  /** Final master tag list, or null if no tag operation changed it. */
+  tags: string[] | null;
+  results: BatchOpResult[];
+  /** Placeholder id → slug it was resolved to. */
+  placeholders: Record<string, string>;
+}
+
+// ─── Parsing ─────────────────────────────────────────────────────────
+
+/**
+ * Parse a batch script: a JSON array of operations, or NDJSON with one
+ * operation object per line. Only the shape is checked here; everything
+ * else is validated by planBatch.
+ */
+export function parseBatch(raw: string): BatchOperation[] {
+  const text = raw.trim();
+  let items: unknown[];
+  try {
+    items = text.startsWith("[")
+      ? (JSON.parse(text) as unknown[])
+      : text
+          .split("\n")
+          .filter((line) => line.trim())
+          .map((line) => JSON.parse(line) as unknown);
+  } catch (err) {
+    throw new LatticeError(
+      `Batch input is not valid JSON or NDJSON: ${(err as Error).message}`,
+      EXIT.BAD_INPUT,
+    );
+  }
+  if (!Array.isArray(items) || items.length === 0) {
+    throw new LatticeError("Batch input contains no operations", EXIT.BAD_INPUT);
+  }
+
+  return items.map((item, i) => {
+    const op = (item as { op?: unknown } | null)?.op;
+    if (op !== "add" && op !== "update" && op !== "delete" && op !== "tag") {
+      throw new LatticeError(
+        `Operation ${i + 1}: 'op' must be one of add, update, delete, tag`,
+        EXIT.BAD_INPUT,
+      );
+    }
+    return item as BatchOperation;
+  });
+}
+
+// ─── Planning ────────────────────────────────────────────────────────
+
+/**
+ * Validate every operation against an in-memory copy of the lattice,
+ * applying each to the copy before checking the next. Nothing touches
+ * disk. Throws BatchOperationError on the first invalid operation.
+ *
+ * Checks are the ones the single-node commands run: level, status, tags
+ * against the master list (as modified by earlier tag operations), rank
+ * order, cycles, validated parents, and delete protection.
+ *
+ * Any string that starts with `$` in a node reference or reduces_to is a
+ * placeholder for the slug of an earlier add with that `id`.
+ */
+export function planBatch(
+  vaultPath: string,
+  ops: BatchOperation[],
+  nodes: Map<string, LatticeNode>,
+  masterTags: string[],
+  config: VaultConfig,
+  now: Date = new Date(),
+): BatchPlan {
+  const sim = new Map(nodes);
+  let tags = [...masterTags];
+  let tagsChanged = false;
+  const placeholders = new Map<string, string>();
+  const writes: PlannedWrite[] = [];
+  const results: BatchOpResult[] = [];
+
+  const resolveRef = (ref: string): string => {
+    const value = String(ref).trim();
+    if (!value.startsWith("$")) return value.replace(/\.md$/, "");
+    const slug = placeholders.get(value.slice(1));
+    if (!slug) {
+      throw new LatticeError(
+        `Unknown placeholder '${value}'. Define it with "id" on an earlier add.`,
+        EXIT.BAD_INPUT,
+      );
+    }
+    return slug;
+  };
+  const refList = (value: unknown, field: string): string[] =>
+    stringList(value, field).filter((r) => r.trim()).map(resolveRef);
+
+  const resolveNode = (ref: string): LatticeNode => {
+    return sim.get(resolveNodeSlug(resolveRef(ref), sim))!;
+  };
+
+  ops.forEach((op, index) => {
+    try {
+      switch (op.op) {
+        case "add": {
+          requireString(op.title, "title");
+          requireString(op.proposition, "proposition");
+          const level = op.level as Level;
+          if (!isLevel(level)) throw new InvalidLevelError(String(op.level));
+          const statusInput: Status = op.status ?? initialStatus();
+          if (!isStatus(statusInput)) throw new InvalidStatusError(statusInput);
+
+          const nodeTags = tagList(op.tags, "tags");
+          validateTags(nodeTags, tags);
+          const reducesTo = refList(op.reduces_to, "reduces_to");
+
+          const bedrock = isBedrock(level);
+          const status: Status = bedrock ? validatedStatus() : statusInput;
+          if (!bedrock && reducesTo.length === 0) throw new MissingReductionError(level);
+          if (bedrock && reducesTo.length > 0) throw new BedrockReductionError(level);
+
+          const filename = generateFilename(op.title, now);
+          const slug = filenameToSlug(filename);
+          if (sim.has(slug)) throw new DuplicateSlugError(slug);
+          if (reducesTo.length > 0) validateReductionLinks(slug, level, reducesTo, sim);
+          if (isGrounded(status) && reducesTo.length > 0) {
+            validateParentsAreValidated(reducesTo, sim);
+          }
+
+          if (op.id !== undefined) {
+            if (placeholders.has(op.id)) {
+              throw new LatticeError(`Placeholder id '${op.id}' is already used`, EXIT.BAD_INPUT);
+            }
+            placeholders.set(op.id, slug);
+          }
+
+          const proposition = op.proposition.trim();
+          const filePath = join(vaultPath, levelFolder(level), filename);
+          sim.set(slug, {
+            slug,
+            title: op.title,
+            level,
+            reduces_to: reducesTo,
+            status,
+            tags: nodeTags,
+            proposition,
+            filePath,
+            created: now,
+          });
+          writes.push({
+            kind: "create",
+            slug,
+            filePath,
+            options: {
+              title: op.title,
+              level,
+              reduces_to: reducesTo,
+              status,
+              tags: nodeTags,
+              proposition,
+              created: now,
+              slug,
+            },
+          });
+          results.push({ index, op: "add", slug });
+          break;
+        }
+
+        case "update": {
+          const node = resolveNode(op.node);
+          const bedrock = isBedrock(node.level);
+          const changes: Record<string, string> = {};
+          const updates: NodeUpdates = {};
+
+          let status = node.status;
+          if (op.status !== undefined) {
+            if (!isStatus(op.status)) throw new InvalidStatusError(op.status);
+            if (bedrock) {
+              throw new LatticeError(
+                `Cannot change status of a ${node.level} node. Bedrock nodes (${bedrockLevels().join(", ")}) are always ${validatedStatus()}.`,
+                EXIT.BAD_INPUT,
+              );
+            }
+            if (!canTransition(node.status, op.status)) {
+              throw new InvalidTransitionError(node.status, op.status, allowedTransitions(node.status) ?? []);
+            }
+            status = op.status;
+          }
+
+          let nodeTags = [...node.tags];
+          const addTags = tagList(op.add_tags, "add_tags");
+          validateTags(addTags, tags);
+          for (const t of addTags) if (!nodeTags.includes(t)) nodeTags.push(t);
+          const removeTags = new Set(tagList(op.remove_tags, "remove_tags"));
+          nodeTags = nodeTags.filter((t) => !removeTags.has(t));
+
+          let reducesTo = [...node.reduces_to];
+          const addReduces = refList(op.add_reduces_to, "add_reduces_to");
+          if (addReduces.length > 0) {
+            validateReductionLinks(node.slug, node.level, addReduces, sim);
+          }
+          for (const r of addReduces) if (!reducesTo.includes(r)) reducesTo.push(r);
+          const removeReduces = new Set(refList(op.remove_reduces_to, "remove_reduces_to"));
+          reducesTo = reducesTo.filter((r) => !removeReduces.has(r));
+
+          // A validated node left with no grounding is floating
+          let floating = false;
+          if (!bedrock && reducesTo.length === 0 && op.status === undefined && isGrounded(status)) {
+            status = initialStatus();
+            floating = true;
+          }
+          if (isGrounded(status) && reducesTo.length > 0) {
+            validateParentsAreValidated(reducesTo, sim);
+          }
+
+          if (status !== node.status) {
+            updates.status = status;
+            changes.status = `${node.status} → ${status}`;
+            if (floating) changes.status += " (no reduces_to links remain)";
+          }
+          if (JSON.stringify(nodeTags) !== JSON.stringify(node.tags)) {
+            updates.tags = nodeTags;
+            changes.tags = nodeTags.join(",");
+          }
+          if (JSON.stringify(reducesTo) !== JSON.stringify(node.reduces_to)) {
+            updates.reduces_to = reducesTo;
+            changes.reduces_to = reducesTo.join(",") || "(empty)";
+          }
+          if (Object.keys(changes).length === 0) {
+            throw new LatticeError(
+              `No changes for '${node.slug}'. Set status, add_tags, remove_tags, add_reduces_to or remove_reduces_to.`,
+              EXIT.BAD_INPUT,
+            );
+          }
+
+          sim.set(node.slug, { ...node, status, tags: nodeTags, reduces_to: reducesTo });
+          writes.push({ kind: "update", node, updates });
+
+          // A demotion pulls the ground out from under validated dependents
+          const result: BatchOpResult = { index, op: "update", slug: node.slug, changes };
+          if (isGrounded(node.status) && !isGrounded(status)) {
+            const demoted = planDemotion(node.slug, sim);
+            if (config.propagate_demotion || op.propagate === true) {
+              for (const d of demoted) {
+                const dependent = sim.get(d.slug)!;
+                sim.set(d.slug, { ...dependent, status: initialStatus() });
+                writes.push({
+                  kind: "update",
+                  node: dependent,
+                  updates: { status: initialStatus() },
+                });
+              }
+              result.propagated = demoted.map((d) => d.slug);
+            } else if (demoted.length > 0) {
+              result.hollow = demoted.map((d) => d.slug);
+            }
+          }
+          results.push(result);
+          break;
+        }
+
+        case "delete": {
+          const node = resolveNode(op.node);
+          if (isGrounded(node.status)) {
+            const incoming = buildIncomingLinks(sim).get(node.slug) ?? [];
+            if (incoming.length > 0) throw new DeleteBlockedError(node.slug, incoming.length);
+          }
+          sim.delete(node.slug);
+          writes.push({ kind: "trash", node });
+          results.push({ index, op: "delete", slug: node.slug });
+          break;
+        }
+
+        case "tag": {
+          requireString(op.tag, "tag");
+          const tag = op.tag.toLowerCase().trim();
+          if (op.action === "add") {
+            if (!op.reason) {
+              throw new LatticeError(
+                "Tag add requires 'reason': an Integrated/Validated node justifying the tag",
+                EXIT.BAD_INPUT,
+              );
+            }
+            const reason = resolveNode(op.reason);
+            if (!isGrounded(reason.status)) {
+              throw new LatticeError(
+                `Reason node '${reason.slug}' is not validated (status: ${reason.status})`,
+                EXIT.VALIDATION_ERROR,
+              );
+            }
+            if (!tags.includes(tag)) {
+              tags = [...tags, tag].sort();
+              tagsChanged = true;
+            }
+          } else if (op.action === "remove") {
+            if (!tags.includes(tag)) {
+              throw new LatticeError(`Tag '${tag}' not found in master list`, EXIT.BAD_INPUT);
+            }
+            const users = [...sim.values()].filter((n) => n.tags.includes(tag)).length;
+            if (users > 0) {
+              throw new LatticeError(
+                `Cannot remove tag '${tag}': used by ${users} node(s)`,
+                EXIT.VALIDATION_ERROR,
+              );
+            }
+            tags = tags.filter((t) => t !== tag);
+            tagsChanged = true;
+          } else {
+            throw new LatticeError("Tag 'action' must be add or remove", EXIT.BAD_INPUT);
+          }
+          results.push({ index, op: "tag", tag });
+          break;
+        }
+      }
+    } catch (err) {
+      if (err instanceof LatticeError) throw new BatchOperationError(index, op.op, err);
+      throw err;
+    }
+  });
+
+  return {
+    writes,
+    tags: tagsChanged ? tags : null,
+    results,
+    placeholders: Object.fromEntries(placeholders),
+  };
+}
+
+/**
+ * Plan one operation, as `lattice add`, `lattice update` and the servers
+ * do: planBatch's rules, with errors as the single-node commands word
+ * them (no "Operation 1 (add):" prefix).
+ */
+export function planOperation(
+  vaultPath: string,
+  op: BatchOperation,
+  nodes: Map<string, LatticeNode>,
+  masterTags: string[],
+  config: VaultConfig,
+): BatchPlan {
+  try {
+    return planBatch(vaultPath, [op], nodes, masterTags, config);
+  } catch (err) {
+    throw err instanceof BatchOperationError ? err.underlying : err;
+  }
+}
+
+/**
+ * A list field: an array of strings, or a single string taken as a
+ * one-item list (as the frontmatter parser reads reduces_to and tags).
+ */
+function stringList(value: unknown, field: string): string[] {
+  if (value === undefined || value === null) return [];
+  if (typeof value === "string") return [value];
+  if (Array.isArray(value) && value.every((v) => typeof v === "string")) return value;
+  throw new LatticeError(`'${field}' must be a string or a list of strings`, EXIT.BAD_INPUT);
+}
+
+/** Tags as every command stores them: trimmed, lowercase, no empties. */
+function tagList(value: unknown, field: string): string[] {
+  return stringList(value, field).map((t) => t.trim().toLowerCase()).filter(Boolean);
+}
+
+function requireString(value: unknown, field: string): asserts value is string {
+  if (typeof value !== "string" || !value.trim()) {
+    throw new LatticeError(`'${field}' is required and must be a non-empty string`, EXIT.BAD_INPUT);
+  }
+}
+
+// ─── Writing ─────────────────────────────────────────────────────────
+
+/**
+ * Write a planned batch in one transaction: every file the batch touches
+ * (node files, their revision logs, trash destinations, tags.json) is
+ * staged first and committed together. If anything fails, nothing is
+ * written, so the vault is left as it was.
+ */
+export async function applyBatch(
+  vaultPath: string,
+  plan: BatchPlan,
+): Promise<void> {
+  await runInTransaction(vaultPath, async () => {
+    for (const write of plan.writes) {
+      switch (write.kind) {
+        case "create":
+          await createNodeFile(vaultPath, write.options);
+          break;
+        case "update":
+          await updateNodeFile(write.node, write.updates);
+          break;
+        case "trash":
+          await trashNode(vaultPath, write.node);
+          break;
+      }
+    }
+    if (plan.tags) {
+      await saveTags(vaultPath, plan.tags);
+    }
+  });
+}
@@ -0,0 +1,264 @@
+import { join } from "node:path";
+import YAML from "yaml";
+import {
+  CONFIG_JSON_FILE,
+  CONFIG_YAML_FILES,
+  TEMPLATES_FOLDER,
+  TRASH_FOLDER,
+} from "./constants.js";
+import { DEFAULT_LEVELS, type LevelDefinition } from "./levels.js";
+import { DEFAULT_STATUSES, type StatusDefinition } from "./statuses.js";
+import { readText, writeText } from "./transaction.js";
+import { FilesystemError } from "../util/errors.js";
+
+/**
+ * Where node embeddings come from (see core/embeddings.ts):
+ *   hashed  — built in, offline: hashed words and word pairs
+ *   command — an external program: JSON array of texts on stdin,
+ *             JSON array of vectors on stdout
+ */
+export type EmbeddingsConfig =
+  | { provider: "hashed" }
+  | {
+      provider: "command";
+      command: string;
+      /** Names the model in the vector cache; change it when the model changes. */
+      model?: string;
+    };
+
+/** Vault-level settings stored in lattice.config.json (or .yaml/.yml). */
+export interface VaultConfig {
+  /**
+   * When true, every demotion to Tentative/Hypothesis also demotes all
+   * validated dependents, so hollow chains are never created.
+   */
+  propagate_demotion: boolean;
+  embeddings: EmbeddingsConfig;
+  /** The level hierarchy, in listing order (see levels.ts). */
+  levels: LevelDefinition[];
+  /** The status workflow (see statuses.ts). */
+  statuses: StatusDefinition[];
+}
+
+/** Settings used when the file is missing or a key is absent. */
+export const DEFAULT_CONFIG: VaultConfig = {
+  propagate_demotion: false,
+  embeddings: { provider: "hashed" },
+  levels: [...DEFAULT_LEVELS],
+  statuses: [...DEFAULT_STATUSES],
+};
+
+/**
+ * Load vault settings from lattice.config.json in the vault root, or from
+ * lattice.config.yaml / .yml when there is no JSON file.
+ * Vaults created before the file existed have none → defaults.
+ * Unknown keys are ignored; missing keys take their default.
+ */
+export async function loadConfig(vaultPath: string): Promise<VaultConfig> {
+  let file = "";
+  let raw: string | null = null;
+  for (const name of [CONFIG_JSON_FILE, ...CONFIG_YAML_FILES]) {
+    try {
+      raw = await readText(join(vaultPath, name));
+      file = name;
+      break;
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === "ENOENT") continue;
+      throw new FilesystemError(
+        `Cannot read ${name}: ${(err as Error).message}`,
+      );
+    }
+  }
+  if (raw === null) {
+    return { ...DEFAULT_CONFIG };
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = file === CONFIG_JSON_FILE ? JSON.parse(raw) : YAML.parse(raw);
+  } catch {
+    parsed = null;
+  }
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+    throw new FilesystemError(
+      `${file} is malformed: expected ${file === CONFIG_JSON_FILE ? "a JSON" : "a YAML"} object`,
+    );
+  }
+
+  const obj = parsed as Record<string, unknown>;
+  return {
+    propagate_demotion:
+      typeof obj.propagate_demotion === "boolean"
+        ? obj.propagate_demotion
+        : DEFAULT_CONFIG.propagate_demotion,
+    embeddings:
+      obj.embeddings === undefined
+        ? { ...DEFAULT_CONFIG.embeddings }
+        : parseEmbeddingsConfig(obj.embeddings, file),
+    levels:
+      obj.levels === undefined
+        ? [...DEFAULT_CONFIG.levels]
+        : parseLevelsConfig(obj.levels, file),
+    statuses:
+      obj.statuses === undefined
+        ? [...DEFAULT_CONFIG.statuses]
+        : parseStatusesConfig(obj.statuses, file),
+  };
+}
+
+function parseEmbeddingsConfig(value: unknown, file: string): EmbeddingsConfig {
+  const obj = (value ?? {}) as Record<string, unknown>;
+  if (obj.provider === "hashed") return { provider: "hashed" };
+  if (obj.provider === "command") {
+    if (typeof obj.command !== "string" || !obj.command.trim()) {
+      throw new FilesystemError(
+        `${file} is malformed: embeddings.command must be a non-empty string`,
+      );
+    }
+    return {
+      provider: "command",
+      command: obj.command,
+      ...(typeof obj.model === "string" && { model: obj.model }),
+    };
+  }
+  throw new FilesystemError(
+    `${file} is malformed: embeddings.provider must be "hashed" or "command"`,
+  );
+}
+
+/**
+ * Check a declared hierarchy: names and folders unique and well-formed,
+ * integer ranks, at least one bedrock level, and every other level above
+ * some lower rank it can reduce to.
+ */
+function parseLevelsConfig(value: unknown, file: string): LevelDefinition[] {
+  const malformed = (detail: string) =>
+    new FilesystemError(`${file} is malformed: ${detail}`);
+  if (!Array.isArray(value) || value.length === 0) {
+    throw malformed("levels must be a non-empty array");
+  }
+
+  const levels = value.map((item, i): LevelDefinition => {
+    const obj = (item ?? {}) as Record<string, unknown>;
+    const { name, rank, folder, bedrock } = obj;
+    if (typeof name !== "string" || !/^[a-z][a-z0-9-]*$/.test(name)) {
+      throw malformed(`levels[${i}].name must be lowercase letters, digits and hyphens`);
+    }
+    if (typeof rank !== "number" || !Number.isInteger(rank) || rank < 0) {
+      throw malformed(`levels[${i}].rank (${name}) must be a non-negative integer`);
+    }
+    if (
+      typeof folder !== "string" ||
+      !folder.trim() ||
+      /[\\/]/.test(folder) ||
+      folder.startsWith(".") ||
+      folder === TRASH_FOLDER ||
+      folder === TEMPLATES_FOLDER
+    ) {
+      throw malformed(
+        `levels[${i}].folder (${name}) must be a plain folder name other than ${TRASH_FOLDER} and ${TEMPLATES_FOLDER}`,
+      );
+    }
+    if (bedrock !== undefined && typeof bedrock !== "boolean") {
+      throw malformed(`levels[${i}].bedrock (${name}) must be true or false`);
+    }
+    return { name, rank, folder, bedrock: bedrock === true };
+  });
+
+  for (const key of ["name", "folder"] as const) {
+    const seen = new Set<string>();
+    for (const level of levels) {
+      if (seen.has(level[key])) throw malformed(`level ${key} '${level[key]}' is declared twice`);
+      seen.add(level[key]);
+    }
+  }
+  if (!levels.some((l) => l.bedrock)) {
+    throw malformed("at least one level must be bedrock");
+  }
+  const lowest = Math.min(...levels.map((l) => l.rank));
+  for (const level of levels) {
+    if (!level.bedrock && level.rank === lowest) {
+      throw malformed(
+        `level '${level.name}' is not bedrock but has the lowest rank, so it has nothing to reduce to`,
+      );
+    }
+  }
+  return levels;
+}
+
+/**
+ * Check a declared workflow: unique non-empty names, at least one grounded
+ * status, exactly one initial status (neither grounded nor terminal), no
+ * grounded terminal status, and transitions naming declared statuses.
+ */
+function parseStatusesConfig(value: unknown, file: string): StatusDefinition[] {
+  const malformed = (detail: string) =>
+    new FilesystemError(`${file} is malformed: ${detail}`);
+  if (!Array.isArray(value) || value.length === 0) {
+    throw malformed("statuses must be a non-empty array");
+  }
+
+  const statuses = value.map((item, i): StatusDefinition => {
+    const obj = (item ?? {}) as Record<string, unknown>;
+    const { name, transitions } = obj;
+    if (typeof name !== "string" || !name.trim() || name !== name.trim() || /[\n,]/.test(name)) {
+      throw malformed(`statuses[${i}].name must be a non-empty string without commas or line breaks`);
+    }
+    const flags = { grounded: false, initial: false, terminal: false };
+    for (const flag of Object.keys(flags) as Array<keyof typeof flags>) {
+      if (obj[flag] !== undefined && typeof obj[flag] !== "boolean") {
+        throw malformed(`statuses[${i}].${flag} (${name}) must be true or false`);
+      }
+      flags[flag] = obj[flag] === true;
+    }
+    if (
+      transitions !== undefined &&
+      (!Array.isArray(transitions) || !transitions.every((t) => typeof t === "string"))
+    ) {
+      throw malformed(`statuses[${i}].transitions (${name}) must be a list of status names`);
+    }
+    return {
+      name,
+      ...flags,
+      ...(transitions !== undefined && { transitions: transitions as string[] }),
+    };
+  });
+
+  const names = new Set<string>();
+  for (const status of statuses) {
+    if (names.has(status.name)) throw malformed(`status '${status.name}' is declared twice`);
+    names.add(status.name);
+  }
+  if (!statuses.some((s) => s.grounded)) {
+    throw malformed("at least one status must be grounded");
+  }
+  const initial = statuses.filter((s) => s.initial);
+  if (initial.length !== 1) {
+    throw malformed("exactly one status must be initial");
+  }
+  for (const status of statuses) {
+    if (status.grounded && (status.initial || status.terminal)) {
+      throw malformed(`status '${status.name}' cannot be grounded and ${status.initial ? "initial" : "terminal"}`);
+    }
+    if (status.initial && status.terminal) {
+      throw malformed(`status '${status.name}' cannot be initial and terminal`);
+    }
+    for (const to of status.transitions ?? []) {
+      if (!names.has(to)) {
+        throw malformed(`status '${status.name}' lists unknown transition '${to}'`);
+      }
+    }
+  }
+  return statuses;
+}
+
+/**
+ * Save vault settings to lattice.config.json.
+ */
+export async function saveConfig(
+  vaultPath: string,
+  config: VaultConfig,
+): Promise<void> {
+  const filePath = join(vaultPath, CONFIG_JSON_FILE);
+  await writeText(filePath, JSON.stringify(config, null, 2) + "\n");
+}
@@ -1,60 +1,21 @@
 /**
  * Core constants for the Objectivist Knowledge Lattice.
  *
- * LEVEL HIERARCHY:
- *   axiom    (0) — Philosophical bedrock. Self-evident, irreducible.
- *                  Cannot be proven, only validated. No reduces_to.
- *   percept  (0) — Empirical bedrock. Directly observed fact.
- *                  Cannot be reduced further. No reduces_to.
- *   principle (1) — Induced general rule. Reduces to axioms and/or percepts.
- *   application (2) — Concrete action/decision. Reduces to principles
- *                     (and/or axioms/percepts).
- *
- * Axioms and percepts are co-equal bedrock at rank 0. Neither reduces to
- * the other — that would violate their irreducibility. Principles reduce
- * to one or both bedrock types. Applications reduce to principles.
- *
- * A node at rank N may only have reduces_to links pointing to nodes
- * at rank < N. Same-level or upward reduction is always rejected.
+ * The level hierarchy and the status workflow are per vault and live in
+ * levels.ts and statuses.ts.
  */
 
-export const LEVELS = ["percept", "axiom", "principle", "application"] as const;
-export type Level = (typeof LEVELS)[number];
-
 /**
- * Numeric rank for each level. Higher number = higher in the hierarchy.
- * Used for enforcing reduction direction: a node can only reduce to
- * nodes with a LOWER rank number.
- *
- * Axioms and percepts share rank 0 — both are irreducible bedrock.
- * Neither can reduce to the other.
+ * A level name. The built-in levels are percept, axiom, principle and
+ * application; a vault may declare its own in lattice.config.json.
  */
-export const LEVEL_RANK: Record<Level, number> = {
-  percept: 0,
-  axiom: 0,
-  principle: 1,
-  application: 2,
-};
+export type Level = string;
 
 /**
- * Maps each level to its filesystem folder name.
- * Folders are number-prefixed to enforce visual ordering in file browsers.
+ * A status name. The built-in statuses are Integrated/Validated and
+ * Tentative/Hypothesis; a vault may declare its own in lattice.config.json.
  */
-export const LEVEL_FOLDERS: Record<Level, string> = {
-  axiom: "01-Axioms",
-  percept: "02-Percepts",
-  principle: "03-Principles",
-  application: "04-Applications",
-};
-
-/** All folder names that constitute the vault level structure. */
-export const ALL_LEVEL_FOLDERS = Object.values(LEVEL_FOLDERS);
-
-export const STATUSES = [
-  "Integrated/Validated",
-  "Tentative/Hypothesis",
-] as const;
-export type Status = (typeof STATUSES)[number];
+export type Status = string;
 
 /**
  * Default master tag list for a rational adult or AI agent.
@@ -90,6 +51,33 @@ export const MAX_SLUG_LENGTH = 60;
 /** Name of the machine-readable tag master list file in the vault root. */
 export const TAGS_JSON_FILE = "tags.json";
 
+/** Name of the vault settings file in the vault root. */
+export const CONFIG_JSON_FILE = "lattice.config.json";
+
+/** YAML alternatives to CONFIG_JSON_FILE, read when it is absent. */
+export const CONFIG_YAML_FILES = ["lattice.config.yaml", "lattice.config.yml"];
+
+/**
+ * Trash folder name. Merged, undone and deleted nodes are moved here
+ * (in subfolders) instead of being unlinked, so they stay auditable.
+ */
+export const TRASH_FOLDER = "99-Trash";
+
+/** Trash subfolder for nodes removed by `delete` (restorable). */
+export const DELETED_FOLDER = "Deleted";
+
+/** Trash subfolder for nodes replaced by their parts in `split`. */
+export const SPLIT_FOLDER = "Split";
+
+/** Trash subfolder for the parts removed by `split --undo`. */
+export const UNDONE_SPLITS_FOLDER = "Undone-Splits";
+
+/**
+ * Hidden folder holding per-node revision logs (one JSONL file per slug).
+ * Dot-prefixed so Obsidian and the level-folder scan both ignore it.
+ */
+export const HISTORY_FOLDER = ".history";
+
 /** Templates folder name. */
 export const TEMPLATES_FOLDER = "Templates";
 
@@ -99,6 +87,53 @@ export const NODE_TEMPLATE_FILE = "New-Node.md";
 /** Sentinel file that marks a directory as an initialized lattice vault. */
 export const VAULT_MARKER = ".lattice";
 
+/**
+ * Advisory write lock, next to the marker. Held by every mutating
+ * command for its whole run so two writers never interleave.
+ */
+export const LOCK_FILE = ".lattice.lock";
+
+/** Commit journal of an in-flight multi-file transaction. */
+export const TXN_JOURNAL_FILE = ".lattice.txn";
+
+/**
+ * Parsed-node cache in the vault root. Derived data: safe to delete at
+ * any time, and rebuilt by the next command that loads the lattice.
+ */
+export const INDEX_FILE = ".lattice.index.json";
+
+/**
+ * Cached node embeddings in the vault root, keyed by slug and content
+ * hash. Derived data like INDEX_FILE: safe to delete.
+ */
+export const EMBEDDINGS_FILE = ".lattice.embeddings.json";
+
+/** How long a command waits for another writer's lock before giving up. */
+export const LOCK_WAIT_MS = 10_000;
+
+/**
+ * Age after which a lock held from ANOTHER host is considered abandoned
+ * and may be taken over. Locks from this host are judged by whether
+ * their pid is alive instead, so a long-running local writer keeps its lock.
+ */
+export const LOCK_STALE_MS = 60_000;
+
+/** Default port for `lattice serve --http`. */
+export const DEFAULT_HTTP_PORT = 4747;
+
+/** Environment variable holding the bearer token for `serve --http`. */
+export const API_TOKEN_ENV = "LATTICE_API_TOKEN";
+
+/**
+ * Environment variable that must be "1" before the `command` embeddings
+ * provider runs. The command comes from the vault's config file, and a
+ * cloned or shared vault must not be able to run shell commands on its own.
+ */
+export const ALLOW_EMBED_COMMAND_ENV = "LATTICE_ALLOW_EMBED_COMMAND";
+
+/** How long one call to an embeddings command may take before it is killed. */
+export const EMBED_COMMAND_TIMEOUT_MS = 120_000;
+
 /** Exit codes for the CLI. */
 export const EXIT = {
   SUCCESS: 0,
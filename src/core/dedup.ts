@@ -0,0 +1,457 @@
+import { type Level, type Status } from "./constants.js";
+import { levelNames } from "./levels.js";
+import type { LatticeNode } from "./node.js";
+import { buildIncomingLinks } from "./graph.js";
+import { textTerms } from "./search.js";
+import { trashKind } from "./trash.js";
+
+/**
+ * Nodes at one level to review for duplicates: created after `after`,
+ * newest first, at most `max`.
+ */
+export function selectDedupCandidates(
+  nodes: Map<string, LatticeNode>,
+  level: Level,
+  after: Date,
+  max: number,
+): LatticeNode[] {
+  return Array.from(nodes.values())
+    .filter((n) => n.level === level && n.created > after)
+    .sort((a, b) => b.created.getTime() - a.created.getTime())
+    .slice(0, max);
+}
+
+/**
+ * Generate a unique deduplication group ID in format DG-YYYYMMDDHHMM-XXX
+ */
+export function generateGroupId(): string {
+  const now = new Date();
+  const timestamp = [
+    now.getFullYear().toString(),
+    (now.getMonth() + 1).toString().padStart(2, "0"),
+    now.getDate().toString().padStart(2, "0"),
+    now.getHours().toString().padStart(2, "0"),
+    now.getMinutes().toString().padStart(2, "0"),
+  ].join("");
+  const random = Math.floor(Math.random() * 1000).toString().padStart(3, "0");
+  return `DG-${timestamp}-${random}`;
+}
+
+/** When a group was created, from the timestamp in its ID; null if malformed. */
+export function groupIdDate(id: string): Date | null {
+  const match = /^DG-(\d{4})(\d{2})(\d{2})(\d{2})(\d{2})-\d+$/.exec(id);
+  if (!match) return null;
+  const [, y, mo, d, h, mi] = match.map(Number);
+  return new Date(y, mo - 1, d, h, mi);
+}
+
+// ─── Open groups and merge history ───────────────────────────────────
+
+/** A deduplication group that has not been merged or removed yet. */
+export interface DedupGroup {
+  id: string;
+  level: Level;
+  /** From the ID's timestamp; null if the ID is not DG-YYYYMMDDHHMM-XXX. */
+  created: string | null;
+  age_days: number | null;
+  nodes: Array<{ slug: string; title: string; status: Status }>;
+}
+
+/** Every open group among live nodes, oldest first. */
+export function listDedupGroups(
+  nodes: Map<string, LatticeNode>,
+  now: Date = new Date(),
+): DedupGroup[] {
+  const members = new Map<string, LatticeNode[]>();
+  for (const node of nodes.values()) {
+    if (!node.deduplication_group) continue;
+    const list = members.get(node.deduplication_group);
+    if (list) list.push(node);
+    else members.set(node.deduplication_group, [node]);
+  }
+
+  return Array.from(members, ([id, list]) => {
+    const created = groupIdDate(id);
+    return {
+      id,
+      level: list[0].level,
+      created: created?.toISOString() ?? null,
+      age_days: created ? Math.floor((now.getTime() - created.getTime()) / 86_400_000) : null,
+      nodes: list
+        .sort((a, b) => a.created.getTime() - b.created.getTime())
+        .map((n) => ({ slug: n.slug, title: n.title, status: n.status })),
+    };
+  }).sort((a, b) => (a.created ?? "").localeCompare(b.created ?? "") || a.id.localeCompare(b.id));
+}
+
+/** One dedup merge, from its canonical node's metadata. */
+export interface MergeRecord {
+  canonical: string;
+  title: string;
+  level: Level;
+  merged_date: string | null;
+  merged_reason: string | null;
+  group: string | null;
+  /** "undone" once `dedup undo` reversed it; the canonical node is then in Undone-Merges/. */
+  state: "active" | "undone";
+  undo_reason: string | null;
+  originals: Array<{
+    slug: string;
+    title: string;
+    original_status: Status;
+    trashed_path: string;
+    /** Whether the original is still in 99-Trash/ (false once restored). */
+    in_trash: boolean;
+  }>;
+}
+
+/**
+ * Every merge recorded in the vault, newest first: live canonical nodes
+ * and undone ones in 99-Trash/Undone-Merges/.
+ */
+export function listMerges(
+  vaultPath: string,
+  nodes: Map<string, LatticeNode>,
+  trashed: LatticeNode[],
+): MergeRecord[] {
+  const trashedByPath = new Map(
+    trashed.filter((n) => trashKind(vaultPath, n) === "merged").map((n) => [n.filePath, n]),
+  );
+  const canonicals = [
+    ...Array.from(nodes.values()),
+    ...trashed.filter((n) => trashKind(vaultPath, n) === "undone_merge"),
+  ].filter((n) => n.merged_from && n.merged_from.length > 0);
+
+  return canonicals
+    .map((node): MergeRecord => ({
+      canonical: node.slug,
+      title: node.title,
+      level: node.level,
+      merged_date: node.merged_date ?? null,
+      merged_reason: node.merged_reason ?? null,
+      group: node.merged_group_id ?? null,
+      state: node.undone_merge ? "undone" : "active",
+      undo_reason: node.undone_merge?.reason ?? null,
+      originals: node.merged_from!.map((entry) => {
+        // The same file may since have been merged again, into another node
+        const trashedOriginal = trashedByPath.get(entry.trashed_path);
+        const original = trashedOriginal?.merged_into === node.slug ? trashedOriginal : undefined;
+        return {
+          slug: entry.id,
+          title: original?.title ?? nodes.get(entry.id)?.title ?? "",
+          original_status: entry.original_status,
+          trashed_path: entry.trashed_path,
+          in_trash: original !== undefined,
+        };
+      }),
+    }))
+    .sort((a, b) => (b.merged_date ?? "").localeCompare(a.merged_date ?? ""));
+}
+
+// ─── Local scoring ───────────────────────────────────────────────────
+
+/**
+ * How much each signal counts in a pair's score. A signal that is absent
+ * on both nodes (no parents, no tags) is left out and the rest reweighted,
+ * so two axioms are not penalized for having nothing to reduce to.
+ */
+const SIGNAL_WEIGHTS = { text: 0.4, title: 0.3, parents: 0.2, tags: 0.1 };
+
+/** Per-signal similarities of a pair, each 0–1; null if absent on both. */
+export interface DuplicateSignals {
+  /** Jaccard overlap of title + proposition terms (search tokenizer). */
+  text: number;
+  /** 1 − edit distance / length of the longer title, case-insensitive. */
+  title: number;
+  /** Jaccard overlap of reduces_to. */
+  parents: number | null;
+  /** Jaccard overlap of tags. */
+  tags: number | null;
+}
+
+export interface DuplicatePair {
+  a: string;
+  b: string;
+  /** Weighted mean of the signals, rounded to 3 decimals. */
+  score: number;
+  signals: DuplicateSignals;
+}
+
+/** Nodes connected by pairs at or above the threshold. */
+export interface DuplicateCluster {
+  /** Members, in candidate order. */
+  slugs: string[];
+  /** Highest pair score in the cluster. */
+  score: number;
+  pairs: DuplicatePair[];
+}
+
+/** Precomputed per-node features, so each pair costs set lookups. */
+interface Features {
+  node: LatticeNode;
+  terms: Set<string>;
+  title: string;
+}
+
+function features(node: LatticeNode): Features {
+  return {
+    node,
+    terms: new Set(textTerms(`${node.title}\n${node.proposition}`)),
+    title: node.title.toLowerCase().replace(/\s+/g, " ").trim(),
+  };
+}
+
+/** Score one pair of nodes. Deterministic: no randomness, no model. */
+export function scoreDuplicatePair(a: LatticeNode, b: LatticeNode): DuplicatePair {
+  return scorePair(features(a), features(b), 0)!;
+}
+
+/**
+ * Score a pair, or return null early when even identical titles could
+ * not lift it to `threshold` (the edit distance is the costly signal).
+ */
+function scorePair(a: Features, b: Features, threshold: number): DuplicatePair | null {
+  const text = jaccard(a.terms, b.terms);
+  const parents = a.node.reduces_to.length + b.node.reduces_to.length > 0
+    ? jaccard(new Set(a.node.reduces_to), new Set(b.node.reduces_to))
+    : null;
+  const tags = a.node.tags.length + b.node.tags.length > 0
+    ? jaccard(new Set(a.node.tags), new Set(b.node.tags))
+    : null;
+
+  let weight = SIGNAL_WEIGHTS.text + SIGNAL_WEIGHTS.title;
+  let sum = SIGNAL_WEIGHTS.text * text;
+  if (parents !== null) {
+    weight += SIGNAL_WEIGHTS.parents;
+    sum += SIGNAL_WEIGHTS.parents * parents;
+  }
+  if (tags !== null) {
+    weight += SIGNAL_WEIGHTS.tags;
+    sum += SIGNAL_WEIGHTS.tags * tags;
+  }
+  if ((sum + SIGNAL_WEIGHTS.title) / weight < threshold) return null;
+
+  const longer = Math.max(a.title.length, b.title.length);
+  const title = longer === 0 ? 1 : 1 - editDistance(a.title, b.title) / longer;
+  sum += SIGNAL_WEIGHTS.title * title;
+
+  const round = (x: number) => Math.round(x * 1000) / 1000;
+  return {
+    a: a.node.slug,
+    b: b.node.slug,
+    score: round(sum / weight),
+    signals: {
+      text: round(text),
+      title: round(title),
+      parents: parents === null ? null : round(parents),
+      tags: tags === null ? null : round(tags),
+    },
+  };
+}
+
+/**
+ * Score every pair of `candidates` and group those scoring at least
+ * `threshold` into clusters (connected components), highest score first.
+ */
+export function findDuplicateClusters(
+  candidates: LatticeNode[],
+  threshold: number,
+): DuplicateCluster[] {
+  const all = candidates.map(features);
+  const parent = new Map<string, string>();
+  const root = (slug: string): string => {
+    let r = slug;
+    while (parent.get(r) !== r) r = parent.get(r)!;
+    parent.set(slug, r);
+    return r;
+  };
+  for (const node of candidates) parent.set(node.slug, node.slug);
+
+  const pairs: DuplicatePair[] = [];
+  for (let i = 0; i < all.length; i++) {
+    for (let j = i + 1; j < all.length; j++) {
+      const pair = scorePair(all[i], all[j], threshold);
+      if (!pair || pair.score < threshold) continue;
+      pairs.push(pair);
+      parent.set(root(pair.a), root(pair.b));
+    }
+  }
+
+  const clusters = new Map<string, DuplicateCluster>();
+  for (const node of candidates) {
+    const r = root(node.slug);
+    let cluster = clusters.get(r);
+    if (!cluster) clusters.set(r, (cluster = { slugs: [], score: 0, pairs: [] }));
+    cluster.slugs.push(node.slug);
+  }
+  for (const pair of pairs) {
+    const cluster = clusters.get(root(pair.a))!;
+    cluster.pairs.push(pair);
+    cluster.score = Math.max(cluster.score, pair.score);
+  }
+
+  return Array.from(clusters.values())
+    .filter((c) => c.slugs.length > 1)
+    .map((c) => ({ ...c, pairs: c.pairs.sort((x, y) => y.score - x.score) }))
+    .sort((x, y) => y.score - x.score || x.slugs[0].localeCompare(y.slugs[0]));
+}
+
+// ─── Structural duplicates ───────────────────────────────────────────
+
+/** Which neighbours two nodes are compared by. */
+export type StructuralBasis = "parents" | "dependents";
+
+export const STRUCTURAL_BASES: StructuralBasis[] = ["parents", "dependents"];
+
+export interface StructuralPair {
+  a: string;
+  b: string;
+  /** Jaccard overlap of the two neighbour sets, rounded to 3 decimals. */
+  overlap: number;
+}
+
+/** Same-level nodes connected by pairs of heavily overlapping neighbour sets. */
+export interface StructuralCluster {
+  basis: StructuralBasis;
+  level: Level;
+  /** Highest pair overlap in the cluster. */
+  score: number;
+  /** Whether every member has exactly the same neighbour set. */
+  identical: boolean;
+  slugs: string[];
+  /** Neighbours common to every member. */
+  shared: string[];
+  pairs: StructuralPair[];
+}
+
+export interface StructuralFilter {
+  /** Only this level. Default: every level. */
+  level?: Level;
+  /** Only this basis. Default: both. */
+  basis?: StructuralBasis;
+  /** Minimum Jaccard overlap of a pair, 0–1. */
+  minOverlap: number;
+  /** Minimum neighbours a pair must share. */
+  minShared: number;
+}
+
+/**
+ * Nodes at the same level whose parent sets (reduces_to), or dependent
+ * sets (nodes reducing to them), are identical or overlap by at least
+ * `minOverlap`, clustered and sorted by score. Nodes with no neighbours on
+ * a side are not compared on it.
+ */
+export function findStructuralDuplicates(
+  nodes: Map<string, LatticeNode>,
+  filter: StructuralFilter,
+): StructuralCluster[] {
+  const incoming = buildIncomingLinks(nodes);
+  const neighbours: Record<StructuralBasis, (node: LatticeNode) => string[]> = {
+    parents: (node) => node.reduces_to,
+    dependents: (node) => incoming.get(node.slug) ?? [],
+  };
+
+  const clusters: StructuralCluster[] = [];
+  for (const basis of filter.basis ? [filter.basis] : STRUCTURAL_BASES) {
+    for (const level of filter.level ? [filter.level] : levelNames()) {
+      const sets = new Map<string, Set<string>>();
+      for (const node of nodes.values()) {
+        if (node.level !== level) continue;
+        const set = new Set(neighbours[basis](node));
+        if (set.size > 0) sets.set(node.slug, set);
+      }
+      clusters.push(...clusterBySets(sets, filter).map((c) => ({ basis, level, ...c })));
+    }
+  }
+  return clusters.sort(
+    (x, y) => y.score - x.score || y.slugs.length - x.slugs.length || x.slugs[0].localeCompare(y.slugs[0]),
+  );
+}
+
+function clusterBySets(
+  sets: Map<string, Set<string>>,
+  filter: StructuralFilter,
+): Array<Omit<StructuralCluster, "basis" | "level">> {
+  // Only pairs sharing a neighbour can overlap: find them through an
+  // inverted index instead of comparing every pair
+  const holders = new Map<string, string[]>();
+  for (const [slug, set] of sets) {
+    for (const neighbour of set) {
+      const list = holders.get(neighbour);
+      if (list) list.push(slug);
+      else holders.set(neighbour, [slug]);
+    }
+  }
+  const sharedCounts = new Map<string, Map<string, number>>();
+  for (const list of holders.values()) {
+    for (let i = 0; i < list.length; i++) {
+      for (let j = i + 1; j < list.length; j++) {
+        const [a, b] = list[i] < list[j] ? [list[i], list[j]] : [list[j], list[i]];
+        let counts = sharedCounts.get(a);
+        if (!counts) sharedCounts.set(a, (counts = new Map()));
+        counts.set(b, (counts.get(b) ?? 0) + 1);
+      }
+    }
+  }
+
+  const parent = new Map<string, string>();
+  const root = (slug: string): string => {
+    let r = slug;
+    while (parent.get(r) !== r) r = parent.get(r)!;
+    parent.set(slug, r);
+    return r;
+  };
+  for (const slug of sets.keys()) parent.set(slug, slug);
+
+  const pairs: StructuralPair[] = [];
+  for (const [a, counts] of sharedCounts) {
+    for (const [b, shared] of counts) {
+      if (shared < filter.minShared) continue;
+      const overlap = shared / (sets.get(a)!.size + sets.get(b)!.size - shared);
+      if (overlap < filter.minOverlap) continue;
+      pairs.push({ a, b, overlap: Math.round(overlap * 1000) / 1000 });
+      parent.set(root(a), root(b));
+    }
+  }
+
+  const byRoot = new Map<string, Omit<StructuralCluster, "basis" | "level">>();
+  for (const pair of pairs) {
+    const r = root(pair.a);
+    let cluster = byRoot.get(r);
+    if (!cluster) byRoot.set(r, (cluster = { score: 0, identical: true, slugs: [], shared: [], pairs: [] }));
+    cluster.pairs.push(pair);
+    cluster.score = Math.max(cluster.score, pair.overlap);
+  }
+  for (const cluster of byRoot.values()) {
+    cluster.slugs = [...new Set(cluster.pairs.flatMap((p) => [p.a, p.b]))].sort();
+    const memberSets = cluster.slugs.map((slug) => sets.get(slug)!);
+    cluster.shared = [...memberSets[0]].filter((n) => memberSets.every((set) => set.has(n))).sort();
+    cluster.identical = memberSets.every((set) => set.size === cluster.shared.length);
+    cluster.pairs.sort((x, y) => y.overlap - x.overlap || x.a.localeCompare(y.a));
+  }
+  return Array.from(byRoot.values());
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 && b.size === 0) return 0;
+  let shared = 0;
+  for (const x of a) if (b.has(x)) shared++;
+  return shared / (a.size + b.size - shared);
+}
+
+/** Levenshtein distance, one row at a time. */
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
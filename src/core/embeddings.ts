@@ -0,0 +1,363 @@
+import { spawn } from "node:child_process";
+import { createHash } from "node:crypto";
+import { readFile, rename, unlink, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import {
+  ALLOW_EMBED_COMMAND_ENV,
+  EMBED_COMMAND_TIMEOUT_MS,
+  EMBEDDINGS_FILE,
+} from "./constants.js";
+import type { EmbeddingsConfig } from "./config.js";
+import type { LatticeNode } from "./node.js";
+import type { EntryPoints } from "./graph.js";
+import { textTerms } from "./search.js";
+import { EmbeddingError } from "../util/errors.js";
+
+/**
+ * Node embeddings for semantic similarity: `dedup candidates --similarity`
+ * and `query related --seed semantic`.
+ *
+ * A provider turns texts into vectors. Vectors of nodes are cached in
+ * EMBEDDINGS_FILE keyed by slug and a hash of the embedded text, so only
+ * new and edited nodes are sent to the provider. The cache is discarded
+ * when the provider id changes. Vectors are L2-normalized on the way in,
+ * so cosine similarity is a dot product.
+ */
+
+/** Turns texts into vectors. Implement this to plug in any model. */
+export interface EmbeddingProvider {
+  /**
+   * Identifies the model in the cache. Vectors from different ids are
+   * never compared; change it whenever the model changes.
+   */
+  readonly id: string;
+  /** One vector per text, in order, all the same length. */
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+/** Cache file format version. */
+const CACHE_VERSION = 1;
+
+/** Texts sent to a provider per call. */
+const EMBED_BATCH = 64;
+
+/** Vector length of the built-in hashed provider. */
+const HASHED_DIMENSIONS = 512;
+
+/** Weight of a word pair relative to a single word in hashed vectors. */
+const PAIR_WEIGHT = 0.5;
+
+/** Seeds taken from the nearest nodes for a semantic related-nodes walk. */
+const SEMANTIC_SEEDS = 5;
+
+// ─── Providers ───────────────────────────────────────────────────────
+
+/**
+ * Built-in offline provider. Each word and adjacent word pair (after the
+ * search tokenizer: lowercase, stemmed, no stopwords) is hashed to one of
+ * HASHED_DIMENSIONS signed buckets, weighted by 1 + log(count). Catches
+ * rewordings that share vocabulary; does not know synonyms.
+ */
+export function hashedProvider(): EmbeddingProvider {
+  return {
+    id: `hashed-v1-${HASHED_DIMENSIONS}`,
+    embed: async (texts) => texts.map(hashedVector),
+  };
+}
+
+function hashedVector(text: string): number[] {
+  const terms = textTerms(text);
+  const counts = new Map<string, number>();
+  terms.forEach((term, i) => {
+    counts.set(term, (counts.get(term) ?? 0) + 1);
+    if (i > 0) {
+      const pair = `${terms[i - 1]} ${term}`;
+      counts.set(pair, (counts.get(pair) ?? 0) + PAIR_WEIGHT);
+    }
+  });
+
+  const vector = new Array<number>(HASHED_DIMENSIONS).fill(0);
+  for (const [feature, count] of counts) {
+    const hash = createHash("md5").update(feature).digest().readUInt32LE(0);
+    const sign = hash & 0x80000000 ? -1 : 1;
+    vector[hash % HASHED_DIMENSIONS] += sign * (1 + Math.log(count));
+  }
+  return vector;
+}
+
+/**
+ * External provider: runs `command` through the shell once per batch,
+ * writes a JSON array of texts to its stdin and reads a JSON array of
+ * vectors from its stdout. Any local model can be wrapped this way.
+ * A call that takes longer than `timeoutMs` is killed and fails.
+ */
+export function commandProvider(
+  command: string,
+  model?: string,
+  timeoutMs: number = EMBED_COMMAND_TIMEOUT_MS,
+): EmbeddingProvider {
+  const id = `command:${model ?? command}`;
+  return {
+    id,
+    embed: (texts) =>
+      new Promise((resolve, reject) => {
+        // Own process group, so a timeout kills the shell and what it started
+        const child = spawn(command, {
+          shell: true,
+          detached: process.platform !== "win32",
+          stdio: ["pipe", "pipe", "pipe"],
+        });
+        let stdout = "";
+        let stderr = "";
+        let timedOut = false;
+        const timer = setTimeout(() => {
+          timedOut = true;
+          try {
+            if (process.platform !== "win32" && child.pid) process.kill(-child.pid, "SIGKILL");
+            else child.kill("SIGKILL");
+          } catch {
+            // Already gone
+          }
+          reject(new EmbeddingError(id, `no answer within ${timeoutMs / 1000}s; the command was killed`));
+        }, timeoutMs);
+        child.stdout.on("data", (chunk: Buffer) => (stdout += chunk));
+        child.stderr.on("data", (chunk: Buffer) => (stderr += chunk));
+        child.on("error", (err) => {
+          clearTimeout(timer);
+          reject(new EmbeddingError(id, err.message));
+        });
+        child.on("close", (code) => {
+          clearTimeout(timer);
+          if (timedOut) return;
+          if (code !== 0) {
+            const detail = stderr.trim().split("\n").pop() || `exit code ${code}`;
+            reject(new EmbeddingError(id, detail));
+            return;
+          }
+          try {
+            resolve(JSON.parse(stdout) as number[][]);
+          } catch {
+            reject(new EmbeddingError(id, "stdout is not a JSON array of vectors"));
+          }
+        });
+        // A command that exits without reading stdin is reported by "close"
+        child.stdin.on("error", () => undefined);
+        child.stdin.end(JSON.stringify(texts));
+      }),
+  };
+}
+
+/**
+ * The provider a vault's lattice.config.json selects. The command
+ * provider runs a shell command named by the vault itself, so it is
+ * refused unless the user opted in with ALLOW_EMBED_COMMAND_ENV=1.
+ */
+export function providerFromConfig(config: EmbeddingsConfig): EmbeddingProvider {
+  switch (config.provider) {
+    case "hashed":
+      return hashedProvider();
+    case "command":
+      if (process.env[ALLOW_EMBED_COMMAND_ENV] !== "1") {
+        throw new EmbeddingError(
+          `command:${config.model ?? config.command}`,
+          `the vault config asks to run '${config.command}'. Set ${ALLOW_EMBED_COMMAND_ENV}=1 to allow embedding commands from lattice.config.json`,
+        );
+      }
+      return commandProvider(config.command, config.model);
+  }
+}
+
+// ─── Node vectors ────────────────────────────────────────────────────
+
+interface CacheEntry {
+  /** Hash of the embedded text; a mismatch means the node was edited. */
+  hash: string;
+  /** Normalized vector as base64 of a little-endian Float32Array. */
+  vector: string;
+}
+
+interface CacheFile {
+  version: number;
+  provider: string;
+  vectors: Record<string, CacheEntry>;
+}
+
+/** The text a node is embedded from. */
+function embeddingText(node: LatticeNode): string {
+  return `${node.title}\n\n${node.proposition}`;
+}
+
+/**
+ * Normalized vectors of `subject` nodes (default: all), embedding only
+ * those missing from the cache or edited since. The cache is updated, and
+ * entries for slugs no longer in `nodes` are dropped.
+ */
+export async function embedNodes(
+  vaultPath: string,
+  nodes: Map<string, LatticeNode>,
+  provider: EmbeddingProvider,
+  subject: LatticeNode[] = Array.from(nodes.values()),
+): Promise<Map<string, Float32Array>> {
+  const cache = await readCache(vaultPath, provider.id);
+  const vectors = new Map<string, Float32Array>();
+  const pending: Array<{ slug: string; text: string; hash: string }> = [];
+
+  for (const node of subject) {
+    const text = embeddingText(node);
+    const hash = createHash("sha1").update(text).digest("hex").slice(0, 16);
+    const entry = cache.vectors[node.slug];
+    if (entry?.hash === hash) {
+      vectors.set(node.slug, decodeVector(entry.vector));
+    } else {
+      pending.push({ slug: node.slug, text, hash });
+    }
+  }
+
+  let dimensions = vectors.values().next().value?.length;
+  for (let i = 0; i < pending.length; i += EMBED_BATCH) {
+    const batch = pending.slice(i, i + EMBED_BATCH);
+    const embedded = await provider.embed(batch.map((p) => p.text));
+    if (!Array.isArray(embedded) || embedded.length !== batch.length) {
+      throw new EmbeddingError(provider.id, `expected ${batch.length} vectors`);
+    }
+    batch.forEach(({ slug, hash }, j) => {
+      const vector = normalize(embedded[j], provider.id);
+      dimensions ??= vector.length;
+      if (vector.length !== dimensions) {
+        throw new EmbeddingError(
+          provider.id,
+          `vector length ${vector.length} differs from ${dimensions}`,
+        );
+      }
+      vectors.set(slug, vector);
+      cache.vectors[slug] = { hash, vector: encodeVector(vector) };
+    });
+  }
+
+  const stale = Object.keys(cache.vectors).filter((slug) => !nodes.has(slug));
+  for (const slug of stale) delete cache.vectors[slug];
+  if (pending.length > 0 || stale.length > 0) await writeCache(vaultPath, cache);
+
+  return vectors;
+}
+
+/** A query text as a normalized vector from the same provider. */
+export async function embedQuery(
+  provider: EmbeddingProvider,
+  text: string,
+): Promise<Float32Array> {
+  const [vector] = await provider.embed([text]);
+  if (!vector) throw new EmbeddingError(provider.id, "expected 1 vector");
+  return normalize(vector, provider.id);
+}
+
+/** Cosine similarity of two normalized vectors. */
+export function cosine(a: Float32Array, b: Float32Array): number {
+  let dot = 0;
+  for (let i = 0; i < a.length; i++) dot += a[i] * b[i];
+  return dot;
+}
+
+// ─── Similarity ──────────────────────────────────────────────────────
+
+/** Two nodes whose embeddings are at least as similar as a threshold. */
+export interface SimilarPair {
+  a: string;
+  b: string;
+  /** Cosine similarity, rounded to 3 decimals. */
+  similarity: number;
+}
+
+/** Every pair with similarity ≥ threshold, most similar first. */
+export function findSimilarPairs(
+  vectors: Map<string, Float32Array>,
+  threshold: number,
+): SimilarPair[] {
+  const entries = Array.from(vectors);
+  const pairs: SimilarPair[] = [];
+  for (let i = 0; i < entries.length; i++) {
+    for (let j = i + 1; j < entries.length; j++) {
+      const similarity = cosine(entries[i][1], entries[j][1]);
+      if (similarity >= threshold) {
+        pairs.push({
+          a: entries[i][0],
+          b: entries[j][0],
+          similarity: Math.round(similarity * 1000) / 1000,
+        });
+      }
+    }
+  }
+  return pairs.sort((x, y) => y.similarity - x.similarity);
+}
+
+/**
+ * Entry points for findRelatedNodes: the nodes whose embeddings are
+ * nearest the query's. Returns no slugs if none is similar at all.
+ */
+export async function findSemanticEntryPoints(
+  vaultPath: string,
+  query: string,
+  nodes: Map<string, LatticeNode>,
+  provider: EmbeddingProvider,
+): Promise<EntryPoints> {
+  const vectors = await embedNodes(vaultPath, nodes, provider);
+  const target = await embedQuery(provider, query);
+  const nearest = Array.from(vectors)
+    .map(([slug, vector]) => ({ slug, similarity: cosine(target, vector) }))
+    .filter((n) => n.similarity > 0)
+    .sort((x, y) => y.similarity - x.similarity)
+    .slice(0, SEMANTIC_SEEDS);
+  if (nearest.length === 0) return { slugs: [], method: "" };
+  return {
+    slugs: nearest.map((n) => n.slug),
+    method: `semantic: "${query}" (${nearest.length} seeds, ${provider.id})`,
+  };
+}
+
+// ─── Helpers ─────────────────────────────────────────────────────────
+
+function normalize(vector: unknown, providerId: string): Float32Array {
+  if (!Array.isArray(vector) || vector.length === 0 || !vector.every(Number.isFinite)) {
+    throw new EmbeddingError(providerId, "vectors must be non-empty arrays of numbers");
+  }
+  const result = Float32Array.from(vector as number[]);
+  let sum = 0;
+  for (const x of result) sum += x * x;
+  const norm = Math.sqrt(sum);
+  if (norm > 0) for (let i = 0; i < result.length; i++) result[i] /= norm;
+  return result;
+}
+
+function encodeVector(vector: Float32Array): string {
+  return Buffer.from(vector.buffer, vector.byteOffset, vector.byteLength).toString("base64");
+}
+
+function decodeVector(encoded: string): Float32Array {
+  const bytes = Buffer.from(encoded, "base64");
+  return new Float32Array(bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength));
+}
+
+/** The cache for `providerId`; empty if missing, unreadable or another provider's. */
+async function readCache(vaultPath: string, providerId: string): Promise<CacheFile> {
+  const empty = { version: CACHE_VERSION, provider: providerId, vectors: {} };
+  try {
+    const cache = JSON.parse(await readFile(join(vaultPath, EMBEDDINGS_FILE), "utf-8")) as CacheFile;
+    return cache.version === CACHE_VERSION && cache.provider === providerId && cache.vectors
+      ? cache
+      : empty;
+  } catch {
+    return empty;
+  }
+}
+
+/** Replace the cache atomically. Failures are ignored, as for the node index. */
+async function writeCache(vaultPath: string, cache: CacheFile): Promise<void> {
+  const target = join(vaultPath, EMBEDDINGS_FILE);
+  const temp = `${target}.${process.pid}.tmp`;
+  try {
+    await writeFile(temp, JSON.stringify(cache), "utf-8");
+    await rename(temp, target);
+  } catch {
+    await unlink(temp).catch(() => undefined);
+  }
+}
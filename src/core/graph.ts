@@ -1,5 +1,8 @@
-import { LEVEL_RANK, type Level } from "./constants.js";
-import type { LatticeNode } from "./node.js";
+import { type Level } from "./constants.js";
+import { isBedrock, levelRank, topRank } from "./levels.js";
+import { isGrounded, isOpen } from "./statuses.js";
+import { findNodeBySlug, type LatticeNode } from "./node.js";
+import { searchEntryPoints } from "./search.js";
 import {
   CycleDetectedError,
   LevelMismatchError,
@@ -37,19 +40,64 @@ export interface ValidationIssue {
  * Check that a reduction link respects level ordering.
  * A node at rank R can only reduce to nodes at rank < R.
  *
- * Axioms and percepts share rank 0. Neither can reduce to the other —
- * both are irreducible bedrock. Principles (rank 1) reduce to axioms
- * or percepts. Applications (rank 2) reduce to principles or bedrock.
+ * With the built-in levels, axioms and percepts share rank 0. Neither can
+ * reduce to the other — both are irreducible bedrock. Principles (rank 1)
+ * reduce to axioms or percepts. Applications (rank 2) reduce to
+ * principles or bedrock.
  */
 export function validateLevelOrder(
   sourceLevel: Level,
   targetLevel: Level,
 ): void {
-  if (LEVEL_RANK[sourceLevel] <= LEVEL_RANK[targetLevel]) {
+  if (levelRank(sourceLevel) <= levelRank(targetLevel)) {
     throw new LevelMismatchError(sourceLevel, targetLevel);
   }
 }
 
+/** A reduction edge (child reduces_to parent) that breaks level ordering. */
+export interface LevelMismatchEdge {
+  from: string;
+  to: string;
+  message: string;
+}
+
+/**
+ * Re-check level ordering for every edge touching a node as if it were at
+ * `newLevel`: its own reduces_to (outgoing) and every node that reduces to
+ * it (incoming). Runs validateLevelOrder on each edge and collects the
+ * failures instead of throwing on the first one.
+ */
+export function findLevelMismatchesAt(
+  slug: string,
+  newLevel: Level,
+  reducesTo: string[],
+  nodes: Map<string, LatticeNode>,
+  incomingLinks: Map<string, string[]>,
+): LevelMismatchEdge[] {
+  const mismatches: LevelMismatchEdge[] = [];
+
+  const check = (from: string, fromLevel: Level, to: string, toLevel: Level) => {
+    try {
+      validateLevelOrder(fromLevel, toLevel);
+    } catch (err) {
+      if (!(err instanceof LevelMismatchError)) throw err;
+      mismatches.push({ from, to, message: err.message });
+    }
+  };
+
+  for (const target of reducesTo) {
+    const parent = nodes.get(target);
+    if (parent) check(slug, newLevel, target, parent.level);
+  }
+
+  for (const childSlug of incomingLinks.get(slug) ?? []) {
+    const child = nodes.get(childSlug);
+    if (child) check(childSlug, child.level, slug, newLevel);
+  }
+
+  return mismatches;
+}
+
 // ─── Cycle detection ─────────────────────────────────────────────────
 
 /**
@@ -127,7 +175,8 @@ export function validateReductionLinks(
 
 /**
  * Validate that all direct parents (reduces_to targets) of a node are
- * Integrated/Validated before the node itself can be promoted.
+ * grounded (Integrated/Validated by default) before the node itself can
+ * enter a grounded status.
  * Throws UnvalidatedParentError on the first unvalidated parent found.
  *
  * Only checks direct parents — the caller is responsible for ensuring
@@ -141,8 +190,8 @@ export function validateParentsAreValidated(
     const parent = nodes.get(parentSlug);
     // Missing parents are caught by validateReductionLinks; skip here
     if (!parent) continue;
-    if (parent.status === "Tentative/Hypothesis") {
-      throw new UnvalidatedParentError(parentSlug);
+    if (!isGrounded(parent.status)) {
+      throw new UnvalidatedParentError(parentSlug, parent.status);
     }
   }
 }
@@ -244,6 +293,68 @@ export function buildIncomingLinks(
   return incoming;
 }
 
+/** A node in the dependent subtree of another, with its distance from it. */
+export interface DependentNode {
+  slug: string;
+  /** 1 = reduces directly to the root, 2 = to a direct dependent, ... */
+  depth: number;
+}
+
+/**
+ * Collect every node that transitively reduces to `slug`, breadth-first,
+ * each listed once at its shortest distance. The root is not included.
+ */
+export function collectDependents(
+  slug: string,
+  incoming: Map<string, string[]>,
+): DependentNode[] {
+  const result: DependentNode[] = [];
+  const seen = new Set<string>([slug]);
+  let frontier = [slug];
+  let depth = 0;
+
+  while (frontier.length > 0) {
+    depth++;
+    const next: string[] = [];
+    for (const current of frontier) {
+      for (const child of incoming.get(current) ?? []) {
+        if (seen.has(child)) continue;
+        seen.add(child);
+        result.push({ slug: child, depth });
+        next.push(child);
+      }
+    }
+    frontier = next;
+  }
+
+  return result;
+}
+
+/**
+ * Collect every node `slug` transitively reduces to (its full chain),
+ * each listed once. Missing targets are skipped. The root is not included.
+ */
+export function collectAncestors(
+  slug: string,
+  nodes: Map<string, LatticeNode>,
+): string[] {
+  const result: string[] = [];
+  const seen = new Set<string>([slug]);
+  const stack = [...(nodes.get(slug)?.reduces_to ?? [])];
+
+  while (stack.length > 0) {
+    const current = stack.pop()!;
+    if (seen.has(current)) continue;
+    seen.add(current);
+    const node = nodes.get(current);
+    if (!node) continue;
+    result.push(current);
+    stack.push(...node.reduces_to);
+  }
+
+  return result;
+}
+
 // ─── Related node discovery ──────────────────────────────────────────
 
 /** A node with a relevance score, returned by findRelatedNodes. */
@@ -274,6 +385,68 @@ export interface RelatedNode {
   path: Array<{ slug: string; title: string; level: string }>;
 }
 
+/** Seeds for findRelatedNodes, and how they were found. */
+export interface EntryPoints {
+  slugs: string[];
+  /** Human-readable description, e.g. 'tag match: "risk" (4 seeds)'. */
+  method: string;
+}
+
+/**
+ * How a related-nodes walk is seeded: "auto" tries slug, tag, title and
+ * then full-text search; "search" uses the best full-text matches only;
+ * "semantic" the nearest embeddings (see findSemanticEntryPoints, which
+ * needs the vault and a provider, so findEntryPoints does not take it).
+ */
+export type SeedStrategy = "auto" | "search" | "semantic";
+
+export const SEED_STRATEGIES: readonly SeedStrategy[] = ["auto", "search", "semantic"];
+
+/**
+ * Resolve a free-text query to entry-point seeds for findRelatedNodes.
+ * With the "auto" strategy, stops at the first that matches:
+ *   1. a unique slug/title match (as findNodeBySlug) → that node
+ *   2. a tag name → every node with the tag
+ *   3. a title substring → every matching node
+ *   4. full-text search (see searchNodes) → the best few matches
+ * Returns no slugs if nothing matches.
+ */
+export function findEntryPoints(
+  query: string,
+  nodes: Map<string, LatticeNode>,
+  strategy: Exclude<SeedStrategy, "semantic"> = "auto",
+): EntryPoints {
+  if (strategy === "search") return searchEntryPoints(query, nodes);
+
+  const match = findNodeBySlug(query, nodes);
+  if (match.slug && !match.ambiguous) {
+    return { slugs: [match.slug], method: `slug match: "${match.slug}"` };
+  }
+
+  const tagLower = query.toLowerCase().trim();
+  const tagMatches = Array.from(nodes.values())
+    .filter((n) => n.tags.includes(tagLower))
+    .map((n) => n.slug);
+  if (tagMatches.length > 0) {
+    return {
+      slugs: tagMatches,
+      method: `tag match: "${tagLower}" (${tagMatches.length} seeds)`,
+    };
+  }
+
+  const titleMatches = Array.from(nodes.values())
+    .filter((n) => n.title.toLowerCase().includes(tagLower))
+    .map((n) => n.slug);
+  if (titleMatches.length > 0) {
+    return {
+      slugs: titleMatches,
+      method: `title match: "${query}" (${titleMatches.length} seeds)`,
+    };
+  }
+
+  return searchEntryPoints(query, nodes);
+}
+
 /**
  * Multi-hop graph walk from one or more entry-point seeds.
  * Walks both directions simultaneously:
@@ -284,8 +457,8 @@ export interface RelatedNode {
  *   reach_count × 2.0   — nodes reachable from multiple seeds are connective tissue
  *   1.0 / min_distance  — closer neighbours score higher
  *   +0.5 if validated   — prefer grounded knowledge
- *   +0.3 if application — most actionable level
- *   +0.2 if principle   — second most actionable
+ *   +0.1 to +0.3 by rank — the higher the level, the more actionable
+ *                          (built-in: application +0.3, principle +0.2)
  *
  * Entry-point seeds are excluded from results.
  * Returns nodes sorted descending by score, sliced to limit.
@@ -403,10 +576,8 @@ export function findRelatedNodes(
     if (!node) continue;
 
     const dist = minDistance.get(slug) ?? 1;
-    const validated = node.status === "Integrated/Validated" ? 0.5 : 0;
-    const levelBonus = node.level === "application" ? 0.3
-      : node.level === "principle" ? 0.2
-      : 0;
+    const validated = isGrounded(node.status) ? 0.5 : 0;
+    const levelBonus = actionability(node.level);
 
     const score = (reach * 2.0) + (1.0 / dist) + validated + levelBonus;
 
@@ -436,6 +607,15 @@ export function findRelatedNodes(
   return results.slice(0, limit);
 }
 
+/**
+ * Score bonus for how actionable a level is: 0 for bedrock, else rising
+ * with rank from 0.1 to 0.3 at the top rank.
+ */
+function actionability(level: Level): number {
+  if (isBedrock(level)) return 0;
+  return 0.1 + (0.2 * levelRank(level)) / topRank();
+}
+
 // ─── Full validation scan ────────────────────────────────────────────
 
 /**
@@ -449,68 +629,98 @@ export function validateGraph(
   const issues: ValidationIssue[] = [];
   const tagSet = new Set(masterTags);
 
-  for (const [slug, node] of nodes) {
-    // Check reduces_to targets exist
-    for (const target of node.reduces_to) {
-      if (!nodes.has(target)) {
-        issues.push({
-          slug,
-          type: "broken_link",
-          message: `Broken link: reduces_to target '${target}' does not exist`,
-        });
-      }
-    }
+  for (const node of nodes.values()) {
+    issues.push(...validateNode(node, nodes, tagSet));
+  }
 
-    // Check level ordering
-    for (const target of node.reduces_to) {
-      const targetNode = nodes.get(target);
-      if (targetNode) {
-        if (LEVEL_RANK[node.level] <= LEVEL_RANK[targetNode.level]) {
-          issues.push({
-            slug,
-            type: "level_mismatch",
-            message: `Level mismatch: ${node.level} reduces to ${targetNode.level} (${target})`,
-          });
-        }
-      }
-    }
+  for (const slug of findCycleMembers(nodes)) {
+    issues.push(cycleIssue(slug));
+  }
+
+  return issues;
+}
 
-    // Check that only bedrock nodes (axiom, percept) have empty reduces_to
-    const isBedrock = node.level === "percept" || node.level === "axiom";
-    if (!isBedrock && node.reduces_to.length === 0) {
+/**
+ * The checks of validateGraph that concern one node: its links, its own
+ * fields and its direct parents' levels. Everything except cycles, so a
+ * change to a node only needs this re-run for it and its direct children.
+ */
+export function validateNode(
+  node: LatticeNode,
+  nodes: Map<string, LatticeNode>,
+  tagSet: Set<string>,
+): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const slug = node.slug;
+
+  // Check reduces_to targets exist
+  for (const target of node.reduces_to) {
+    if (!nodes.has(target)) {
       issues.push({
         slug,
-        type: "missing_reduction",
-        message: `Non-bedrock node (level: ${node.level}) has no reduces_to links`,
+        type: "broken_link",
+        message: `Broken link: reduces_to target '${target}' does not exist`,
       });
     }
+  }
 
-    // Check tags
-    for (const tag of node.tags) {
-      if (!tagSet.has(tag)) {
+  // Check level ordering
+  for (const target of node.reduces_to) {
+    const targetNode = nodes.get(target);
+    if (targetNode) {
+      if (levelRank(node.level) <= levelRank(targetNode.level)) {
         issues.push({
           slug,
-          type: "rogue_tag",
-          message: `Rogue tag '${tag}' not in tags.json`,
+          type: "level_mismatch",
+          message: `Level mismatch: ${node.level} reduces to ${targetNode.level} (${target})`,
         });
       }
     }
+  }
 
-    // Check stale tentatives (>14 days) — bedrock is always validated, never stale
-    if (!isBedrock && node.status === "Tentative/Hypothesis") {
-      const age = Date.now() - node.created.getTime();
-      const dayMs = 24 * 60 * 60 * 1000;
-      if (age > 14 * dayMs) {
-        issues.push({
-          slug,
-          type: "stale_tentative",
-          message: `Tentative for ${Math.floor(age / dayMs)} days (>14 day threshold)`,
-        });
-      }
+  // Check that only bedrock nodes (e.g. axiom, percept) have empty reduces_to
+  const bedrock = isBedrock(node.level);
+  if (!bedrock && node.reduces_to.length === 0) {
+    issues.push({
+      slug,
+      type: "missing_reduction",
+      message: `Non-bedrock node (level: ${node.level}) has no reduces_to links`,
+    });
+  }
+
+  // Check tags
+  for (const tag of node.tags) {
+    if (!tagSet.has(tag)) {
+      issues.push({
+        slug,
+        type: "rogue_tag",
+        message: `Rogue tag '${tag}' not in tags.json`,
+      });
     }
   }
 
-  // Cycle detection: attempt topological sort
+  // Check stale open nodes (>14 days) — bedrock is always validated, and
+  // grounded or terminal statuses are settled, so never stale
+  if (!bedrock && isOpen(node.status)) {
+    const age = Date.now() - node.created.getTime();
+    const dayMs = 24 * 60 * 60 * 1000;
+    if (age > 14 * dayMs) {
+      issues.push({
+        slug,
+        type: "stale_tentative",
+        message: `${node.status} for ${Math.floor(age / dayMs)} days (>14 day threshold)`,
+      });
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Nodes validateGraph reports as cycles: those left over by a topological
+ * sort, i.e. every node on a cycle plus everything a cycle reduces to.
+ */
+export function findCycleMembers(nodes: Map<string, LatticeNode>): string[] {
   const inDegree = new Map<string, number>();
   for (const [slug] of nodes) {
     inDegree.set(slug, 0);
@@ -544,28 +754,32 @@ export function validateGraph(
     }
   }
 
-  if (processed < nodes.size) {
-    // There are cycles — find which nodes are in them
-    for (const [slug] of nodes) {
-      const deg = inDegree.get(slug);
-      if (deg !== undefined && deg > 0) {
-        issues.push({
-          slug,
-          type: "cycle",
-          message: `Node is part of a cycle in the reduction graph`,
-        });
-      }
-    }
+  if (processed === nodes.size) return [];
+  // There are cycles — find which nodes are in them
+  const members: string[] = [];
+  for (const [slug] of nodes) {
+    const deg = inDegree.get(slug);
+    if (deg !== undefined && deg > 0) members.push(slug);
   }
+  return members;
+}
 
-  return issues;
+/** The issue validateGraph reports for a node found by findCycleMembers. */
+export function cycleIssue(slug: string): ValidationIssue {
+  return {
+    slug,
+    type: "cycle",
+    message: `Node is part of a cycle in the reduction graph`,
+  };
 }
 
 // ─── Hollow chain detection ──────────────────────────────────────────
 
 /**
- * A validated node whose reduction chain contains at least one
- * Tentative/Hypothesis node. Structurally intact but epistemically hollow.
+ * A validated (grounded) node whose reduction chain contains at least one
+ * ungrounded node — Tentative/Hypothesis by default, or any status the
+ * vault does not count as grounded. Structurally intact but epistemically
+ * hollow.
  */
 export interface HollowChainResult {
   /** The validated node whose chain is hollow. */
@@ -573,16 +787,16 @@ export interface HollowChainResult {
   title: string;
   level: string;
   /** The specific weak-link nodes found anywhere in the chain. */
-  weak_links: Array<{ slug: string; title: string; level: string }>;
+  weak_links: Array<{ slug: string; title: string; level: string; status: string }>;
 }
 
 /**
- * Walk every Integrated/Validated non-bedrock node and check whether its
- * full reduction chain (all ancestors, not just direct parents) contains
- * any Tentative/Hypothesis nodes.
+ * Walk every grounded non-bedrock node and check whether its full
+ * reduction chain (all ancestors, not just direct parents) contains any
+ * ungrounded nodes.
  *
  * This catches the case where a parent was demoted after the child was
- * already validated — the child's status is still Integrated/Validated
+ * already validated — the child's status is still grounded
  * but the epistemic ground beneath it has been pulled out.
  *
  * Returns one result per hollow node, listing every weak-link ancestor.
@@ -593,53 +807,65 @@ export function findHollowChains(
   const results: HollowChainResult[] = [];
 
   for (const node of nodes.values()) {
-    const isBedrock = node.level === "percept" || node.level === "axiom";
-    if (isBedrock) continue;
-    if (node.status !== "Integrated/Validated") continue;
+    const hollow = findHollowChain(node, nodes);
+    if (hollow) results.push(hollow);
+  }
 
-    // Walk full chain, collecting any Tentative ancestors
-    const weakLinks: Array<{ slug: string; title: string; level: string }> = [];
-    const visited = new Set<string>();
-    const stack = [...node.reduces_to];
+  return results;
+}
 
-    while (stack.length > 0) {
-      const current = stack.pop()!;
-      if (visited.has(current)) continue;
-      visited.add(current);
+/**
+ * The hollow-chain check for one node: null unless it is a grounded
+ * non-bedrock node with an ungrounded ancestor.
+ */
+export function findHollowChain(
+  node: LatticeNode,
+  nodes: Map<string, LatticeNode>,
+): HollowChainResult | null {
+  if (isBedrock(node.level)) return null;
+  if (!isGrounded(node.status)) return null;
 
-      const ancestor = nodes.get(current);
-      if (!ancestor) continue; // broken links are caught by validateGraph
+  // Walk full chain, collecting any ungrounded ancestors
+  const weakLinks: HollowChainResult["weak_links"] = [];
+  const visited = new Set<string>();
+  const stack = [...node.reduces_to];
 
-      if (ancestor.status === "Tentative/Hypothesis") {
-        weakLinks.push({
-          slug: ancestor.slug,
-          title: ancestor.title,
-          level: ancestor.level,
-        });
-      }
+  while (stack.length > 0) {
+    const current = stack.pop()!;
+    if (visited.has(current)) continue;
+    visited.add(current);
 
-      // Continue walking even past Tentative nodes — there may be more below
-      for (const parent of ancestor.reduces_to) {
-        stack.push(parent);
-      }
-    }
+    const ancestor = nodes.get(current);
+    if (!ancestor) continue; // broken links are caught by validateGraph
 
-    if (weakLinks.length > 0) {
-      results.push({
-        slug: node.slug,
-        title: node.title,
-        level: node.level,
-        weak_links: weakLinks,
+    if (!isGrounded(ancestor.status)) {
+      weakLinks.push({
+        slug: ancestor.slug,
+        title: ancestor.title,
+        level: ancestor.level,
+        status: ancestor.status,
       });
     }
+
+    // Continue walking even past ungrounded nodes — there may be more below
+    for (const parent of ancestor.reduces_to) {
+      stack.push(parent);
+    }
   }
 
-  return results;
+  if (weakLinks.length === 0) return null;
+  return {
+    slug: node.slug,
+    title: node.title,
+    level: node.level,
+    weak_links: weakLinks,
+  };
 }
 
 /**
- * Find nodes that directly reduce to the given slug and are still Tentative/Hypothesis.
- * Used to surface promotion hints after a node becomes Integrated/Validated.
+ * Find nodes that directly reduce to the given slug and are still open
+ * (Tentative/Hypothesis by default; neither grounded nor terminal).
+ * Used to surface promotion hints after a node becomes validated.
  */
 export function findTentativeChildren(
   slug: string,
@@ -648,7 +874,7 @@ export function findTentativeChildren(
   const results: LatticeNode[] = [];
   for (const node of nodes.values()) {
     if (
-      node.status === "Tentative/Hypothesis" &&
+      isOpen(node.status) &&
       node.reduces_to.includes(slug)
     ) {
       results.push(node);
@@ -657,9 +883,28 @@ export function findTentativeChildren(
   return results;
 }
 
+/**
+ * All open nodes (Tentative/Hypothesis by default; terminal statuses such
+ * as Refuted are settled and left out), oldest first. With `olderThanMs`, only
+ * those created more than that long ago.
+ */
+export function findTentativeNodes(
+  nodes: Map<string, LatticeNode>,
+  olderThanMs?: number,
+): LatticeNode[] {
+  let results = Array.from(nodes.values()).filter(
+    (n) => isOpen(n.status),
+  );
+  if (olderThanMs !== undefined) {
+    const cutoff = Date.now() - olderThanMs;
+    results = results.filter((n) => n.created.getTime() < cutoff);
+  }
+  return results.sort((a, b) => a.created.getTime() - b.created.getTime());
+}
+
 /**
  * Check if the full reduction chain of a node reaches at least one bedrock node
- * (axiom or percept). Used for determining if a chain is "complete" for
+ * (axiom or percept, or any level configured as bedrock). Used for determining if a chain is "complete" for
  * Integrated/Validated status.
  *
  * Both axioms (philosophical bedrock) and percepts (empirical bedrock) are
@@ -679,7 +924,7 @@ export function chainReachesBedrock(
 
     const node = nodes.get(current);
     if (!node) continue;
-    if (node.level === "percept" || node.level === "axiom") return true;
+    if (isBedrock(node.level)) return true;
 
     for (const parent of node.reduces_to) {
       stack.push(parent);
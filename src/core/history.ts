@@ -0,0 +1,196 @@
+import { access, mkdir } from "node:fs/promises";
+import { join, dirname, basename } from "node:path";
+import { userInfo } from "node:os";
+import { HISTORY_FOLDER, VAULT_MARKER } from "./constants.js";
+import { appendText, moveFile, readText } from "./transaction.js";
+import { FilesystemError } from "../util/errors.js";
+
+// ─── Types ───────────────────────────────────────────────────────────
+
+/** Old and new value of one field in a revision. */
+export interface FieldChange {
+  old: unknown;
+  new: unknown;
+}
+
+/** One entry in a node's revision log. */
+export interface Revision {
+  /** 1-based, monotonically increasing per node. */
+  rev: number;
+  /** ISO 8601 time of the write. */
+  timestamp: string;
+  /** Who made the write: $LATTICE_ACTOR, else the OS user. */
+  actor: string;
+  action: "create" | "update" | "rename";
+  /** Only fields whose value actually changed. */
+  changes: Record<string, FieldChange>;
+}
+
+// ─── Paths ───────────────────────────────────────────────────────────
+
+/**
+ * Walk up from a node file until a directory containing the vault marker
+ * is found. Node files live at varying depths (level folders, trash
+ * subfolders), so the vault root cannot be derived from a fixed offset.
+ * Returns null if the file is not inside a vault.
+ */
+async function findVaultRoot(filePath: string): Promise<string | null> {
+  let dir = dirname(filePath);
+  while (true) {
+    try {
+      await access(join(dir, VAULT_MARKER));
+      return dir;
+    } catch {
+      const parent = dirname(dir);
+      if (parent === dir) return null;
+      dir = parent;
+    }
+  }
+}
+
+/** Path of a node's revision log inside the vault. */
+function historyPath(vaultPath: string, slug: string): string {
+  return join(vaultPath, HISTORY_FOLDER, `${slug}.jsonl`);
+}
+
+function currentActor(): string {
+  if (process.env.LATTICE_ACTOR) return process.env.LATTICE_ACTOR;
+  try {
+    return userInfo().username;
+  } catch {
+    return "unknown";
+  }
+}
+
+// ─── Reading ─────────────────────────────────────────────────────────
+
+/**
+ * Load a node's revision log, oldest first. Missing log → empty array.
+ * Malformed lines are skipped rather than failing the whole read.
+ */
+export async function loadHistory(
+  vaultPath: string,
+  slug: string,
+): Promise<Revision[]> {
+  let raw: string;
+  try {
+    raw = await readText(historyPath(vaultPath, slug));
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") return [];
+    throw new FilesystemError(
+      `Cannot read history for '${slug}': ${(err as Error).message}`,
+    );
+  }
+
+  const revisions: Revision[] = [];
+  for (const line of raw.split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      revisions.push(JSON.parse(line) as Revision);
+    } catch {
+      // Skip a torn or hand-edited line
+    }
+  }
+  return revisions;
+}
+
+// ─── Writing ─────────────────────────────────────────────────────────
+
+/**
+ * Append a revision for the node stored at `filePath`. The slug is taken
+ * from the filename so callers holding a stale LatticeNode still log to
+ * the right file. No-op when there are no changes or the file is not
+ * inside a vault.
+ */
+export async function recordRevision(
+  filePath: string,
+  action: Revision["action"],
+  changes: Record<string, FieldChange>,
+): Promise<void> {
+  if (Object.keys(changes).length === 0) return;
+
+  const vaultPath = await findVaultRoot(filePath);
+  if (!vaultPath) return;
+
+  const slug = basename(filePath).replace(/\.md$/, "");
+  const existing = await loadHistory(vaultPath, slug);
+  const revision: Revision = {
+    rev: (existing[existing.length - 1]?.rev ?? 0) + 1,
+    timestamp: new Date().toISOString(),
+    actor: currentActor(),
+    action,
+    changes,
+  };
+
+  try {
+    await mkdir(join(vaultPath, HISTORY_FOLDER), { recursive: true });
+    await appendText(historyPath(vaultPath, slug), JSON.stringify(revision) + "\n");
+  } catch (err) {
+    throw new FilesystemError(
+      `Cannot write history for '${slug}': ${(err as Error).message}`,
+    );
+  }
+}
+
+/**
+ * Move a node's revision log when its slug changes, so the timeline
+ * follows the node. Missing log → no-op.
+ */
+export async function renameHistory(
+  vaultPath: string,
+  oldSlug: string,
+  newSlug: string,
+): Promise<void> {
+  try {
+    await moveFile(historyPath(vaultPath, oldSlug), historyPath(vaultPath, newSlug));
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") return;
+    throw new FilesystemError(
+      `Cannot move history for '${oldSlug}': ${(err as Error).message}`,
+    );
+  }
+}
+
+// ─── Diffing ─────────────────────────────────────────────────────────
+
+/**
+ * Compare old and new values field by field and keep only real changes.
+ * Values are compared by their JSON form, so arrays compare by content.
+ * Fields whose new value is undefined are ignored (not being updated).
+ */
+export function diffFields(
+  before: Record<string, unknown>,
+  after: Record<string, unknown>,
+): Record<string, FieldChange> {
+  const changes: Record<string, FieldChange> = {};
+  for (const [key, value] of Object.entries(after)) {
+    if (value === undefined) continue;
+    const old = before[key] ?? null;
+    if (JSON.stringify(old) !== JSON.stringify(value)) {
+      changes[key] = { old, new: value };
+    }
+  }
+  return changes;
+}
+
+/**
+ * Reconstruct field values as they were right after revision `rev`.
+ * Starts from the current values and walks backwards, applying each later
+ * revision's `old` values. Working backwards means nodes created before
+ * history existed can still be reverted to any recorded revision.
+ */
+export function stateAtRevision(
+  current: Record<string, unknown>,
+  revisions: Revision[],
+  rev: number,
+): Record<string, unknown> {
+  const state = { ...current };
+  for (let i = revisions.length - 1; i >= 0; i--) {
+    const r = revisions[i];
+    if (r.rev <= rev) break;
+    for (const [field, change] of Object.entries(r.changes)) {
+      state[field] = change.old;
+    }
+  }
+  return state;
+}
@@ -0,0 +1,110 @@
+/**
+ * The vault's level hierarchy: level names, ranks, folders and which
+ * levels are bedrock. Declared under "levels" in lattice.config.json (see
+ * config.ts); vaults that declare none use DEFAULT_LEVELS.
+ *
+ * Every check reads the hierarchy in effect (see schema.ts) through the
+ * functions below.
+ */
+
+import { activeSchema } from "./schema.js";
+
+/** One level of the hierarchy. */
+export interface LevelDefinition {
+  /** Name used in node frontmatter and on the command line. */
+  name: string;
+  /**
+   * A node may only reduce to nodes of a LOWER rank. Levels may share a
+   * rank; then neither can reduce to the other.
+   */
+  rank: number;
+  /** Folder in the vault root holding the level's nodes. */
+  folder: string;
+  /**
+   * Irreducible: nodes have no reduces_to and are always
+   * Integrated/Validated. Every chain must end at a bedrock level.
+   */
+  bedrock: boolean;
+}
+
+/**
+ * The built-in hierarchy.
+ *
+ *   axiom    (0) — Philosophical bedrock. Self-evident, irreducible.
+ *                  Cannot be proven, only validated. No reduces_to.
+ *   percept  (0) — Empirical bedrock. Directly observed fact.
+ *                  Cannot be reduced further. No reduces_to.
+ *   principle (1) — Induced general rule. Reduces to axioms and/or percepts.
+ *   application (2) — Concrete action/decision. Reduces to principles
+ *                     (and/or axioms/percepts).
+ *
+ * Axioms and percepts are co-equal bedrock at rank 0. Neither reduces to
+ * the other — that would violate their irreducibility. Folders are
+ * number-prefixed to enforce visual ordering in file browsers.
+ */
+export const DEFAULT_LEVELS: readonly LevelDefinition[] = [
+  { name: "percept", rank: 0, folder: "02-Percepts", bedrock: true },
+  { name: "axiom", rank: 0, folder: "01-Axioms", bedrock: true },
+  { name: "principle", rank: 1, folder: "03-Principles", bedrock: false },
+  { name: "application", rank: 2, folder: "04-Applications", bedrock: false },
+];
+
+/** Name → definition, per hierarchy. */
+const indexes = new WeakMap<readonly LevelDefinition[], Map<string, LevelDefinition>>();
+
+function active(): readonly LevelDefinition[] {
+  return activeSchema()?.levels ?? DEFAULT_LEVELS;
+}
+
+function byName(): Map<string, LevelDefinition> {
+  const levels = active();
+  let index = indexes.get(levels);
+  if (!index) {
+    index = new Map(levels.map((l) => [l.name, l]));
+    indexes.set(levels, index);
+  }
+  return index;
+}
+
+/** The hierarchy in effect, in declaration order. */
+export function levelDefinitions(): readonly LevelDefinition[] {
+  return active();
+}
+
+/** Level names in declaration order (the order listings use). */
+export function levelNames(): string[] {
+  return active().map((l) => l.name);
+}
+
+export function isLevel(value: string): boolean {
+  return byName().has(value);
+}
+
+/** Rank of a level; unknown levels rank below everything. */
+export function levelRank(level: string): number {
+  return byName().get(level)?.rank ?? -1;
+}
+
+/** The highest rank in the hierarchy. */
+export function topRank(): number {
+  return Math.max(...active().map((l) => l.rank));
+}
+
+/** Folder of a level, relative to the vault root. */
+export function levelFolder(level: string): string {
+  return byName().get(level)?.folder ?? level;
+}
+
+/** Every level folder, in declaration order. */
+export function levelFolders(): string[] {
+  return active().map((l) => l.folder);
+}
+
+export function isBedrock(level: string): boolean {
+  return byName().get(level)?.bedrock ?? false;
+}
+
+/** Names of the bedrock levels. */
+export function bedrockLevels(): string[] {
+  return active().filter((l) => l.bedrock).map((l) => l.name);
+}
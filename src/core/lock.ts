@@ -0,0 +1,227 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import { link, readFile, stat, unlink, writeFile } from "node:fs/promises";
+import { unlinkSync } from "node:fs";
+import { randomBytes } from "node:crypto";
+import { hostname } from "node:os";
+import { join } from "node:path";
+import { LOCK_FILE, LOCK_STALE_MS, LOCK_WAIT_MS } from "./constants.js";
+import { recoverTransaction } from "./transaction.js";
+import { FilesystemError, VaultLockedError } from "../util/errors.js";
+
+/** Contents of the lock file: who holds it and since when. */
+interface LockInfo {
+  pid: number;
+  host: string;
+  acquired: string;
+  command: string;
+}
+
+/** A lock file as read: its parsed holder and exact contents. */
+interface LockFile {
+  holder: LockInfo;
+  raw: string;
+}
+
+export interface VaultLock {
+  release(): void;
+}
+
+const POLL_MS = 100;
+
+/** Locks held for the rest of the process (acquireVaultLock): lock path → nesting depth. */
+const held = new Map<string, number>();
+
+/**
+ * Locks held by the current async context (withVaultLock). Only code
+ * running inside the holder's call re-enters; any other caller in the
+ * process waits for the lock file like a writer in another process.
+ */
+const owned = new AsyncLocalStorage<ReadonlySet<string>>();
+
+/**
+ * Take the vault write lock for the rest of the process, as a CLI command
+ * does (see lockVault). Re-entrant: a second acquire only bumps a count.
+ * Concurrent writers inside one process use withVaultLock instead.
+ */
+export async function acquireVaultLock(
+  vaultPath: string,
+  command = process.argv.slice(2).join(" "),
+): Promise<VaultLock> {
+  const lockPath = join(vaultPath, LOCK_FILE);
+
+  const depth = held.get(lockPath);
+  if (depth !== undefined) {
+    held.set(lockPath, depth + 1);
+    return { release: once(() => releaseHeld(lockPath)) };
+  }
+  if (owned.getStore()?.has(lockPath)) {
+    // Already inside a withVaultLock call, which releases it
+    return { release: () => {} };
+  }
+
+  await takeLock(vaultPath, command);
+  held.set(lockPath, 1);
+  return { release: once(() => releaseHeld(lockPath)) };
+}
+
+/**
+ * Run `fn` while holding the vault write lock. Calls nested inside `fn`
+ * share the lock; every other writer, in this process or another, waits.
+ */
+export async function withVaultLock<T>(
+  vaultPath: string,
+  fn: () => Promise<T>,
+): Promise<T> {
+  const lockPath = join(vaultPath, LOCK_FILE);
+  const current = owned.getStore();
+  if (held.has(lockPath) || current?.has(lockPath)) return fn();
+
+  await takeLock(vaultPath, process.argv.slice(2).join(" "));
+  try {
+    return await owned.run(new Set([...(current ?? []), lockPath]), fn);
+  } finally {
+    removeLockFile(lockPath);
+  }
+}
+
+/**
+ * Create the lock file, waiting up to LOCK_WAIT_MS for another writer to
+ * finish. A lock whose holder is gone is taken over: on this host when
+ * its pid is dead, from another host (where the pid cannot be checked)
+ * when it is older than LOCK_STALE_MS. After acquiring, finishes any
+ * transaction a crashed writer left behind.
+ */
+async function takeLock(vaultPath: string, command: string): Promise<void> {
+  const lockPath = join(vaultPath, LOCK_FILE);
+  const info: LockInfo = {
+    pid: process.pid,
+    host: hostname(),
+    acquired: new Date().toISOString(),
+    command,
+  };
+  const deadline = Date.now() + LOCK_WAIT_MS;
+
+  while (!(await createLockFile(lockPath, info))) {
+    const current = await readLock(lockPath);
+    if (current === null) continue; // released between our attempts
+    if (isStale(current.holder)) {
+      // Another contender may have replaced it since we read it
+      const again = await readLock(lockPath);
+      if (again?.raw === current.raw) await unlink(lockPath).catch(() => {});
+      continue;
+    }
+    if (Date.now() >= deadline) {
+      throw new VaultLockedError(lockPath, describe(current.holder));
+    }
+    await new Promise((r) => setTimeout(r, POLL_MS));
+  }
+
+  try {
+    await recoverTransaction(vaultPath);
+  } catch (err) {
+    removeLockFile(lockPath);
+    throw err;
+  }
+}
+
+/**
+ * Write the holder to a temp file, then hard-link it into place: the
+ * link fails if a lock exists, and readers never see a partly written
+ * file. Returns false when another writer holds the lock.
+ */
+async function createLockFile(lockPath: string, info: LockInfo): Promise<boolean> {
+  const temp = `${lockPath}.${randomBytes(4).toString("hex")}.tmp`;
+  try {
+    await writeFile(temp, JSON.stringify(info) + "\n", "utf-8");
+    await link(temp, lockPath);
+    return true;
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "EEXIST") return false;
+    throw new FilesystemError(
+      `Cannot create lock file '${lockPath}': ${(err as Error).message}`,
+    );
+  } finally {
+    await unlink(temp).catch(() => {});
+  }
+}
+
+/**
+ * Read the current lock. Returns null if it vanished. A file that does not
+ * parse (written by hand, or by an older lattice) is dated by its mtime,
+ * so it counts as held until it is older than LOCK_STALE_MS.
+ */
+async function readLock(lockPath: string): Promise<LockFile | null> {
+  let raw: string;
+  let mtime: Date;
+  try {
+    raw = await readFile(lockPath, "utf-8");
+    mtime = (await stat(lockPath)).mtime;
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") return null;
+    throw new FilesystemError(
+      `Cannot read lock file '${lockPath}': ${(err as Error).message}`,
+    );
+  }
+  try {
+    return { holder: JSON.parse(raw) as LockInfo, raw };
+  } catch {
+    return { holder: { pid: 0, host: "", acquired: mtime.toISOString(), command: "" }, raw };
+  }
+}
+
+/**
+ * A live holder on this host is never stale, however long it runs (a big
+ * cascade on a slow disk, a slow embedding command). Age only decides
+ * when the pid cannot be checked: another host, or an unreadable file.
+ */
+function isStale(lock: LockInfo): boolean {
+  if (lock.host !== hostname()) {
+    const age = Date.now() - new Date(lock.acquired).getTime();
+    return !(age < LOCK_STALE_MS);
+  }
+  try {
+    process.kill(lock.pid, 0);
+    return false;
+  } catch (err) {
+    // EPERM: the process exists but belongs to someone else.
+    return (err as NodeJS.ErrnoException).code === "ESRCH";
+  }
+}
+
+function describe(lock: LockInfo): string {
+  if (!lock.host) return `an unreadable lock file, last written ${lock.acquired}`;
+  const what = lock.command ? `'lattice ${lock.command}'` : "a lattice command";
+  return `${what}, pid ${lock.pid} on ${lock.host}, since ${lock.acquired}`;
+}
+
+/**
+ * Drop one level of nesting; remove the file at the outermost level.
+ * Synchronous so it can run from a process 'exit' handler.
+ */
+function releaseHeld(lockPath: string): void {
+  const depth = held.get(lockPath);
+  if (depth === undefined) return;
+  if (depth > 1) {
+    held.set(lockPath, depth - 1);
+    return;
+  }
+  held.delete(lockPath);
+  removeLockFile(lockPath);
+}
+
+function removeLockFile(lockPath: string): void {
+  try {
+    unlinkSync(lockPath);
+  } catch {
+    // Already gone (taken over as stale) — nothing to release.
+  }
+}
+
+function once(fn: () => void): () => void {
+  let done = false;
+  return () => {
+    if (done) return;
+    done = true;
+    fn();
+  };
+}
@@ -0,0 +1,305 @@
+import { readFile, rename, stat, unlink, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { INDEX_FILE } from "./constants.js";
+import { levelDefinitions, levelFolders } from "./levels.js";
+import { statusDefinitions } from "./statuses.js";
+import { parseNodeFile, type LatticeNode } from "./node.js";
+import { buildIncomingLinks } from "./graph.js";
+import { inTransaction, isStaged, listDir } from "./transaction.js";
+
+/**
+ * Persistent parse cache (INDEX_FILE in the vault root).
+ *
+ * Loading the lattice means reading and YAML-parsing every node file. The
+ * index keeps each parsed node keyed by its vault-relative path together
+ * with the file's mtime and size, plus the incoming-link map built from
+ * them. A load stats every file and re-parses only those whose mtime or
+ * size changed; if nothing changed the stored incoming map is reused too.
+ *
+ * The index is derived data. It is never the source of truth, is written
+ * outside the vault lock (atomically, by rename), and a missing, corrupt
+ * or outdated index is silently rebuilt.
+ */
+
+/** Bump when LatticeNode or parseNodeFile changes, so old indexes are discarded. */
+const INDEX_VERSION = 2;
+
+/**
+ * Files modified this recently are re-parsed but not cached: another
+ * write within the filesystem's timestamp resolution could leave mtime
+ * and size unchanged.
+ */
+const RACY_MS = 2000;
+
+/** A cached node: filePath is implied by the key, created is an ISO string. */
+type StoredNode = Omit<LatticeNode, "filePath" | "created"> & { created: string };
+
+interface IndexEntry {
+  mtimeMs: number;
+  size: number;
+  node: StoredNode;
+}
+
+interface IndexFile {
+  version: number;
+  /**
+   * The level hierarchy and statuses the nodes were parsed under (parsing
+   * checks both and forces bedrock status), so changing either discards it.
+   */
+  schema: string;
+  /** Vault-relative path, e.g. "03-Principles/<slug>.md" → entry. */
+  files: Record<string, IndexEntry>;
+  /** Slug → slugs of the nodes that reduce to it. */
+  incoming: Record<string, string[]>;
+}
+
+/** The parsed lattice and its reverse links. */
+export interface NodeIndex {
+  nodes: Map<string, LatticeNode>;
+  incoming: Map<string, string[]>;
+}
+
+/**
+ * Load every node in the level folders, using the index for files that
+ * have not changed, and refresh the index when anything did.
+ *
+ * Inside a transaction, files with staged changes are always parsed
+ * (reads see the staged content) and the index is not written.
+ */
+export async function loadNodeIndex(vaultPath: string): Promise<NodeIndex> {
+  const cached = await readIndexFile(vaultPath);
+  const started = Date.now();
+  const files: Record<string, IndexEntry> = {};
+  const nodes = new Map<string, LatticeNode>();
+  let reused = 0;
+  let parsed = 0;
+  let added = 0;
+
+  for (const { key, filePath, name } of await listNodeFiles(vaultPath)) {
+    if (isStaged(filePath)) {
+      const node = await parseOrWarn(filePath, name);
+      if (node) nodes.set(node.slug, node);
+      parsed++;
+      continue;
+    }
+
+    let info;
+    try {
+      info = await stat(filePath);
+    } catch {
+      // Removed since the listing
+      continue;
+    }
+
+    const entry = cached?.files[key];
+    if (entry && entry.mtimeMs === info.mtimeMs && entry.size === info.size) {
+      nodes.set(entry.node.slug, reviveNode(entry.node, filePath));
+      files[key] = entry;
+      reused++;
+      continue;
+    }
+
+    parsed++;
+    const node = await parseOrWarn(filePath, name);
+    if (!node) continue;
+    nodes.set(node.slug, node);
+    if (started - info.mtimeMs >= RACY_MS) {
+      files[key] = { mtimeMs: info.mtimeMs, size: info.size, node: storeNode(node) };
+      added++;
+    }
+  }
+
+  const entriesKept = cached !== null && reused === Object.keys(cached.files).length;
+  if (entriesKept && parsed === 0) {
+    return { nodes, incoming: new Map(Object.entries(cached.incoming)) };
+  }
+
+  const incoming = buildIncomingLinks(nodes);
+  // Malformed and just-modified files are parsed on every load without
+  // being stored; they alone are no reason to rewrite the index
+  if (!inTransaction() && (!entriesKept || added > 0)) {
+    await writeIndexFile(vaultPath, {
+      version: INDEX_VERSION,
+      schema: schemaKey(),
+      files,
+      incoming: Object.fromEntries(incoming),
+    });
+  }
+  return { nodes, incoming };
+}
+
+/** What `lattice index rebuild` did. */
+export interface RebuildResult {
+  /** Index file path. */
+  file: string;
+  /** Nodes loaded. */
+  nodes: number;
+}
+
+/** Discard the index and build it again from every node file. */
+export async function rebuildNodeIndex(vaultPath: string): Promise<RebuildResult> {
+  const file = join(vaultPath, INDEX_FILE);
+  await unlink(file).catch(() => undefined);
+  const { nodes } = await loadNodeIndex(vaultPath);
+  return { file, nodes: nodes.size };
+}
+
+/** How the index compares with the files on disk. */
+export interface IndexVerification {
+  /** Whether an index file exists (and is readable, current format). */
+  exists: boolean;
+  /** Entries in the index. */
+  indexed: number;
+  /** Node files in the level folders. */
+  files: number;
+  /** Files whose mtime or size changed: re-parsed on the next load. */
+  stale: string[];
+  /** Files not in the index: parsed on the next load. */
+  missing: string[];
+  /** Indexed files no longer on disk: dropped on the next load. */
+  orphaned: string[];
+  /**
+   * Files whose mtime and size match but whose cached node differs from
+   * the file's content. The next load would return wrong data for these.
+   */
+  mismatched: string[];
+  /**
+   * Slugs whose stored incoming links differ from the links the files
+   * define. Only checked when no file is stale, missing or orphaned,
+   * since otherwise the next load rebuilds the map anyway.
+   */
+  incoming_mismatched: string[];
+}
+
+/**
+ * Compare the index with a full parse of every node file. Read-only:
+ * the index is neither used nor rewritten.
+ */
+export async function verifyNodeIndex(vaultPath: string): Promise<IndexVerification> {
+  const cached = await readIndexFile(vaultPath);
+  const result: IndexVerification = {
+    exists: cached !== null,
+    indexed: cached ? Object.keys(cached.files).length : 0,
+    files: 0,
+    stale: [],
+    missing: [],
+    orphaned: [],
+    mismatched: [],
+    incoming_mismatched: [],
+  };
+
+  const fresh = new Map<string, LatticeNode>();
+  const seen = new Set<string>();
+  for (const { key, filePath, name } of await listNodeFiles(vaultPath)) {
+    result.files++;
+    seen.add(key);
+    const node = await parseOrWarn(filePath, name);
+    if (node) fresh.set(node.slug, node);
+
+    if (!cached) continue;
+    const entry = cached.files[key];
+    if (!entry) {
+      result.missing.push(key);
+      continue;
+    }
+    const info = await stat(filePath);
+    if (entry.mtimeMs !== info.mtimeMs || entry.size !== info.size) {
+      result.stale.push(key);
+    } else if (!node || JSON.stringify(storeNode(node)) !== JSON.stringify(entry.node)) {
+      result.mismatched.push(key);
+    }
+  }
+  if (!cached) return result;
+
+  result.orphaned = Object.keys(cached.files).filter((key) => !seen.has(key));
+
+  const current =
+    result.stale.length === 0 && result.missing.length === 0 && result.orphaned.length === 0;
+  if (current) {
+    const expected = buildIncomingLinks(fresh);
+    const slugs = new Set([...expected.keys(), ...Object.keys(cached.incoming)]);
+    for (const slug of slugs) {
+      const want = [...(expected.get(slug) ?? [])].sort().join(",");
+      const have = [...(cached.incoming[slug] ?? [])].sort().join(",");
+      if (want !== have) result.incoming_mismatched.push(slug);
+    }
+  }
+  return result;
+}
+
+// ─── Helpers ─────────────────────────────────────────────────────────
+
+/** Every .md file in the level folders, in level order. */
+async function listNodeFiles(
+  vaultPath: string,
+): Promise<Array<{ key: string; filePath: string; name: string }>> {
+  const files: Array<{ key: string; filePath: string; name: string }> = [];
+  for (const folder of levelFolders()) {
+    let entries: string[];
+    try {
+      entries = (await listDir(join(vaultPath, folder))).map((e) => e.name);
+    } catch {
+      // Folder might not exist or be empty — skip
+      continue;
+    }
+    for (const name of entries) {
+      if (!name.endsWith(".md")) continue;
+      files.push({ key: `${folder}/${name}`, filePath: join(vaultPath, folder, name), name });
+    }
+  }
+  return files;
+}
+
+async function parseOrWarn(filePath: string, name: string): Promise<LatticeNode | null> {
+  try {
+    return await parseNodeFile(filePath);
+  } catch (err) {
+    // Log parse errors but don't crash the whole load
+    process.stderr.write(
+      `Warning: skipping malformed node '${name}': ${(err as Error).message}\n`,
+    );
+    return null;
+  }
+}
+
+function storeNode(node: LatticeNode): StoredNode {
+  const { filePath: _filePath, created, ...rest } = node;
+  return { ...rest, created: created.toISOString() };
+}
+
+function reviveNode(stored: StoredNode, filePath: string): LatticeNode {
+  return { ...stored, filePath, created: new Date(stored.created) };
+}
+
+/** Identifies the active hierarchy and statuses in the index file. */
+function schemaKey(): string {
+  return JSON.stringify([levelDefinitions(), statusDefinitions()]);
+}
+
+/** The index, or null if missing, unreadable or from another format version. */
+
+async function readIndexFile(vaultPath: string): Promise<IndexFile | null> {
+  try {
+    const index = JSON.parse(await readFile(join(vaultPath, INDEX_FILE), "utf-8")) as IndexFile;
+    return index.version === INDEX_VERSION && index.schema === schemaKey() && index.files && index.incoming
+      ? index
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Replace the index atomically. Failures are ignored: a read-only vault
+ * simply runs without a cache.
+ */
+async function writeIndexFile(vaultPath: string, index: IndexFile): Promise<void> {
+  const target = join(vaultPath, INDEX_FILE);
+  const temp = `${target}.${process.pid}.tmp`;
+  try {
+    await writeFile(temp, JSON.stringify(index), "utf-8");
+    await rename(temp, target);
+  } catch {
+    await unlink(temp).catch(() => undefined);
+  }
+}
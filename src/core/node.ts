@@ -1,22 +1,33 @@
-import { readFile, writeFile, readdir } from "node:fs/promises";
-import { join, basename } from "node:path";
+import { join, basename, dirname } from "node:path";
 import YAML from "yaml";
 import {
-  LEVELS,
-  LEVEL_FOLDERS,
-  STATUSES,
   MAX_SLUG_LENGTH,
+  TRASH_FOLDER,
   type Level,
   type Status,
 } from "./constants.js";
+import { isBedrock, isLevel, levelFolder } from "./levels.js";
+import { isStatus, validatedStatus } from "./statuses.js";
 import {
   InvalidLevelError,
   InvalidStatusError,
   FilesystemError,
   DuplicateSlugError,
   LatticeError,
+  AmbiguousMatchError,
+  NodeNotFoundError,
 } from "../util/errors.js";
 import { EXIT } from "./constants.js";
+import { recordRevision, renameHistory, diffFields } from "./history.js";
+import { loadNodeIndex } from "./node-index.js";
+import {
+  listDir,
+  moveFile,
+  pathExists,
+  readText,
+  runInTransaction,
+  writeText,
+} from "./transaction.js";
 
 // ─── Types ───────────────────────────────────────────────────────────
 
@@ -26,6 +37,11 @@ export interface MergedFromEntry {
   original_path: string;
   original_status: Status;
   trashed_path: string;
+  /**
+   * Nodes whose reduces_to pointed at this node when it was merged; undo
+   * points them back here. Absent on merges recorded before it existed.
+   */
+  dependents?: string[];
 }
 
 /** Parsed representation of a lattice node. */
@@ -68,6 +84,14 @@ export interface LatticeNode {
   merged_group_id?: string;
   /** If this canonical node was undone, flag and reason. */
   undone_merge?: { reason?: string };
+  /** If this node was split, the slugs of the nodes that replaced it. */
+  split_into?: string[];
+  /** Human reason for the split (only on split originals). */
+  split_reason?: string;
+  /** If this node was created by a split, the slug of the original. */
+  split_from?: string;
+  /** If this split part was removed by undoing the split, flag and reason. */
+  undone_split?: { reason?: string };
 }
 
 /**
@@ -91,6 +115,10 @@ interface NodeFrontmatter {
   merged_date?: string;
   merged_group_id?: string;
   undone_merge?: { reason?: string };
+  split_into?: string[];
+  split_reason?: string;
+  split_from?: string;
+  undone_split?: { reason?: string };
 }
 
 // ─── Slug generation ─────────────────────────────────────────────────
@@ -215,7 +243,7 @@ function normalizeTags(raw: unknown): string[] {
 export async function parseNodeFile(filePath: string): Promise<LatticeNode> {
   let raw: string;
   try {
-    raw = await readFile(filePath, "utf-8");
+    raw = await readText(filePath);
   } catch (err) {
     throw new FilesystemError(
       `Cannot read node file '${filePath}': ${(err as Error).message}`,
@@ -255,25 +283,23 @@ export async function parseNodeFile(filePath: string): Promise<LatticeNode> {
   const slug = filenameToSlug(filename);
 
   // Validate level
-  const levelStr = String(frontmatter.level ?? "").trim();
-  if (!LEVELS.includes(levelStr as Level)) {
-    throw new InvalidLevelError(levelStr);
+  const level: Level = String(frontmatter.level ?? "").trim();
+  if (!isLevel(level)) {
+    throw new InvalidLevelError(level);
   }
-  const level = levelStr as Level;
 
   // Validate status.
-  // Bedrock nodes (axiom, percept) are always Integrated/Validated regardless
-  // of what is written on disk — their presence in the vault is their validation.
-  const isBedrock = level === "percept" || level === "axiom";
+  // Bedrock nodes (e.g. axiom, percept) are always validated (the first grounded
+  // status) regardless of what is written on disk — their presence in the vault
+  // is their validation.
   let status: Status;
-  if (isBedrock) {
-    status = "Integrated/Validated";
+  if (isBedrock(level)) {
+    status = validatedStatus();
   } else {
-    const statusStr = String(frontmatter.status ?? "").trim();
-    if (!STATUSES.includes(statusStr as Status)) {
-      throw new InvalidStatusError(statusStr);
+    status = String(frontmatter.status ?? "").trim();
+    if (!isStatus(status)) {
+      throw new InvalidStatusError(status);
     }
-    status = statusStr as Status;
   }
 
   // Parse created timestamp from YAML (reliable across all platforms)
@@ -306,6 +332,10 @@ export async function parseNodeFile(filePath: string): Promise<LatticeNode> {
     merged_date: frontmatter.merged_date,
     merged_group_id: frontmatter.merged_group_id,
     undone_merge: frontmatter.undone_merge,
+    split_into: frontmatter.split_into,
+    split_reason: frontmatter.split_reason,
+    split_from: frontmatter.split_from,
+    undone_split: frontmatter.undone_split,
   };
 }
 
@@ -313,39 +343,54 @@ export async function parseNodeFile(filePath: string): Promise<LatticeNode> {
 
 /**
  * Load all lattice nodes from all level folders in the vault.
- * Returns a Map keyed by slug for O(1) lookup.
+ * Returns a Map keyed by slug for O(1) lookup. Unchanged files come from
+ * the on-disk index (see node-index.ts) instead of being re-parsed.
  */
 export async function loadAllNodes(
   vaultPath: string,
 ): Promise<Map<string, LatticeNode>> {
-  const nodes = new Map<string, LatticeNode>();
+  return (await loadNodeIndex(vaultPath)).nodes;
+}
+
+/**
+ * Load every node file under the trash folder (all subfolders).
+ * Returns an array, not a Map: the same slug may legitimately appear in
+ * more than one trash subfolder (e.g. merged, then undone).
+ * Missing trash folder → empty array.
+ */
+export async function loadTrashedNodes(
+  vaultPath: string,
+): Promise<LatticeNode[]> {
+  const trashed: LatticeNode[] = [];
+  const stack = [join(vaultPath, TRASH_FOLDER)];
 
-  for (const level of LEVELS) {
-    const folderPath = join(vaultPath, LEVEL_FOLDERS[level]);
-    let entries: string[];
+  while (stack.length > 0) {
+    const dir = stack.pop()!;
+    let entries;
     try {
-      entries = await readdir(folderPath);
+      entries = await listDir(dir);
     } catch {
-      // Folder might not exist or be empty — skip
       continue;
     }
 
     for (const entry of entries) {
-      if (!entry.endsWith(".md")) continue;
-      const filePath = join(folderPath, entry);
+      const entryPath = join(dir, entry.name);
+      if (entry.isDirectory) {
+        stack.push(entryPath);
+        continue;
+      }
+      if (!entry.name.endsWith(".md")) continue;
       try {
-        const node = await parseNodeFile(filePath);
-        nodes.set(node.slug, node);
+        trashed.push(await parseNodeFile(entryPath));
       } catch (err) {
-        // Log parse errors but don't crash the whole load
         process.stderr.write(
-          `Warning: skipping malformed node '${entry}': ${(err as Error).message}\n`,
+          `Warning: skipping malformed trashed node '${entry.name}': ${(err as Error).message}\n`,
         );
       }
     }
   }
 
-  return nodes;
+  return trashed;
 }
 
 // ─── Creating nodes ──────────────────────────────────────────────────
@@ -361,6 +406,15 @@ export interface CreateNodeOptions {
   merged_reason?: string;
   merged_date?: string;
   merged_group_id?: string;
+  /** Slug of the node this one was split from. */
+  split_from?: string;
+  /** Creation time. Defaults to now. */
+  created?: Date;
+  /**
+   * Slug to write under instead of generating one from the title and
+   * creation time. Used when slugs are planned ahead of the write.
+   */
+  slug?: string;
 }
 
 /**
@@ -383,6 +437,10 @@ interface NodeFrontmatterOnDisk {
   merged_date?: string;
   merged_group_id?: string;
   undone_merge?: { reason?: string };
+  split_into?: string[];
+  split_reason?: string;
+  split_from?: string;
+  undone_split?: { reason?: string };
 }
 
 /**
@@ -390,15 +448,15 @@ interface NodeFrontmatterOnDisk {
  * Does NOT validate reduction chains or tags — caller must do that first.
  *
  * Includes `created` ISO timestamp in YAML for reliable cross-platform dating.
- * Uses writeFile with flag 'wx' (exclusive create) to prevent race-condition overwrites.
+ * Creates exclusively (the 'wx' flag) to prevent race-condition overwrites.
  */
 export async function createNodeFile(
   vaultPath: string,
   opts: CreateNodeOptions,
   existingSlugs?: Set<string>,
 ): Promise<{ slug: string; filePath: string }> {
-  const now = new Date();
-  const filename = generateFilename(opts.title, now);
+  const now = opts.created ?? new Date();
+  const filename = opts.slug ? `${opts.slug}.md` : generateFilename(opts.title, now);
   const slug = filenameToSlug(filename);
 
   // Check for duplicate slug against known nodes
@@ -415,7 +473,7 @@ export async function createNodeFile(
     );
   }
 
-  const folder = LEVEL_FOLDERS[opts.level];
+  const folder = levelFolder(opts.level);
   const filePath = join(vaultPath, folder, filename);
 
   const frontmatter: NodeFrontmatterOnDisk = {
@@ -429,6 +487,7 @@ export async function createNodeFile(
     merged_reason: opts.merged_reason,
     merged_date: opts.merged_date,
     merged_group_id: opts.merged_group_id,
+    split_from: opts.split_from,
   };
 
   const yamlStr = YAML.stringify(frontmatter, {
@@ -448,7 +507,7 @@ export async function createNodeFile(
 
   try {
     // 'wx' flag: create exclusively — fails if file already exists (race protection)
-    await writeFile(filePath, content, { encoding: "utf-8", flag: "wx" });
+    await writeText(filePath, content, { exclusive: true });
   } catch (err) {
     const code = (err as NodeJS.ErrnoException).code;
     if (code === "EEXIST") {
@@ -459,6 +518,24 @@ export async function createNodeFile(
     );
   }
 
+  await recordRevision(
+    filePath,
+    "create",
+    diffFields({}, {
+      title: opts.title,
+      level: opts.level,
+      reduces_to: opts.reduces_to,
+      status: opts.status,
+      tags: opts.tags,
+      proposition: opts.proposition,
+      merged_from: opts.merged_from,
+      merged_reason: opts.merged_reason,
+      merged_date: opts.merged_date,
+      merged_group_id: opts.merged_group_id,
+      split_from: opts.split_from,
+    }),
+  );
+
   return { slug, filePath };
 }
 
@@ -466,6 +543,9 @@ export async function createNodeFile(
  * Update specific fields of an existing node file on disk.
  * Reads the file, modifies the YAML frontmatter, and writes it back.
  * Only updates fields that are explicitly provided (non-undefined).
+ * Audit fields set to `null` are removed from the frontmatter.
+ * A new `proposition` replaces the body; otherwise the body is preserved.
+ * Every field that actually changes is appended to the node's revision log.
  */
 export async function updateNodeFile(
   node: LatticeNode,
@@ -474,21 +554,27 @@ export async function updateNodeFile(
     tags?: string[];
     reduces_to?: string[];
     title?: string;
-    deduplication_group?: string;
-    merged_into?: string;
-    trashed_on?: string;
-    original_status?: Status;
-    original_path?: string;
+    level?: Level;
+    proposition?: string;
+    deduplication_group?: string | null;
+    merged_into?: string | null;
+    trashed_on?: string | null;
+    original_status?: Status | null;
+    original_path?: string | null;
     merged_from?: MergedFromEntry[];
     merged_reason?: string;
     merged_date?: string;
     merged_group_id?: string;
     undone_merge?: { reason?: string };
+    split_into?: string[] | null;
+    split_reason?: string | null;
+    split_from?: string | null;
+    undone_split?: { reason?: string };
   },
 ): Promise<void> {
   let raw: string;
   try {
-    raw = await readFile(node.filePath, "utf-8");
+    raw = await readText(node.filePath);
   } catch (err) {
     throw new FilesystemError(
       `Cannot read node file '${node.filePath}': ${(err as Error).message}`,
@@ -514,11 +600,20 @@ export async function updateNodeFile(
     );
   }
 
+  const before: Record<string, unknown> = {
+    ...frontmatter,
+    proposition: fmMatch[2]
+      .trim()
+      .replace(/^\*\*Proposition:\*\*\s*/i, "")
+      .trim(),
+  };
+
   // Apply updates
   if (updates.status !== undefined) frontmatter.status = updates.status;
   if (updates.tags !== undefined) frontmatter.tags = updates.tags;
   if (updates.reduces_to !== undefined) frontmatter.reduces_to = updates.reduces_to;
   if (updates.title !== undefined) frontmatter.title = updates.title;
+  if (updates.level !== undefined) frontmatter.level = updates.level;
   if (updates.deduplication_group !== undefined) frontmatter.deduplication_group = updates.deduplication_group;
   if (updates.merged_into !== undefined) frontmatter.merged_into = updates.merged_into;
   if (updates.trashed_on !== undefined) frontmatter.trashed_on = updates.trashed_on;
@@ -529,6 +624,13 @@ export async function updateNodeFile(
   if (updates.merged_date !== undefined) frontmatter.merged_date = updates.merged_date;
   if (updates.merged_group_id !== undefined) frontmatter.merged_group_id = updates.merged_group_id;
   if (updates.undone_merge !== undefined) frontmatter.undone_merge = updates.undone_merge;
+  if (updates.split_into !== undefined) frontmatter.split_into = updates.split_into;
+  if (updates.split_reason !== undefined) frontmatter.split_reason = updates.split_reason;
+  if (updates.split_from !== undefined) frontmatter.split_from = updates.split_from;
+  if (updates.undone_split !== undefined) frontmatter.undone_split = updates.undone_split;
+  for (const [key, value] of Object.entries(updates)) {
+    if (value === null) delete frontmatter[key];
+  }
 
   const yamlStr = YAML.stringify(frontmatter, {
     lineWidth: 0,
@@ -536,16 +638,197 @@ export async function updateNodeFile(
     defaultStringType: "PLAIN",
   }).trim();
 
-  const body = fmMatch[2];
+  const body = updates.proposition !== undefined
+    ? `\n**Proposition:** ${updates.proposition}\n`
+    : fmMatch[2];
   const content = `---\n${yamlStr}\n---\n${body}`;
 
   try {
-    await writeFile(node.filePath, content, "utf-8");
+    await writeText(node.filePath, content);
   } catch (err) {
     throw new FilesystemError(
       `Cannot write node file '${node.filePath}': ${(err as Error).message}`,
     );
   }
+
+  await recordRevision(node.filePath, "update", diffFields(before, updates));
+}
+
+// ─── Renaming nodes ──────────────────────────────────────────────────
+
+/**
+ * Check that a string is usable as a node slug: lowercase latin letters,
+ * digits and single hyphens, no leading/trailing hyphen.
+ */
+export function isValidSlug(slug: string): boolean {
+  return /^[a-z0-9]+(-[a-z0-9]+)*$/.test(slug);
+}
+
+/**
+ * Move a node's file to a new absolute path (same or different folder).
+ * Throws DuplicateSlugError if a file already exists at the destination.
+ */
+export async function moveNodeFile(
+  node: LatticeNode,
+  newPath: string,
+): Promise<void> {
+  if (await pathExists(newPath)) {
+    throw new DuplicateSlugError(filenameToSlug(basename(newPath)));
+  }
+
+  try {
+    await moveFile(node.filePath, newPath);
+  } catch (err) {
+    throw new FilesystemError(
+      `Cannot move node file '${node.filePath}': ${(err as Error).message}`,
+    );
+  }
+}
+
+/**
+ * Move a node's file to `<newSlug>.md` in the same folder.
+ * Returns the new absolute file path. Does NOT rewrite references —
+ * use renameNode for that.
+ */
+export async function renameNodeFile(
+  node: LatticeNode,
+  newSlug: string,
+): Promise<string> {
+  const newPath = join(dirname(node.filePath), `${newSlug}.md`);
+  await moveNodeFile(node, newPath);
+  return newPath;
+}
+
+/** What renameNode changed (or would change, on a dry run). */
+export interface RenameResult {
+  from: string;
+  to: string;
+  file: string;
+  new_file: string;
+  /** Live nodes whose reduces_to pointed at the old slug. */
+  reduces_to_rewritten: string[];
+  /** Trashed nodes whose merged_into pointed at the old slug. */
+  merged_into_rewritten: string[];
+  /** Nodes (live or trashed) with a merged_from entry (or recorded dependent) for the old slug. */
+  merged_from_rewritten: string[];
+  /** Split originals (trashed) whose split_into lists the old slug. */
+  split_into_rewritten: string[];
+}
+
+/**
+ * Change a live node's slug and rewrite every reference to it:
+ *   - reduces_to on live nodes
+ *   - merged_into on trashed nodes
+ *   - merged_from[].id (and original_path) and merged_from[].dependents
+ *     on live and trashed nodes
+ *   - split_into on trashed split originals
+ *
+ * The file stays in its level folder. All files are rewritten in one
+ * transaction, so a crash never leaves some references on the old slug.
+ * With dryRun, nothing is written but the returned result lists exactly
+ * what would change.
+ *
+ * Throws DuplicateSlugError if the new slug is already taken.
+ */
+export async function renameNode(
+  vaultPath: string,
+  node: LatticeNode,
+  newSlug: string,
+  nodes: Map<string, LatticeNode>,
+  dryRun = false,
+): Promise<RenameResult> {
+  const oldSlug = node.slug;
+  if (nodes.has(newSlug)) {
+    throw new DuplicateSlugError(newSlug);
+  }
+
+  const newPath = join(dirname(node.filePath), `${newSlug}.md`);
+  const result: RenameResult = {
+    from: oldSlug,
+    to: newSlug,
+    file: node.filePath,
+    new_file: newPath,
+    reduces_to_rewritten: [],
+    merged_into_rewritten: [],
+    merged_from_rewritten: [],
+    split_into_rewritten: [],
+  };
+
+  const trashed = await loadTrashedNodes(vaultPath);
+  const others = [
+    ...Array.from(nodes.values()).filter((n) => n.slug !== oldSlug),
+    ...trashed,
+  ];
+
+  // Only live nodes carry meaningful reduces_to; trashed ones are frozen
+  const liveReferrers = new Set<LatticeNode>();
+  for (const other of others) {
+    if (other.reduces_to.includes(oldSlug) && nodes.get(other.slug) === other) {
+      liveReferrers.add(other);
+      result.reduces_to_rewritten.push(other.slug);
+    }
+    if (other.merged_into === oldSlug) {
+      result.merged_into_rewritten.push(other.slug);
+    }
+    if (other.split_into?.includes(oldSlug)) {
+      result.split_into_rewritten.push(other.slug);
+    }
+  }
+  const recordsSlug = (holder: LatticeNode) =>
+    holder.merged_from?.some((e) => e.id === oldSlug || e.dependents?.includes(oldSlug));
+  for (const holder of [node, ...others]) {
+    if (recordsSlug(holder)) {
+      result.merged_from_rewritten.push(holder.slug);
+    }
+  }
+
+  if (dryRun) return result;
+
+  await runInTransaction(vaultPath, async () => {
+    const movedPath = await renameNodeFile(node, newSlug);
+    await renameHistory(vaultPath, oldSlug, newSlug);
+    await recordRevision(movedPath, "rename", {
+      slug: { old: oldSlug, new: newSlug },
+    });
+
+    for (const holder of [{ ...node, slug: newSlug, filePath: movedPath }, ...others]) {
+      const updates: Parameters<typeof updateNodeFile>[1] = {};
+
+      if (holder.merged_into === oldSlug) {
+        updates.merged_into = newSlug;
+      }
+      if (holder.merged_from && recordsSlug(holder)) {
+        updates.merged_from = holder.merged_from.map((e) => {
+          const entry = e.dependents?.includes(oldSlug)
+            ? { ...e, dependents: e.dependents.map((d) => (d === oldSlug ? newSlug : d)) }
+            : e;
+          return entry.id === oldSlug
+            ? {
+                ...entry,
+                id: newSlug,
+                original_path: entry.original_path === node.filePath
+                  ? newPath
+                  : entry.original_path,
+              }
+            : entry;
+        });
+      }
+      if (holder.split_into?.includes(oldSlug)) {
+        updates.split_into = holder.split_into.map((s) => (s === oldSlug ? newSlug : s));
+      }
+      if (liveReferrers.has(holder)) {
+        updates.reduces_to = holder.reduces_to.map((ref) =>
+          ref === oldSlug ? newSlug : ref,
+        );
+      }
+
+      if (Object.keys(updates).length > 0) {
+        await updateNodeFile(holder, updates);
+      }
+    }
+  });
+
+  return result;
 }
 
 /**
@@ -613,3 +896,23 @@ export function findNodeBySlug(
   // No match
   return { slug: null, ambiguous: false, candidates: [] };
 }
+
+/**
+ * Resolve a node query to a unique slug. Throws on ambiguous or no match.
+ */
+export function resolveNodeSlug(
+  query: string,
+  nodes: Map<string, LatticeNode>,
+): string {
+  const result = findNodeBySlug(query, nodes);
+
+  if (result.ambiguous) {
+    throw new AmbiguousMatchError(query, result.candidates);
+  }
+
+  if (!result.slug) {
+    throw new NodeNotFoundError(query);
+  }
+
+  return result.slug;
+}
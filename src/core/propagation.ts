@@ -0,0 +1,165 @@
+import { isBedrock, levelRank } from "./levels.js";
+import { canTransition, initialStatus, isGrounded, validatedStatus } from "./statuses.js";
+import { buildIncomingLinks, collectDependents } from "./graph.js";
+import { updateNodeFile, type LatticeNode } from "./node.js";
+import { loadConfig } from "./config.js";
+
+/** A validated dependent demoted because an ancestor was demoted. */
+export interface DemotedNode {
+  slug: string;
+  title: string;
+  /** Distance from the node whose demotion triggered this one. */
+  depth: number;
+}
+
+/**
+ * List the validated dependents whose chain stops holding once `slug` is
+ * ungrounded: every grounded node that transitively reduces to it.
+ * Ungrounded nodes in between are walked through, since a validated node
+ * above them was already hollow.
+ */
+export function planDemotion(
+  slug: string,
+  nodes: Map<string, LatticeNode>,
+): DemotedNode[] {
+  const incoming = buildIncomingLinks(nodes);
+  const demoted: DemotedNode[] = [];
+  for (const d of collectDependents(slug, incoming)) {
+    const node = nodes.get(d.slug);
+    if (!node) continue;
+    if (isBedrock(node.level) || !isGrounded(node.status)) continue;
+    demoted.push({ slug: node.slug, title: node.title, depth: d.depth });
+  }
+  return demoted;
+}
+
+/**
+ * Demote every dependent `planDemotion` returns to the initial status
+ * (Tentative/Hypothesis by default). Call after `slug` itself has been
+ * demoted. Returns the nodes that were changed.
+ */
+export async function propagateDemotion(
+  slug: string,
+  nodes: Map<string, LatticeNode>,
+  dryRun = false,
+): Promise<DemotedNode[]> {
+  const demoted = planDemotion(slug, nodes);
+  if (!dryRun) {
+    for (const d of demoted) {
+      await updateNodeFile(nodes.get(d.slug)!, { status: initialStatus() });
+    }
+  }
+  return demoted;
+}
+
+/**
+ * Whether a demotion should propagate: always when the vault sets
+ * propagate_demotion, otherwise only when the caller asked for it.
+ */
+export async function shouldPropagate(
+  vaultPath: string,
+  requested: boolean,
+): Promise<boolean> {
+  if (requested) return true;
+  return (await loadConfig(vaultPath)).propagate_demotion;
+}
+
+/** Outcome of one node in a bulk promotion. */
+export interface PromotionStep {
+  slug: string;
+  title: string;
+  level: string;
+  promoted: boolean;
+  /** Why the node could not be promoted. */
+  reason?: string;
+}
+
+/**
+ * Plan promoting a set of nodes to the validated status (the first
+ * grounded one; Integrated/Validated by default) in one pass.
+ *
+ * Only ungrounded non-bedrock nodes whose status may change to the
+ * validated one are considered (a final Refuted is left alone). They are ordered
+ * parents-first (lower rank first, then topologically), and each is
+ * checked against the statuses its parents will have by the time it is
+ * reached — so a principle promoted earlier in the batch unblocks the
+ * applications built on it. A node whose parent stays ungrounded is
+ * reported with the reason instead of promoted.
+ */
+export function planPromotion(
+  slugs: string[],
+  nodes: Map<string, LatticeNode>,
+): PromotionStep[] {
+  const candidates = new Set(
+    slugs.filter((s) => {
+      const n = nodes.get(s);
+      if (!n) return false;
+      return (
+        !isBedrock(n.level) &&
+        !isGrounded(n.status) &&
+        canTransition(n.status, validatedStatus())
+      );
+    }),
+  );
+
+  // Parents-first topological order, visiting in rank order
+  const ordered: string[] = [];
+  const visited = new Set<string>();
+  const visit = (slug: string): void => {
+    if (visited.has(slug)) return;
+    visited.add(slug);
+    for (const parent of nodes.get(slug)!.reduces_to) {
+      if (candidates.has(parent)) visit(parent);
+    }
+    ordered.push(slug);
+  };
+  const byRank = [...candidates].sort(
+    (a, b) =>
+      levelRank(nodes.get(a)!.level) - levelRank(nodes.get(b)!.level) ||
+      a.localeCompare(b),
+  );
+  for (const slug of byRank) visit(slug);
+
+  const validated = new Set<string>();
+  const failed = new Set<string>();
+  const steps: PromotionStep[] = [];
+
+  for (const slug of ordered) {
+    const node = nodes.get(slug)!;
+    let reason: string | undefined;
+
+    if (node.reduces_to.length === 0) {
+      reason = `has no reduces_to links; a ${node.level} must reduce to something before it can be validated`;
+    } else {
+      for (const parentSlug of node.reduces_to) {
+        const parent = nodes.get(parentSlug);
+        if (!parent) {
+          reason = `parent '${parentSlug}' does not exist`;
+        } else if (failed.has(parentSlug)) {
+          reason = `parent '${parentSlug}' could not be promoted`;
+        } else if (
+          !isGrounded(parent.status) &&
+          !validated.has(parentSlug)
+        ) {
+          reason = `parent '${parentSlug}' is still ${parent.status}`;
+        }
+        if (reason) break;
+      }
+    }
+
+    if (reason) {
+      failed.add(slug);
+    } else {
+      validated.add(slug);
+    }
+    steps.push({
+      slug,
+      title: node.title,
+      level: node.level,
+      promoted: !reason,
+      reason,
+    });
+  }
+
+  return steps;
+}
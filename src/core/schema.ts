@@ -0,0 +1,39 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import type { LevelDefinition } from "./levels.js";
+import type { StatusDefinition } from "./statuses.js";
+
+/**
+ * A vault's level hierarchy and status workflow: what every level and
+ * status check in levels.ts and statuses.ts reads.
+ *
+ * A CLI command works on one vault, so requireVault makes that vault's
+ * schema the process default. A Lattice instance or a server session
+ * keeps its own and runs each operation inside withSchema, so instances
+ * on different vaults never see each other's schema, even when their
+ * operations interleave.
+ */
+export interface VaultSchema {
+  levels: readonly LevelDefinition[];
+  statuses: readonly StatusDefinition[];
+}
+
+const scoped = new AsyncLocalStorage<VaultSchema>();
+let processDefault: VaultSchema | undefined;
+
+/**
+ * The schema in effect: the enclosing withSchema call's, else the process
+ * default. Undefined before any vault is opened (the built-ins apply).
+ */
+export function activeSchema(): VaultSchema | undefined {
+  return scoped.getStore() ?? processDefault;
+}
+
+/** Make `schema` the process default. */
+export function useSchema(schema: VaultSchema): void {
+  processDefault = schema;
+}
+
+/** Run `fn`, and everything it awaits, with `schema` in effect. */
+export function withSchema<T>(schema: VaultSchema, fn: () => T): T {
+  return scoped.run(schema, fn);
+}
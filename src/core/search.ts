@@ -0,0 +1,332 @@
+import type { LatticeNode } from "./node.js";
+import type { Level, Status } from "./constants.js";
+import type { EntryPoints } from "./graph.js";
+
+/**
+ * Full-text search over title, proposition and tags.
+ *
+ * An inverted index (term → node → positions per field) is built from a
+ * loaded node map and ranked with BM25F: each field's term frequency is
+ * length-normalized and weighted before saturation, so a word in the
+ * title counts for more than the same word in a long proposition.
+ *
+ * The index lives in memory next to the node map it was built from and
+ * is rebuilt only when that map is replaced (a CLI run, or a reload in
+ * `lattice serve`).
+ *
+ * Query syntax: bare words are OR'ed and ranked; "quoted phrases" must
+ * appear as consecutive words in one field of every result.
+ */
+
+type Field = "title" | "proposition" | "tags";
+
+const FIELDS: Field[] = ["title", "proposition", "tags"];
+
+/** How much a match in each field counts relative to the proposition. */
+const FIELD_WEIGHTS: Record<Field, number> = { title: 3, tags: 2, proposition: 1 };
+
+/** BM25 term-frequency saturation. */
+const K1 = 1.2;
+
+/** BM25 length normalization (0 = none, 1 = full). */
+const B = 0.75;
+
+/** Seeds taken from search results when seeding a related-nodes walk. */
+const SEARCH_SEEDS = 5;
+
+/** Approximate snippet length, in characters. */
+const SNIPPET_CHARS = 160;
+
+/** Words too common to index or search for. */
+const STOPWORDS = new Set([
+  "a", "an", "and", "are", "as", "at", "be", "by", "for", "from", "if", "in",
+  "into", "is", "it", "its", "of", "on", "or", "so", "that", "the", "their",
+  "then", "there", "this", "to", "was", "were", "will", "with",
+]);
+
+// ─── Tokenizing ──────────────────────────────────────────────────────
+
+/** A word of a text: its indexed term and where it sits. */
+interface Token {
+  term: string;
+  /** Word position, counting stopwords, so phrases keep their gaps. */
+  position: number;
+  start: number;
+  end: number;
+}
+
+/**
+ * Split text into lowercase, accent-free terms with light plural
+ * stemming ("tests" → "test", "policies" → "policy"). Stopwords are
+ * dropped but still advance the position.
+ */
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  let position = 0;
+  for (const match of text.matchAll(/[\p{L}\p{N}]+/gu)) {
+    const word = match[0].normalize("NFKD").replace(/[\u0300-\u036f]/g, "").toLowerCase();
+    const pos = position++;
+    if (STOPWORDS.has(word)) continue;
+    tokens.push({
+      term: stem(word),
+      position: pos,
+      start: match.index!,
+      end: match.index! + match[0].length,
+    });
+  }
+  return tokens;
+}
+
+/** The indexed terms of a text, in order, as search and embeddings see them. */
+export function textTerms(text: string): string[] {
+  return tokenize(text).map((t) => t.term);
+}
+
+function stem(word: string): string {
+  if (word.length > 4 && word.endsWith("ies")) return word.slice(0, -3) + "y";
+  if (word.length > 3 && word.endsWith("s") && !/(ss|us|is)$/.test(word)) {
+    return word.slice(0, -1);
+  }
+  return word;
+}
+
+function fieldText(node: LatticeNode, field: Field): string {
+  switch (field) {
+    case "title":
+      return node.title;
+    case "proposition":
+      return node.proposition;
+    case "tags":
+      return node.tags.join(" ");
+  }
+}
+
+// ─── Index ───────────────────────────────────────────────────────────
+
+type Positions = Partial<Record<Field, number[]>>;
+
+interface SearchIndex {
+  /** Term → slug → positions of the term in each field. */
+  postings: Map<string, Map<string, Positions>>;
+  /** Slug → length of each field, in terms. */
+  lengths: Map<string, Record<Field, number>>;
+  averageLength: Record<Field, number>;
+}
+
+const indexes = new WeakMap<Map<string, LatticeNode>, SearchIndex>();
+
+/** The search index for a node map, built on first use. */
+function indexFor(nodes: Map<string, LatticeNode>): SearchIndex {
+  let index = indexes.get(nodes);
+  if (!index) {
+    index = buildIndex(nodes);
+    indexes.set(nodes, index);
+  }
+  return index;
+}
+
+function buildIndex(nodes: Map<string, LatticeNode>): SearchIndex {
+  const postings = new Map<string, Map<string, Positions>>();
+  const lengths = new Map<string, Record<Field, number>>();
+  const totals: Record<Field, number> = { title: 0, proposition: 0, tags: 0 };
+
+  for (const node of nodes.values()) {
+    const length: Record<Field, number> = { title: 0, proposition: 0, tags: 0 };
+    for (const field of FIELDS) {
+      const tokens = tokenize(fieldText(node, field));
+      length[field] = tokens.length;
+      totals[field] += tokens.length;
+      for (const { term, position } of tokens) {
+        let docs = postings.get(term);
+        if (!docs) postings.set(term, (docs = new Map()));
+        let positions = docs.get(node.slug);
+        if (!positions) docs.set(node.slug, (positions = {}));
+        (positions[field] ??= []).push(position);
+      }
+    }
+    lengths.set(node.slug, length);
+  }
+
+  const count = Math.max(1, nodes.size);
+  return {
+    postings,
+    lengths,
+    averageLength: {
+      title: totals.title / count || 1,
+      proposition: totals.proposition / count || 1,
+      tags: totals.tags / count || 1,
+    },
+  };
+}
+
+// ─── Queries ─────────────────────────────────────────────────────────
+
+/** A parsed search query. */
+interface ParsedQuery {
+  /** Every distinct term, from words and phrases, for ranking. */
+  terms: string[];
+  /** Phrases of two or more terms, each with its relative positions. */
+  phrases: Array<Array<{ term: string; offset: number }>>;
+}
+
+function parseQuery(query: string): ParsedQuery {
+  const terms = new Set<string>();
+  const phrases: ParsedQuery["phrases"] = [];
+  // Split on quotes: odd-numbered parts are phrases; an unclosed quote
+  // runs to the end
+  const parts = query.split('"');
+  parts.forEach((part, i) => {
+    const tokens = tokenize(part);
+    for (const t of tokens) terms.add(t.term);
+    if (i % 2 === 1 && tokens.length > 1) {
+      const base = tokens[0].position;
+      phrases.push(tokens.map((t) => ({ term: t.term, offset: t.position - base })));
+    }
+  });
+  return { terms: [...terms], phrases };
+}
+
+/** Whether a phrase occurs, with its gaps, in one field of a node. */
+function hasPhrase(
+  index: SearchIndex,
+  slug: string,
+  phrase: ParsedQuery["phrases"][number],
+): boolean {
+  const [first, ...rest] = phrase;
+  const firstPositions = index.postings.get(first.term)?.get(slug);
+  if (!firstPositions) return false;
+  return FIELDS.some((field) =>
+    (firstPositions[field] ?? []).some((start) =>
+      rest.every(({ term, offset }) =>
+        index.postings.get(term)?.get(slug)?.[field]?.includes(start + offset - first.offset),
+      ),
+    ),
+  );
+}
+
+/** Restrict results to one level, status and/or tag. */
+export interface SearchFilter {
+  level?: Level;
+  status?: Status;
+  tag?: string;
+}
+
+/** One ranked search result. */
+export interface SearchHit {
+  slug: string;
+  title: string;
+  level: Level;
+  status: Status;
+  tags: string[];
+  /** BM25F score, rounded to 2 decimals. Higher is better. */
+  score: number;
+  /** Excerpt of the proposition around the first match (or its start). */
+  snippet: string;
+  /** [start, end) character ranges of matched words within the snippet. */
+  highlights: Array<[number, number]>;
+}
+
+/**
+ * Rank nodes against a query. Returns hits sorted by descending score,
+ * at most `limit`. A query with no searchable terms (only stopwords or
+ * punctuation) returns no hits.
+ */
+export function searchNodes(
+  query: string,
+  nodes: Map<string, LatticeNode>,
+  opts: SearchFilter & { limit?: number } = {},
+): SearchHit[] {
+  const index = indexFor(nodes);
+  const parsed = parseQuery(query);
+  if (parsed.terms.length === 0) return [];
+
+  const scores = new Map<string, number>();
+  const n = nodes.size;
+  for (const term of parsed.terms) {
+    const docs = index.postings.get(term);
+    if (!docs) continue;
+    const idf = Math.log(1 + (n - docs.size + 0.5) / (docs.size + 0.5));
+    for (const [slug, positions] of docs) {
+      const length = index.lengths.get(slug)!;
+      let tf = 0;
+      for (const field of FIELDS) {
+        const count = positions[field]?.length ?? 0;
+        if (count === 0) continue;
+        const norm = 1 - B + B * (length[field] / index.averageLength[field]);
+        tf += (FIELD_WEIGHTS[field] * count) / norm;
+      }
+      scores.set(slug, (scores.get(slug) ?? 0) + (idf * tf) / (K1 + tf));
+    }
+  }
+
+  const tag = opts.tag?.toLowerCase();
+  const matched = new Set(parsed.terms);
+  const hits: SearchHit[] = [];
+  for (const [slug, score] of scores) {
+    const node = nodes.get(slug)!;
+    if (opts.level && node.level !== opts.level) continue;
+    if (opts.status && node.status !== opts.status) continue;
+    if (tag && !node.tags.includes(tag)) continue;
+    if (!parsed.phrases.every((p) => hasPhrase(index, slug, p))) continue;
+    hits.push({
+      slug,
+      title: node.title,
+      level: node.level,
+      status: node.status,
+      tags: node.tags,
+      score: Math.round(score * 100) / 100,
+      ...snippet(node.proposition, matched),
+    });
+  }
+
+  hits.sort((a, b) => b.score - a.score || a.slug.localeCompare(b.slug));
+  return hits.slice(0, opts.limit ?? hits.length);
+}
+
+/**
+ * An excerpt of `text` of about SNIPPET_CHARS characters, starting a
+ * little before the first matched word, with every matched word in it
+ * located. Whitespace is collapsed; cut ends are marked with "…".
+ */
+function snippet(
+  text: string,
+  terms: Set<string>,
+): { snippet: string; highlights: Array<[number, number]> } {
+  const flat = text.replace(/\s+/g, " ").trim();
+  const tokens = tokenize(flat);
+  const first = tokens.find((t) => terms.has(t.term));
+
+  let start = first ? Math.max(0, first.start - 40) : 0;
+  if (start > 0) {
+    const space = flat.indexOf(" ", start);
+    start = space === -1 || space >= first!.start ? first!.start : space + 1;
+  }
+  let end = Math.min(flat.length, start + SNIPPET_CHARS);
+  if (end < flat.length) {
+    const space = flat.lastIndexOf(" ", end);
+    if (space > start) end = space;
+  }
+
+  const prefix = start > 0 ? "…" : "";
+  const suffix = end < flat.length ? "…" : "";
+  const highlights: Array<[number, number]> = tokens
+    .filter((t) => terms.has(t.term) && t.start >= start && t.end <= end)
+    .map((t) => [t.start - start + prefix.length, t.end - start + prefix.length]);
+  return { snippet: prefix + flat.slice(start, end) + suffix, highlights };
+}
+
+/**
+ * Entry points for findRelatedNodes from the best full-text matches.
+ * Returns no slugs if nothing matches.
+ */
+export function searchEntryPoints(
+  query: string,
+  nodes: Map<string, LatticeNode>,
+): EntryPoints {
+  const hits = searchNodes(query, nodes, { limit: SEARCH_SEEDS });
+  if (hits.length === 0) return { slugs: [], method: "" };
+  return {
+    slugs: hits.map((h) => h.slug),
+    method: `search: "${query}" (${hits.length} seeds)`,
+  };
+}
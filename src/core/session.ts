@@ -0,0 +1,185 @@
+import { watch, type FSWatcher } from "node:fs";
+import { join } from "node:path";
+import { CONFIG_JSON_FILE, CONFIG_YAML_FILES, TAGS_JSON_FILE } from "./constants.js";
+import { levelFolders } from "./levels.js";
+import { loadAllNodes, resolveNodeSlug, type LatticeNode } from "./node.js";
+import { loadTags } from "./tags.js";
+import { loadConfig } from "./config.js";
+import { loadSchema } from "./vault.js";
+import { withSchema, type VaultSchema } from "./schema.js";
+import { withVaultLock } from "./lock.js";
+import {
+  planOperation,
+  applyBatch,
+  type BatchOperation,
+  type BatchPlan,
+} from "./batch.js";
+import { findEntryPoints, type EntryPoints, type SeedStrategy } from "./graph.js";
+import { findSemanticEntryPoints, providerFromConfig } from "./embeddings.js";
+
+/**
+ * A vault held open by a long-running process such as `lattice serve`.
+ *
+ * The graph and tag list are loaded on first use and kept in memory.
+ * Watchers on the level folders and the vault root mark them stale when
+ * any file changes — edits in Obsidian, other `lattice` processes — and
+ * the next read reloads. A server's own writes call invalidate() so the
+ * following read sees them without waiting for the watcher.
+ *
+ * The session keeps the vault's levels and statuses too (see schema.ts),
+ * reloaded when the config file changes, and runs its own operations
+ * with them in effect.
+ */
+export interface VaultSession {
+  readonly vaultPath: string;
+  nodes(): Promise<Map<string, LatticeNode>>;
+  tags(): Promise<string[]>;
+  /** Force a reload on the next read. */
+  invalidate(): void;
+  /**
+   * Run `fn` with the vault's levels and statuses in effect. Servers run
+   * each request in it, so every check reads this vault's schema.
+   */
+  run<T>(fn: () => Promise<T>): Promise<T>;
+  /** Resolve a node query to a unique slug, as the CLI commands do. */
+  resolveNode(query: string): Promise<string>;
+  /**
+   * Entry points for a related-nodes walk, as 'query related --seed'
+   * finds them. "semantic" uses the vault's embedding provider.
+   */
+  entryPoints(query: string, seed: SeedStrategy): Promise<EntryPoints>;
+  /**
+   * Validate and write one operation, with the same rules as the
+   * corresponding CLI command (see planOperation). Runs under the vault
+   * lock against a freshly loaded graph, since another writer may have
+   * changed it.
+   */
+  apply(op: BatchOperation): Promise<BatchPlan>;
+  /**
+   * Register a callback run after a reload changed the master tag list,
+   * so servers can re-announce schemas that enumerate tags.
+   */
+  onTagsChanged(listener: () => void): void;
+  /** Stop watching. The session must not be used afterwards. */
+  close(): void;
+}
+
+/** Open a session on an initialized vault. */
+export function openSession(vaultPath: string): VaultSession {
+  let nodes: Map<string, LatticeNode> | null = null;
+  let tags: string[] | null = null;
+  let schema: VaultSchema | null = null;
+  let loading: Promise<void> | null = null;
+  /** Bumped on every change, so a load that raced a change is discarded. */
+  let generation = 0;
+  const tagListeners: Array<() => void> = [];
+  /** Tail of the queue of pending apply() calls. */
+  let writes: Promise<unknown> = Promise.resolve();
+
+  const invalidate = (): void => {
+    generation++;
+    nodes = null;
+  };
+
+  const watchers: FSWatcher[] = [];
+  for (const folder of levelFolders()) {
+    try {
+      watchers.push(watch(join(vaultPath, folder), invalidate));
+    } catch {
+      // Folder missing — nodes cannot appear there without a reload anyway
+    }
+  }
+  watchers.push(
+    watch(vaultPath, (_event, filename) => {
+      if (filename === TAGS_JSON_FILE) invalidate();
+      if (filename === CONFIG_JSON_FILE || CONFIG_YAML_FILES.includes(filename as string)) {
+        schema = null;
+        invalidate();
+      }
+    }),
+  );
+  for (const w of watchers) w.unref();
+
+  const currentSchema = async (): Promise<VaultSchema> => {
+    schema ??= await loadSchema(vaultPath);
+    return schema;
+  };
+
+  const reload = async (): Promise<void> => {
+    const previousTags = tags;
+    const started = generation;
+    const loadedSchema = await currentSchema();
+    const [loadedNodes, loadedTags] = await Promise.all([
+      withSchema(loadedSchema, () => loadAllNodes(vaultPath)),
+      loadTags(vaultPath),
+    ]);
+    if (generation === started) nodes = loadedNodes;
+    tags = loadedTags;
+    if (previousTags && previousTags.join(",") !== loadedTags.join(",")) {
+      for (const listener of tagListeners) listener();
+    }
+  };
+
+  const ensureLoaded = async (): Promise<void> => {
+    while (!nodes) {
+      loading ??= reload().finally(() => {
+        loading = null;
+      });
+      await loading;
+    }
+  };
+
+  const session: VaultSession = {
+    vaultPath,
+    async nodes() {
+      await ensureLoaded();
+      return nodes!;
+    },
+    async tags() {
+      await ensureLoaded();
+      return tags!;
+    },
+    invalidate,
+    async run(fn) {
+      return withSchema(await currentSchema(), fn);
+    },
+    async resolveNode(query) {
+      return resolveNodeSlug(query, await session.nodes());
+    },
+    entryPoints(query, seed) {
+      return session.run(async () => {
+        const loaded = await session.nodes();
+        if (seed !== "semantic") return findEntryPoints(query, loaded, seed);
+        const provider = providerFromConfig((await loadConfig(vaultPath)).embeddings);
+        return findSemanticEntryPoints(vaultPath, query, loaded, provider);
+      });
+    },
+    apply(op) {
+      // Queue the server's own requests, so they run in arrival order
+      // instead of polling for the lock and timing out behind each other
+      const run = writes.then(() => withVaultLock(vaultPath, async () => {
+        invalidate();
+        const config = await loadConfig(vaultPath);
+        // Writes follow the config on disk, even before the watcher fires
+        schema = { levels: config.levels, statuses: config.statuses };
+
+        return withSchema(schema, async () => {
+          const loaded = await session.nodes();
+          const plan = planOperation(vaultPath, op, loaded, await session.tags(), config);
+          await applyBatch(vaultPath, plan);
+          invalidate();
+          return plan;
+        });
+      }));
+      writes = run.catch(() => undefined);
+      return run;
+    },
+    onTagsChanged(listener) {
+      tagListeners.push(listener);
+    },
+    close() {
+      for (const w of watchers) w.close();
+    },
+  };
+  return session;
+}
@@ -0,0 +1,228 @@
+import { join } from "node:path";
+import { EXIT, type Status } from "./constants.js";
+import { isBedrock, levelFolder } from "./levels.js";
+import { initialStatus, isGrounded, isStatus, validatedStatus } from "./statuses.js";
+import {
+  generateFilename,
+  filenameToSlug,
+  resolveNodeSlug,
+  type LatticeNode,
+} from "./node.js";
+import { validateReductionLinks, validateParentsAreValidated } from "./graph.js";
+import { validateTags } from "./tags.js";
+import {
+  LatticeError,
+  BedrockReductionError,
+  DuplicateSlugError,
+  InvalidStatusError,
+  MissingReductionError,
+  UnvalidatedParentError,
+} from "../util/errors.js";
+
+// ─── Spec ────────────────────────────────────────────────────────────
+
+/**
+ * One node that replaces part of the original. `id` names the placeholder
+ * `dependents` refers to as `$id`; it defaults to the part's position
+ * ("1", "2", ...).
+ */
+export interface SplitPart {
+  id?: string;
+  title: string;
+  proposition: string;
+  /** Default: the original's reduces_to. */
+  reduces_to?: string[];
+  /** Default: the original's tags. */
+  tags?: string[];
+  /**
+   * Default: the original's status, or the initial status
+   * (Tentative/Hypothesis) if the part's parents are not all validated.
+   */
+  status?: string;
+}
+
+/** What `lattice split --into` reads. */
+export interface SplitSpec {
+  parts: SplitPart[];
+  /**
+   * Each node that reduces to the original (slug, partial slug or title)
+   * → the parts it reduces to instead, as `$id` placeholders.
+   */
+  dependents?: Record<string, string | string[]>;
+  /** Recorded on the trashed original. */
+  reason?: string;
+}
+
+/**
+ * Parse a split spec from JSON. Only the shape is checked here; everything
+ * else is validated by planSplit.
+ */
+export function parseSplitSpec(raw: string): SplitSpec {
+  let spec: SplitSpec;
+  try {
+    spec = JSON.parse(raw) as SplitSpec;
+  } catch (err) {
+    throw new LatticeError(`Split spec is not valid JSON: ${(err as Error).message}`, EXIT.BAD_INPUT);
+  }
+  if (!spec || typeof spec !== "object" || !Array.isArray(spec.parts)) {
+    throw new LatticeError(`Split spec must be an object with a "parts" array`, EXIT.BAD_INPUT);
+  }
+  spec.parts.forEach((part, i) => {
+    if (!part || typeof part.title !== "string" || typeof part.proposition !== "string") {
+      throw new LatticeError(`Part ${i + 1}: "title" and "proposition" are required`, EXIT.BAD_INPUT);
+    }
+  });
+  if (spec.dependents !== undefined && (typeof spec.dependents !== "object" || Array.isArray(spec.dependents))) {
+    throw new LatticeError(`Split spec "dependents" must map node → parts`, EXIT.BAD_INPUT);
+  }
+  return spec;
+}
+
+// ─── Planning ────────────────────────────────────────────────────────
+
+/** A part as it will be created. */
+export interface PlannedPart {
+  id: string;
+  slug: string;
+  filePath: string;
+  title: string;
+  proposition: string;
+  reduces_to: string[];
+  tags: string[];
+  status: Status;
+}
+
+/** A fully validated split, ready to write. */
+export interface SplitPlan {
+  parts: PlannedPart[];
+  /** Each dependent of the original and the part slugs it will reduce to. */
+  rewired: Array<{ slug: string; to: string[] }>;
+  /** Dependents the spec does not assign to any part. */
+  unassigned: string[];
+}
+
+/**
+ * Validate a split of `original` against the live graph. Parts are checked
+ * as `add` checks a node at the original's level: title and proposition,
+ * tags against the master list, rank order, cycles and validated parents.
+ * Parts may not reduce to the original or to each other. Nothing touches
+ * disk.
+ */
+export function planSplit(
+  vaultPath: string,
+  original: LatticeNode,
+  spec: SplitSpec,
+  nodes: Map<string, LatticeNode>,
+  masterTags: string[],
+  now: Date = new Date(),
+): SplitPlan {
+  if (spec.parts.length < 2) {
+    throw new LatticeError("A split needs at least 2 parts", EXIT.BAD_INPUT);
+  }
+
+  const level = original.level;
+  const bedrock = isBedrock(level);
+  const placeholders = new Map<string, string>();
+  const parts: PlannedPart[] = [];
+
+  spec.parts.forEach((part, i) => {
+    const label = `Part ${i + 1}`;
+    const title = part.title.trim();
+    const proposition = part.proposition.trim();
+    if (!title) throw new LatticeError(`${label}: title cannot be empty`, EXIT.BAD_INPUT);
+    if (!proposition) throw new LatticeError(`${label}: proposition cannot be empty`, EXIT.BAD_INPUT);
+
+    const tags = part.tags
+      ? part.tags.map((t) => t.trim().toLowerCase()).filter(Boolean)
+      : original.tags;
+    validateTags(tags, masterTags);
+
+    const reducesTo = part.reduces_to
+      ? part.reduces_to.map((r) => r.replace(/\.md$/, "").trim()).filter(Boolean)
+      : original.reduces_to;
+    if (!bedrock && reducesTo.length === 0) throw new MissingReductionError(level);
+    if (bedrock && reducesTo.length > 0) throw new BedrockReductionError(level);
+    if (reducesTo.includes(original.slug)) {
+      throw new LatticeError(`${label}: cannot reduce to the node being split`, EXIT.BAD_INPUT);
+    }
+
+    const filename = generateFilename(title, now);
+    const slug = filenameToSlug(filename);
+    if (nodes.has(slug) || parts.some((p) => p.slug === slug)) {
+      throw new DuplicateSlugError(slug);
+    }
+    if (reducesTo.length > 0) validateReductionLinks(slug, level, reducesTo, nodes);
+
+    let status: Status;
+    if (bedrock) {
+      status = validatedStatus();
+    } else if (part.status !== undefined) {
+      if (!isStatus(part.status)) throw new InvalidStatusError(part.status);
+      status = part.status;
+      if (isGrounded(status)) validateParentsAreValidated(reducesTo, nodes);
+    } else {
+      status = original.status;
+      if (isGrounded(status)) {
+        try {
+          validateParentsAreValidated(reducesTo, nodes);
+        } catch (err) {
+          if (!(err instanceof UnvalidatedParentError)) throw err;
+          status = initialStatus();
+        }
+      }
+    }
+
+    const id = String(part.id ?? i + 1);
+    if (placeholders.has(id)) {
+      throw new LatticeError(`Placeholder id '${id}' is already used`, EXIT.BAD_INPUT);
+    }
+    placeholders.set(id, slug);
+    parts.push({
+      id,
+      slug,
+      filePath: join(vaultPath, levelFolder(level), filename),
+      title,
+      proposition,
+      reduces_to: reducesTo,
+      tags,
+      status,
+    });
+  });
+
+  const dependents = Array.from(nodes.values())
+    .filter((n) => n.reduces_to.includes(original.slug))
+    .map((n) => n.slug);
+
+  const assigned = new Map<string, string[]>();
+  for (const [query, refs] of Object.entries(spec.dependents ?? {})) {
+    const child = resolveNodeSlug(query, nodes);
+    if (!dependents.includes(child)) {
+      throw new LatticeError(`${child} does not reduce to ${original.slug}`, EXIT.BAD_INPUT);
+    }
+    const to = (Array.isArray(refs) ? refs : [refs]).map((ref) => {
+      const value = String(ref).trim();
+      const slug = value.startsWith("$") ? placeholders.get(value.slice(1)) : undefined;
+      if (!slug) {
+        throw new LatticeError(
+          `Unknown part '${value}' for ${child}. Use $<id> (parts: ${[...placeholders.keys()].map((k) => `$${k}`).join(", ")})`,
+          EXIT.BAD_INPUT,
+        );
+      }
+      return slug;
+    });
+    if (to.length === 0) {
+      throw new LatticeError(`${child} must reduce to at least one part`, EXIT.BAD_INPUT);
+    }
+    assigned.set(child, [...new Set(to)]);
+  }
+
+  const rewired: SplitPlan["rewired"] = [];
+  const unassigned: string[] = [];
+  for (const slug of dependents) {
+    const to = assigned.get(slug);
+    if (to) rewired.push({ slug, to });
+    else unassigned.push(slug);
+  }
+
+  return { parts, rewired, unassigned };
+}
@@ -0,0 +1,111 @@
+/**
+ * The vault's status workflow: status names, which statuses count as
+ * validated ("grounded"), and which changes `update --status` allows.
+ * Declared under "statuses" in lattice.config.json (see config.ts); vaults
+ * that declare none use DEFAULT_STATUSES.
+ *
+ * Like levels.ts, every check reads the workflow in effect (see
+ * schema.ts) through the functions below.
+ *
+ * Roles:
+ *   grounded  — counts as validated. A node may only enter a grounded
+ *               status when every parent is grounded; a grounded node
+ *               with an ungrounded ancestor is a hollow chain. The FIRST
+ *               grounded status is the one bedrock nodes hold and
+ *               `promote` sets.
+ *   initial   — exactly one. New nodes start here, and automatic
+ *               demotions (propagation, relevel, detach) move nodes here.
+ *   terminal  — a settled verdict such as Refuted. The node stays in the
+ *               vault as a negative record; it is not awaiting review, so
+ *               `query tentative` and the stale check skip it.
+ * Every status that is neither grounded nor terminal is "open".
+ */
+
+import { activeSchema } from "./schema.js";
+
+/** One status of the workflow. */
+export interface StatusDefinition {
+  /** Name used in node frontmatter and on the command line. */
+  name: string;
+  grounded: boolean;
+  initial: boolean;
+  terminal: boolean;
+  /**
+   * Statuses `update --status` may change this one to. Absent: any.
+   * Automatic demotions to the initial status are not restricted.
+   */
+  transitions?: string[];
+}
+
+/** The built-in workflow: two statuses, either may change to the other. */
+export const DEFAULT_STATUSES: readonly StatusDefinition[] = [
+  { name: "Integrated/Validated", grounded: true, initial: false, terminal: false },
+  { name: "Tentative/Hypothesis", grounded: false, initial: true, terminal: false },
+];
+
+/** Name → definition, per workflow. */
+const indexes = new WeakMap<readonly StatusDefinition[], Map<string, StatusDefinition>>();
+
+function active(): readonly StatusDefinition[] {
+  return activeSchema()?.statuses ?? DEFAULT_STATUSES;
+}
+
+function byName(): Map<string, StatusDefinition> {
+  const statuses = active();
+  let index = indexes.get(statuses);
+  if (!index) {
+    index = new Map(statuses.map((s) => [s.name, s]));
+    indexes.set(statuses, index);
+  }
+  return index;
+}
+
+/** The workflow in effect, in declaration order. */
+export function statusDefinitions(): readonly StatusDefinition[] {
+  return active();
+}
+
+/** Status names in declaration order. */
+export function statusNames(): string[] {
+  return active().map((s) => s.name);
+}
+
+export function isStatus(value: string): boolean {
+  return byName().has(value);
+}
+
+/** Counts as validated. Unknown statuses are not grounded. */
+export function isGrounded(status: string): boolean {
+  return byName().get(status)?.grounded ?? false;
+}
+
+export function isTerminal(status: string): boolean {
+  return byName().get(status)?.terminal ?? false;
+}
+
+/** Neither grounded nor terminal: still awaiting a verdict. */
+export function isOpen(status: string): boolean {
+  return !isGrounded(status) && !isTerminal(status);
+}
+
+/** The status bedrock nodes hold and `promote` sets. */
+export function validatedStatus(): string {
+  return active().find((s) => s.grounded)!.name;
+}
+
+/** The status new nodes start in and demotions move to. */
+export function initialStatus(): string {
+  return active().find((s) => s.initial)!.name;
+}
+
+/** Statuses `from` may change to, or null when any change is allowed. */
+export function allowedTransitions(from: string): string[] | null {
+  return byName().get(from)?.transitions ?? null;
+}
+
+/** Whether `update --status` may change `from` to `to`. */
+export function canTransition(from: string, to: string): boolean {
+  if (from === to) return true;
+  const allowed = allowedTransitions(from);
+  return allowed === null || allowed.includes(to);
+}
@@ -1,6 +1,6 @@
-import { readFile, writeFile } from "node:fs/promises";
 import { join } from "node:path";
 import { TAGS_JSON_FILE } from "./constants.js";
+import { readText, writeText } from "./transaction.js";
 import { FilesystemError, RogueTagError } from "../util/errors.js";
 
 /**
@@ -10,7 +10,7 @@ import { FilesystemError, RogueTagError } from "../util/errors.js";
 export async function loadTags(vaultPath: string): Promise<string[]> {
   const filePath = join(vaultPath, TAGS_JSON_FILE);
   try {
-    const raw = await readFile(filePath, "utf-8");
+    const raw = await readText(filePath);
     const parsed = JSON.parse(raw);
     if (!Array.isArray(parsed)) {
       throw new FilesystemError(
@@ -37,7 +37,7 @@ export async function saveTags(
 ): Promise<void> {
   const sorted = [...new Set(tags.map((t) => t.toLowerCase().trim()))].sort();
   const jsonPath = join(vaultPath, TAGS_JSON_FILE);
-  await writeFile(jsonPath, JSON.stringify(sorted, null, 2) + "\n", "utf-8");
+  await writeText(jsonPath, JSON.stringify(sorted, null, 2) + "\n");
 }
 
 /**
@@ -0,0 +1,321 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import {
+  access,
+  appendFile,
+  mkdir,
+  readFile,
+  readdir,
+  rename,
+  unlink,
+  writeFile,
+} from "node:fs/promises";
+import { basename, dirname, join } from "node:path";
+import { randomBytes } from "node:crypto";
+import { TXN_JOURNAL_FILE } from "./constants.js";
+import { FilesystemError } from "../util/errors.js";
+
+// ─── Types ───────────────────────────────────────────────────────────
+
+/**
+ * Pending changes of one transaction: target path → new content, or
+ * null for a file to be removed. Insertion order is commit order.
+ */
+interface Transaction {
+  id: string;
+  vaultPath: string;
+  staged: Map<string, string | null>;
+}
+
+/** One file in the on-disk commit journal. */
+interface JournalEntry {
+  target: string;
+  /** Temp file holding the new content; null means remove the target. */
+  temp: string | null;
+}
+
+/**
+ * The commit journal. "staging" means temp files are still being written
+ * and nothing has been applied; "committing" means every temp file is
+ * complete and the renames may be partly done.
+ */
+interface Journal {
+  id: string;
+  state: "staging" | "committing";
+  entries: JournalEntry[];
+}
+
+const current = new AsyncLocalStorage<Transaction>();
+
+function notFound(path: string): NodeJS.ErrnoException {
+  return Object.assign(new Error(`ENOENT: no such file or directory, '${path}'`), {
+    code: "ENOENT",
+  });
+}
+
+function alreadyExists(path: string): NodeJS.ErrnoException {
+  return Object.assign(new Error(`EEXIST: file already exists, '${path}'`), {
+    code: "EEXIST",
+  });
+}
+
+// ─── File operations ─────────────────────────────────────────────────
+//
+// Every vault write goes through these. Outside a transaction they act
+// on disk directly. Inside one they only stage, and reads see the staged
+// state, so multi-step mutations behave as if each step had been written.
+
+/** Read a file as UTF-8, seeing changes staged by the current transaction. */
+export async function readText(path: string): Promise<string> {
+  const txn = current.getStore();
+  if (txn?.staged.has(path)) {
+    const content = txn.staged.get(path)!;
+    if (content === null) throw notFound(path);
+    return content;
+  }
+  return readFile(path, "utf-8");
+}
+
+/** Whether a file exists, seeing changes staged by the current transaction. */
+export async function pathExists(path: string): Promise<boolean> {
+  const txn = current.getStore();
+  if (txn?.staged.has(path)) return txn.staged.get(path) !== null;
+  try {
+    await access(path);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Write a file. With `exclusive`, fails with EEXIST if it already exists
+ * (the 'wx' flag), including files created earlier in the transaction.
+ */
+export async function writeText(
+  path: string,
+  content: string,
+  opts: { exclusive?: boolean } = {},
+): Promise<void> {
+  const txn = current.getStore();
+  if (!txn) {
+    await writeFile(path, content, {
+      encoding: "utf-8",
+      flag: opts.exclusive ? "wx" : "w",
+    });
+    return;
+  }
+  if (opts.exclusive && (await pathExists(path))) throw alreadyExists(path);
+  txn.staged.set(path, content);
+}
+
+/** Append to a file, creating it if missing. */
+export async function appendText(path: string, content: string): Promise<void> {
+  const txn = current.getStore();
+  if (!txn) {
+    await appendFile(path, content, "utf-8");
+    return;
+  }
+  let existing = "";
+  try {
+    existing = await readText(path);
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code !== "ENOENT") throw err;
+  }
+  txn.staged.set(path, existing + content);
+}
+
+/** Move a file. Inside a transaction, staged as write-new + remove-old. */
+export async function moveFile(from: string, to: string): Promise<void> {
+  const txn = current.getStore();
+  if (!txn) {
+    await rename(from, to);
+    return;
+  }
+  const content = await readText(from);
+  txn.staged.delete(to);
+  txn.staged.set(to, content);
+  txn.staged.set(from, null);
+}
+
+/** Remove a file. */
+export async function removeFile(path: string): Promise<void> {
+  const txn = current.getStore();
+  if (!txn) {
+    await unlink(path);
+    return;
+  }
+  if (!(await pathExists(path))) throw notFound(path);
+  txn.staged.delete(path);
+  txn.staged.set(path, null);
+}
+
+/**
+ * List a directory, seeing files created or removed by the current
+ * transaction. Missing directory → ENOENT, as readdir.
+ */
+export async function listDir(
+  dir: string,
+): Promise<Array<{ name: string; isDirectory: boolean }>> {
+  const txn = current.getStore();
+  let entries: Array<{ name: string; isDirectory: boolean }> = [];
+  let missing = false;
+  try {
+    entries = (await readdir(dir, { withFileTypes: true })).map((e) => ({
+      name: e.name,
+      isDirectory: e.isDirectory(),
+    }));
+  } catch (err) {
+    if (!txn) throw err;
+    missing = true;
+  }
+  if (!txn) return entries;
+
+  const byName = new Map(entries.map((e) => [e.name, e]));
+  for (const [path, content] of txn.staged) {
+    if (dirname(path) !== dir) continue;
+    const name = basename(path);
+    if (content === null) byName.delete(name);
+    else byName.set(name, { name, isDirectory: false });
+  }
+  if (missing && byName.size === 0) throw notFound(dir);
+  return [...byName.values()];
+}
+
+/** Whether the caller is running inside a transaction. */
+export function inTransaction(): boolean {
+  return current.getStore() !== undefined;
+}
+
+/**
+ * Whether the current transaction has staged a change to `path`, so the
+ * file on disk (content, mtime, size) is not what reads will see.
+ */
+export function isStaged(path: string): boolean {
+  return current.getStore()?.staged.has(path) ?? false;
+}
+
+// ─── Transactions ────────────────────────────────────────────────────
+
+/**
+ * Run `fn` with every vault write staged in memory, then commit all of
+ * them together. If `fn` throws, nothing is written.
+ *
+ * Commit writes each new file next to its target as a temp file, records
+ * the set in a journal, then renames the temp files into place. A crash
+ * before the journal says "committing" leaves the vault untouched; a
+ * crash after it is finished by recoverTransaction on the next write.
+ * Either way no reference is ever left half rewritten.
+ *
+ * Nested calls join the outer transaction. Callers must hold the vault
+ * lock (see withVaultLock).
+ */
+export async function runInTransaction<T>(
+  vaultPath: string,
+  fn: () => Promise<T>,
+): Promise<T> {
+  if (current.getStore()) return fn();
+
+  const txn: Transaction = {
+    id: randomBytes(4).toString("hex"),
+    vaultPath,
+    staged: new Map(),
+  };
+  const result = await current.run(txn, fn);
+  await commit(txn);
+  return result;
+}
+
+async function commit(txn: Transaction): Promise<void> {
+  if (txn.staged.size === 0) return;
+
+  const journalPath = join(txn.vaultPath, TXN_JOURNAL_FILE);
+  const entries: JournalEntry[] = [...txn.staged].map(([target, content]) => ({
+    target,
+    temp: content === null ? null : `${target}.${txn.id}.tmp`,
+  }));
+
+  try {
+    await writeJournal(journalPath, { id: txn.id, state: "staging", entries });
+    for (const entry of entries) {
+      if (!entry.temp) continue;
+      await mkdir(dirname(entry.target), { recursive: true });
+      await writeFile(entry.temp, txn.staged.get(entry.target)!, "utf-8");
+    }
+  } catch (err) {
+    await discard(entries);
+    await unlinkIfExists(journalPath);
+    throw new FilesystemError(
+      `Cannot stage changes; nothing was written: ${(err as Error).message}`,
+    );
+  }
+
+  await writeJournal(journalPath, { id: txn.id, state: "committing", entries });
+  await rollForward(entries);
+  await unlinkIfExists(journalPath);
+}
+
+/**
+ * Finish or discard a transaction interrupted by a crash. Run under the
+ * vault lock before any new write. No journal → no-op.
+ */
+export async function recoverTransaction(vaultPath: string): Promise<void> {
+  const journalPath = join(vaultPath, TXN_JOURNAL_FILE);
+  let journal: Journal;
+  try {
+    journal = JSON.parse(await readFile(journalPath, "utf-8")) as Journal;
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") return;
+    // A torn journal can only come from a crash while writing the
+    // "staging" journal, before any target was touched.
+    await unlinkIfExists(journalPath);
+    return;
+  }
+
+  if (journal.state === "committing") {
+    await rollForward(journal.entries);
+  } else {
+    await discard(journal.entries);
+  }
+  await unlinkIfExists(journalPath);
+}
+
+/**
+ * Apply journal entries. Idempotent: a temp file already renamed, or a
+ * target already removed, is skipped.
+ */
+async function rollForward(entries: JournalEntry[]): Promise<void> {
+  for (const entry of entries) {
+    try {
+      if (entry.temp) {
+        await rename(entry.temp, entry.target);
+      } else {
+        await unlink(entry.target);
+      }
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === "ENOENT") continue;
+      throw new FilesystemError(
+        `Cannot commit '${entry.target}': ${(err as Error).message}. The next write to this vault will retry.`,
+      );
+    }
+  }
+}
+
+async function discard(entries: JournalEntry[]): Promise<void> {
+  for (const entry of entries) {
+    if (entry.temp) await unlinkIfExists(entry.temp);
+  }
+}
+
+/** Write the journal atomically (temp file + rename). */
+async function writeJournal(path: string, journal: Journal): Promise<void> {
+  await writeFile(`${path}.tmp`, JSON.stringify(journal) + "\n", "utf-8");
+  await rename(`${path}.tmp`, path);
+}
+
+async function unlinkIfExists(path: string): Promise<void> {
+  try {
+    await unlink(path);
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code !== "ENOENT") throw err;
+  }
+}
@@ -0,0 +1,157 @@
+import { mkdir } from "node:fs/promises";
+import { join, basename, dirname } from "node:path";
+import {
+  TRASH_FOLDER,
+  DELETED_FOLDER,
+  SPLIT_FOLDER,
+  UNDONE_SPLITS_FOLDER,
+  type Status,
+} from "./constants.js";
+import { levelFolder } from "./levels.js";
+import { initialStatus, isGrounded } from "./statuses.js";
+import {
+  loadTrashedNodes,
+  updateNodeFile,
+  moveNodeFile,
+  type LatticeNode,
+} from "./node.js";
+import { removeFile, runInTransaction } from "./transaction.js";
+import { validateReductionLinks, validateParentsAreValidated } from "./graph.js";
+import { validateTags } from "./tags.js";
+import {
+  DuplicateSlugError,
+  FilesystemError,
+  UnvalidatedParentError,
+} from "../util/errors.js";
+
+/** Which trash subfolder a trashed node lives in. */
+export type TrashKind = "deleted" | "merged" | "undone_merge" | "split" | "undone_split";
+
+/**
+ * Classify a trashed node by its location under the trash folder.
+ * Merged originals sit directly in 99-Trash/; deletions, undone
+ * canonical nodes, split originals and undone split parts have their
+ * own subfolders.
+ */
+export function trashKind(vaultPath: string, node: LatticeNode): TrashKind {
+  const dir = dirname(node.filePath);
+  if (dir === join(vaultPath, TRASH_FOLDER, DELETED_FOLDER)) return "deleted";
+  if (dir === join(vaultPath, TRASH_FOLDER, "Undone-Merges")) return "undone_merge";
+  if (dir === join(vaultPath, TRASH_FOLDER, SPLIT_FOLDER)) return "split";
+  if (dir === join(vaultPath, TRASH_FOLDER, UNDONE_SPLITS_FOLDER)) return "undone_split";
+  return "merged";
+}
+
+/** Where `trashNode` puts a node's file. */
+export function deletedPath(vaultPath: string, node: LatticeNode): string {
+  return join(vaultPath, TRASH_FOLDER, DELETED_FOLDER, basename(node.filePath));
+}
+
+/**
+ * Soft-delete a node: record trashed_on, original_path and original_status
+ * (the same audit fields `dedup merge` writes) and move the file into
+ * 99-Trash/Deleted/. Returns the trashed file path.
+ */
+export async function trashNode(
+  vaultPath: string,
+  node: LatticeNode,
+): Promise<string> {
+  const trashedPath = deletedPath(vaultPath, node);
+  await mkdir(dirname(trashedPath), { recursive: true });
+
+  await runInTransaction(vaultPath, async () => {
+    await updateNodeFile(node, {
+      trashed_on: new Date().toISOString(),
+      original_path: node.filePath,
+      original_status: node.status,
+    });
+    await moveNodeFile(node, trashedPath);
+  });
+
+  return trashedPath;
+}
+
+/** Load only the nodes that `delete` moved to 99-Trash/Deleted/. */
+export async function loadDeletedNodes(
+  vaultPath: string,
+): Promise<LatticeNode[]> {
+  const trashed = await loadTrashedNodes(vaultPath);
+  return trashed.filter((n) => trashKind(vaultPath, n) === "deleted");
+}
+
+/** Result of restoring a soft-deleted node. */
+export interface RestoreResult {
+  slug: string;
+  file: string;
+  status: Status;
+  /** Set when the original status could not be restored. */
+  note?: string;
+}
+
+/**
+ * Move a soft-deleted node back into its level folder.
+ *
+ * Links are re-validated against the live graph before anything moves:
+ * reduces_to targets must exist, obey level order and not form a cycle,
+ * and tags must still be in the master list. A node that was validated
+ * comes back Tentative/Hypothesis if any parent is no longer validated.
+ */
+export async function restoreNode(
+  vaultPath: string,
+  trashed: LatticeNode,
+  nodes: Map<string, LatticeNode>,
+  masterTags: string[],
+): Promise<RestoreResult> {
+  if (nodes.has(trashed.slug)) {
+    throw new DuplicateSlugError(trashed.slug);
+  }
+
+  validateTags(trashed.tags, masterTags);
+  if (trashed.reduces_to.length > 0) {
+    validateReductionLinks(trashed.slug, trashed.level, trashed.reduces_to, nodes);
+  }
+
+  let status: Status = trashed.original_status ?? trashed.status;
+  let note: string | undefined;
+  if (isGrounded(status) && trashed.reduces_to.length > 0) {
+    try {
+      validateParentsAreValidated(trashed.reduces_to, nodes);
+    } catch (err) {
+      if (!(err instanceof UnvalidatedParentError)) throw err;
+      status = initialStatus();
+      note = `Restored as ${status}: ${(err as Error).message}`;
+    }
+  }
+
+  const restoredPath = join(
+    vaultPath,
+    levelFolder(trashed.level),
+    basename(trashed.filePath),
+  );
+
+  await runInTransaction(vaultPath, async () => {
+    await updateNodeFile(trashed, {
+      status,
+      trashed_on: null,
+      original_path: null,
+      original_status: null,
+    });
+    await moveNodeFile(trashed, restoredPath);
+  });
+
+  return { slug: trashed.slug, file: restoredPath, status, note };
+}
+
+/**
+ * Permanently unlink a trashed node file. This is the only place the CLI
+ * destroys node data; callers must restrict it to the Deleted bin.
+ */
+export async function purgeTrashedNode(node: LatticeNode): Promise<void> {
+  try {
+    await removeFile(node.filePath);
+  } catch (err) {
+    throw new FilesystemError(
+      `Cannot remove trashed node '${node.filePath}': ${(err as Error).message}`,
+    );
+  }
+}
@@ -2,13 +2,18 @@ import { access, mkdir, writeFile } from "node:fs/promises";
 import { join } from "node:path";
 import { resolve } from "node:path";
 import {
-  ALL_LEVEL_FOLDERS,
+  CONFIG_JSON_FILE,
+  CONFIG_YAML_FILES,
   DEFAULT_TAGS,
   NODE_TEMPLATE_FILE,
   TEMPLATES_FOLDER,
   VAULT_MARKER,
 } from "./constants.js";
 import { saveTags } from "./tags.js";
+import { loadConfig, saveConfig, DEFAULT_CONFIG } from "./config.js";
+import { levelFolders } from "./levels.js";
+import { initialStatus } from "./statuses.js";
+import { useSchema, type VaultSchema } from "./schema.js";
 import { VaultNotInitializedError, FilesystemError } from "../util/errors.js";
 
 /**
@@ -33,18 +38,30 @@ export async function isVaultInitialized(vaultPath: string): Promise<boolean> {
 
 /**
  * Require the vault to be initialized. Throws VaultNotInitializedError if not.
+ * Makes the vault's level hierarchy and status workflow the process
+ * default (see schema.ts) and returns them.
  * Call this at the top of every command except `init`.
  */
-export async function requireVault(vaultPath: string): Promise<void> {
+export async function requireVault(vaultPath: string): Promise<VaultSchema> {
   const initialized = await isVaultInitialized(vaultPath);
   if (!initialized) {
     throw new VaultNotInitializedError(vaultPath);
   }
+  const schema = await loadSchema(vaultPath);
+  useSchema(schema);
+  return schema;
+}
+
+/** The level hierarchy and status workflow the vault's config declares. */
+export async function loadSchema(vaultPath: string): Promise<VaultSchema> {
+  const { levels, statuses } = await loadConfig(vaultPath);
+  return { levels, statuses };
 }
 
 /**
  * Initialize a new lattice vault at the given path.
- * Creates: level folders, tags.json, Templates/New-Node.md, .lattice marker.
+ * Creates: lattice.config.json, level folders (as the config declares),
+ * tags.json, Templates/New-Node.md, .lattice marker.
  * Idempotent: creates only what is missing, never overwrites existing files.
  */
 export async function initializeVault(vaultPath: string): Promise<void> {
@@ -57,8 +74,15 @@ export async function initializeVault(vaultPath: string): Promise<void> {
     );
   }
 
-  // Create level folders
-  for (const folder of ALL_LEVEL_FOLDERS) {
+  // Write lattice.config.json (only if no config exists), then create
+  // the level folders it declares
+  const configFiles = [CONFIG_JSON_FILE, ...CONFIG_YAML_FILES];
+  const hasConfig = await Promise.all(configFiles.map((f) => fileExists(join(vaultPath, f))));
+  if (!hasConfig.some(Boolean)) {
+    await saveConfig(vaultPath, DEFAULT_CONFIG);
+  }
+  useSchema(await loadSchema(vaultPath));
+  for (const folder of levelFolders()) {
     await mkdir(join(vaultPath, folder), { recursive: true });
   }
 
@@ -74,7 +98,7 @@ export async function initializeVault(vaultPath: string): Promise<void> {
       'title: ""',
       'level: ""',
       "reduces_to: []",
-      "status: Tentative/Hypothesis",
+      `status: ${initialStatus()}`,
       "tags: []",
       'created: ""',
       "---",
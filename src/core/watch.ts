@@ -0,0 +1,295 @@
+import { watch, type FSWatcher } from "node:fs";
+import { stat } from "node:fs/promises";
+import { join, relative } from "node:path";
+import { TAGS_JSON_FILE } from "./constants.js";
+import { levelFolders } from "./levels.js";
+import { parseNodeFile, type LatticeNode } from "./node.js";
+import { loadNodeIndex } from "./node-index.js";
+import { loadTags } from "./tags.js";
+import {
+  collectDependents,
+  cycleIssue,
+  findCycleMembers,
+  findHollowChain,
+  validateNode,
+  type ValidationIssue,
+} from "./graph.js";
+
+/**
+ * Continuous validation for `lattice watch`.
+ *
+ * The graph is loaded once. Each change to a node file re-parses only
+ * that file and re-runs only the checks whose result it can change:
+ *   - per-node checks (links, levels, tags) for the node and the nodes
+ *     that reduce directly to it;
+ *   - hollow chains for the node and everything that transitively
+ *     reduces to it;
+ *   - cycles over the whole graph, but only when a reduces_to list, or
+ *     the set of nodes, changed.
+ * A change to tags.json re-runs the tag check on every node.
+ *
+ * Issues are diffed per node against the last known state, so the
+ * listener hears about each issue once when it appears and once when it
+ * is resolved. Stale tentatives are only re-checked when their node is
+ * touched.
+ */
+
+/** Quiet period after a file event before the batch is processed. */
+const DEBOUNCE_MS = 100;
+
+/** A validateGraph issue, or a validated node whose chain has an unvalidated ancestor. */
+export interface WatchIssue {
+  slug: string;
+  type: ValidationIssue["type"] | "hollow_chain";
+  message: string;
+}
+
+export type WatchEvent =
+  /** Initial scan finished; `issues` were reported before it. */
+  | { event: "ready"; nodes: number; issues: number }
+  /** A node file was re-parsed, or removed (slug is then the old slug). */
+  | { event: "changed"; file: string; slug: string | null; removed: boolean }
+  /** A file in a level folder could not be parsed; it is left out of the graph. */
+  | { event: "parse_error"; file: string; message: string }
+  /** A batch could not be processed; watching continues. */
+  | { event: "error"; message: string }
+  | ({ event: "issue" } & WatchIssue)
+  | ({ event: "resolved" } & WatchIssue);
+
+export interface VaultWatch {
+  /** Stop watching. No events are delivered afterwards. */
+  close(): void;
+}
+
+/**
+ * Load the vault, report every current issue, then watch for changes
+ * until close(). Events are delivered in order, one batch at a time.
+ */
+export async function watchVault(
+  vaultPath: string,
+  onEvent: (event: WatchEvent) => void,
+): Promise<VaultWatch> {
+  const loaded = await loadNodeIndex(vaultPath);
+  const nodes = loaded.nodes;
+  const incoming = loaded.incoming;
+  let tagSet = new Set(await loadTags(vaultPath));
+
+  const slugByFile = new Map<string, string>();
+  for (const node of nodes.values()) slugByFile.set(node.filePath, node.slug);
+
+  /** Current issues by slug; a slug with none has no entry. */
+  const issues = new Map<string, WatchIssue[]>();
+  let cycles = new Set(findCycleMembers(nodes));
+
+  const issuesOf = (slug: string): WatchIssue[] => {
+    const node = nodes.get(slug);
+    if (!node) return [];
+    const found: WatchIssue[] = validateNode(node, nodes, tagSet);
+    if (cycles.has(slug)) found.push(cycleIssue(slug));
+    const hollow = findHollowChain(node, nodes);
+    if (hollow) {
+      const weak = hollow.weak_links.map((w) => w.slug).join(", ");
+      found.push({
+        slug,
+        type: "hollow_chain",
+        message: `Validated, but its chain contains unvalidated node(s): ${weak}`,
+      });
+    }
+    return found;
+  };
+
+  /** Recompute a node's issues and report the difference. */
+  const refresh = (slug: string): void => {
+    const before = issues.get(slug) ?? [];
+    const after = issuesOf(slug);
+    const key = (i: WatchIssue) => `${i.type}\0${i.message}`;
+    const beforeKeys = new Set(before.map(key));
+    const afterKeys = new Set(after.map(key));
+    for (const issue of before) {
+      if (!afterKeys.has(key(issue))) onEvent({ event: "resolved", ...issue });
+    }
+    for (const issue of after) {
+      if (!beforeKeys.has(key(issue))) onEvent({ event: "issue", ...issue });
+    }
+    if (after.length > 0) issues.set(slug, after);
+    else issues.delete(slug);
+  };
+
+  for (const slug of nodes.keys()) refresh(slug);
+  let total = 0;
+  for (const list of issues.values()) total += list.length;
+  onEvent({ event: "ready", nodes: nodes.size, issues: total });
+
+  // ─── Graph updates ───────────────────────────────────────────────
+
+  const unlinkEdges = (node: LatticeNode): void => {
+    for (const target of node.reduces_to) {
+      const list = incoming.get(target);
+      if (!list) continue;
+      const remaining = list.filter((s) => s !== node.slug);
+      if (remaining.length > 0 || nodes.has(target)) incoming.set(target, remaining);
+      else incoming.delete(target);
+    }
+  };
+
+  const linkEdges = (node: LatticeNode): void => {
+    if (!incoming.has(node.slug)) incoming.set(node.slug, []);
+    for (const target of node.reduces_to) {
+      const list = incoming.get(target);
+      if (list) list.push(node.slug);
+      else incoming.set(target, [node.slug]);
+    }
+  };
+
+  /**
+   * Re-read one node file. Returns the slugs whose node changed (old and
+   * new, which differ if the file now declares another slug) and whether
+   * any reduction edge changed.
+   */
+  const reparse = async (
+    filePath: string,
+  ): Promise<{ touched: string[]; edgesChanged: boolean }> => {
+    const file = relative(vaultPath, filePath);
+    const oldSlug = slugByFile.get(filePath);
+    const old = oldSlug ? nodes.get(oldSlug) : undefined;
+
+    let node: LatticeNode | null = null;
+    const exists = await stat(filePath).then(
+      (s) => s.isFile(),
+      () => false,
+    );
+    if (exists) {
+      try {
+        node = await parseNodeFile(filePath);
+      } catch (err) {
+        onEvent({ event: "parse_error", file, message: (err as Error).message });
+      }
+    }
+
+    if (!old && !node) return { touched: [], edgesChanged: false };
+
+    if (old) {
+      unlinkEdges(old);
+      nodes.delete(old.slug);
+      slugByFile.delete(filePath);
+      if (incoming.get(old.slug)?.length === 0) incoming.delete(old.slug);
+    }
+    if (node) {
+      nodes.set(node.slug, node);
+      slugByFile.set(filePath, node.slug);
+      linkEdges(node);
+    }
+    onEvent({
+      event: "changed",
+      file,
+      slug: node?.slug ?? oldSlug ?? null,
+      removed: node === null,
+    });
+
+    const edgesChanged =
+      !old ||
+      !node ||
+      old.slug !== node.slug ||
+      old.reduces_to.join("\0") !== node.reduces_to.join("\0");
+    const touched = [old?.slug, node?.slug].filter((s): s is string => Boolean(s));
+    return { touched, edgesChanged };
+  };
+
+  /** Process a batch of changed files and/or a tag list change. */
+  const apply = async (files: string[], tagsChanged: boolean): Promise<void> => {
+    const touched = new Set<string>();
+    let edgesChanged = false;
+    for (const filePath of files) {
+      const result = await reparse(filePath);
+      for (const slug of result.touched) touched.add(slug);
+      edgesChanged ||= result.edgesChanged;
+    }
+
+    // Per-node checks: the node and its direct children, whose links
+    // and level checks point at it
+    const affected = new Set(touched);
+    for (const slug of touched) {
+      for (const child of incoming.get(slug) ?? []) affected.add(child);
+      // Hollow chains: everything below it
+      for (const dep of collectDependents(slug, incoming)) affected.add(dep.slug);
+    }
+
+    if (tagsChanged) {
+      try {
+        tagSet = new Set(await loadTags(vaultPath));
+        for (const slug of nodes.keys()) affected.add(slug);
+      } catch (err) {
+        // Keep checking against the last good list until it is fixed
+        onEvent({ event: "parse_error", file: TAGS_JSON_FILE, message: (err as Error).message });
+      }
+    }
+
+    if (edgesChanged) {
+      const next = new Set(findCycleMembers(nodes));
+      for (const slug of cycles) if (!next.has(slug)) affected.add(slug);
+      for (const slug of next) if (!cycles.has(slug)) affected.add(slug);
+      cycles = next;
+    }
+
+    for (const slug of affected) refresh(slug);
+  };
+
+  // ─── Watchers ────────────────────────────────────────────────────
+
+  const pendingFiles = new Set<string>();
+  let pendingTags = false;
+  let timer: NodeJS.Timeout | null = null;
+  let running: Promise<void> = Promise.resolve();
+  let closed = false;
+
+  const schedule = (): void => {
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(() => {
+      timer = null;
+      const files = [...pendingFiles];
+      const tagsChanged = pendingTags;
+      pendingFiles.clear();
+      pendingTags = false;
+      running = running.then(async () => {
+        if (closed) return;
+        try {
+          await apply(files, tagsChanged);
+        } catch (err) {
+          onEvent({ event: "error", message: (err as Error).message });
+        }
+      });
+    }, DEBOUNCE_MS);
+  };
+
+  const watchers: FSWatcher[] = [];
+  for (const name of levelFolders()) {
+    const folder = join(vaultPath, name);
+    try {
+      watchers.push(
+        watch(folder, (_event, filename) => {
+          // Transactions commit through "<name>.md.<id>.tmp" renames
+          if (!filename || !filename.endsWith(".md")) return;
+          pendingFiles.add(join(folder, filename));
+          schedule();
+        }),
+      );
+    } catch {
+      // Folder missing — same as loadAllNodes, which skips it
+    }
+  }
+  watchers.push(
+    watch(vaultPath, (_event, filename) => {
+      if (filename !== TAGS_JSON_FILE) return;
+      pendingTags = true;
+      schedule();
+    }),
+  );
+
+  return {
+    close() {
+      closed = true;
+      if (timer) clearTimeout(timer);
+      for (const w of watchers) w.close();
+    },
+  };
+}
@@ -0,0 +1,82 @@
+/**
+ * Library entry point: `import { Lattice } from "objectivist-lattice"`.
+ * The `lattice` binary is built from cli.ts; everything here is the
+ * same code without Commander or process exits.
+ */
+
+export {
+  Lattice,
+  type AddInput,
+  type AddResult,
+  type UpdateInput,
+  type UpdateResult,
+  type DeleteOptions,
+  type DeleteResult,
+  type SingleDeleteResult,
+  type CascadeDeleteResult,
+  type DetachDeleteResult,
+  type RelatedOptions,
+  type RelatedResult,
+  type SearchOptions,
+  type SimilarOptions,
+  type SimilarResult,
+  type DuplicatesOptions,
+  type DuplicatesResult,
+  type StructuralOptions,
+  type StructuralResult,
+  type LatticeOptions,
+  type ValidateOptions,
+  type ValidateResult,
+  type MergeInput,
+  type MergeResult,
+  type UndoMergeOptions,
+  type UndoMergeResult,
+  type SplitInput,
+  type SplitResult,
+  type UndoSplitOptions,
+  type UndoSplitResult,
+  type PromotionHint,
+} from "./lattice.js";
+
+export { EXIT, type Level, type Status } from "./core/constants.js";
+export {
+  DEFAULT_LEVELS,
+  isBedrock,
+  levelDefinitions,
+  levelNames,
+  levelRank,
+  type LevelDefinition,
+} from "./core/levels.js";
+export {
+  DEFAULT_STATUSES,
+  canTransition,
+  isGrounded,
+  statusDefinitions,
+  statusNames,
+  type StatusDefinition,
+} from "./core/statuses.js";
+export type { LatticeNode, MergedFromEntry } from "./core/node.js";
+export type {
+  ChainTreeNode,
+  RelatedNode,
+  SeedStrategy,
+  ValidationIssue,
+} from "./core/graph.js";
+export type { SearchHit } from "./core/search.js";
+export {
+  hashedProvider,
+  commandProvider,
+  type EmbeddingProvider,
+} from "./core/embeddings.js";
+export type {
+  DedupGroup,
+  MergeRecord,
+  DuplicatePair,
+  DuplicateSignals,
+  StructuralBasis,
+  StructuralCluster,
+  StructuralPair,
+} from "./core/dedup.js";
+export { parseSplitSpec, type SplitPart, type SplitSpec } from "./core/split.js";
+export type { DemotedNode } from "./core/propagation.js";
+export * from "./util/errors.js";
@@ -0,0 +1,1397 @@
+import { join, basename } from "node:path";
+import { resolveVaultPath, requireVault } from "./core/vault.js";
+import {
+  loadAllNodes,
+  loadTrashedNodes,
+  createNodeFile,
+  updateNodeFile,
+  parseNodeFile,
+  findNodeBySlug,
+  moveNodeFile,
+  resolveNodeSlug,
+  type LatticeNode,
+  type MergedFromEntry,
+} from "./core/node.js";
+import { loadNodeIndex } from "./core/node-index.js";
+import { loadTags } from "./core/tags.js";
+import {
+  buildReductionChain,
+  collectDependents,
+  findEntryPoints,
+  findRelatedNodes,
+  findTentativeChildren,
+  validateGraph,
+  validateParentsAreValidated,
+  type ChainTreeNode,
+  type RelatedNode,
+  type SeedStrategy,
+  type ValidationIssue,
+} from "./core/graph.js";
+import { searchNodes, type SearchHit } from "./core/search.js";
+import {
+  embedNodes,
+  findSemanticEntryPoints,
+  findSimilarPairs,
+  providerFromConfig,
+  type EmbeddingProvider,
+} from "./core/embeddings.js";
+import {
+  findDuplicateClusters,
+  findStructuralDuplicates,
+  generateGroupId,
+  listDedupGroups,
+  listMerges,
+  selectDedupCandidates,
+  STRUCTURAL_BASES,
+  type DedupGroup,
+  type DuplicatePair,
+  type MergeRecord,
+  type StructuralBasis,
+  type StructuralCluster,
+} from "./core/dedup.js";
+import { loadConfig } from "./core/config.js";
+import { isBedrock, isLevel, levelFolder } from "./core/levels.js";
+import {
+  initialStatus,
+  isGrounded,
+  isStatus,
+  validatedStatus,
+} from "./core/statuses.js";
+import {
+  planDemotion,
+  shouldPropagate,
+  type DemotedNode,
+} from "./core/propagation.js";
+import {
+  applyBatch,
+  planOperation,
+  type BatchOperation,
+  type BatchOpResult,
+} from "./core/batch.js";
+import { planSplit, type SplitSpec } from "./core/split.js";
+import { trashKind, trashNode } from "./core/trash.js";
+import { moveFile, runInTransaction } from "./core/transaction.js";
+import { withVaultLock } from "./core/lock.js";
+import { withSchema, type VaultSchema } from "./core/schema.js";
+import {
+  EXIT,
+  TRASH_FOLDER,
+  SPLIT_FOLDER,
+  UNDONE_SPLITS_FOLDER,
+  type Level,
+  type Status,
+} from "./core/constants.js";
+import {
+  LatticeError,
+  AmbiguousMatchError,
+  DeleteBlockedError,
+  DuplicateSlugError,
+  InvalidLevelError,
+  InvalidStatusError,
+  UnvalidatedParentError,
+} from "./util/errors.js";
+
+// ─── Inputs ──────────────────────────────────────────────────────────
+
+/** A new node. Field names match the YAML frontmatter and batch scripts. */
+export interface AddInput {
+  level: Level;
+  title: string;
+  proposition: string;
+  /** Parent slugs. Required for principles and applications. */
+  reduces_to?: string[];
+  tags?: string[];
+  /** Default: the initial status (Tentative/Hypothesis). Ignored for bedrock. */
+  status?: Status;
+}
+
+/** Changes to one node, as the `lattice update` flags. */
+export interface UpdateInput {
+  status?: Status;
+  add_tags?: string[];
+  remove_tags?: string[];
+  add_reduces_to?: string[];
+  remove_reduces_to?: string[];
+  /** Demote validated dependents on a demotion, even if the vault doesn't. */
+  propagate?: boolean;
+}
+
+export interface DeleteOptions {
+  /** Also delete every node that transitively reduces to this one. */
+  cascade?: boolean;
+  /** Remove the edge from every child instead; demote orphaned children. */
+  detach?: boolean;
+  /** With cascade or detach: compute the result without writing. */
+  dryRun?: boolean;
+}
+
+export interface RelatedOptions {
+  /** Maximum hops from the entry points. Default 3. */
+  depth?: number;
+  /** Maximum results. Default 5. */
+  limit?: number;
+  /** How the query picks entry points. Default "auto". */
+  seed?: SeedStrategy;
+}
+
+export interface SimilarOptions {
+  /** Minimum cosine similarity, 0–1. */
+  threshold: number;
+  /** Only nodes created after this date. */
+  after?: Date;
+  /** Only the newest this many nodes at the level. Default: all. */
+  max?: number;
+}
+
+export interface DuplicatesOptions {
+  /** Minimum pair score, 0–1. Default 0.6. */
+  threshold?: number;
+  /** Only nodes created after this date. */
+  after?: Date;
+  /** Only the newest this many nodes at the level. Default: all. */
+  max?: number;
+  /** Mark each cluster as a new deduplication group. */
+  autoGroup?: boolean;
+  /** With autoGroup: report the groups without writing. */
+  dryRun?: boolean;
+}
+
+export interface StructuralOptions {
+  /** Only this level. Default: every level. */
+  level?: Level;
+  /** Compare only parent sets or only dependent sets. Default: both. */
+  basis?: StructuralBasis;
+  /** Minimum Jaccard overlap of two neighbour sets, 0–1. Default 0.8. */
+  minOverlap?: number;
+  /** Minimum neighbours two nodes must share. Default 2. */
+  minShared?: number;
+}
+
+export interface LatticeOptions {
+  /** Embedding provider; default: the one lattice.config.json selects. */
+  embeddings?: EmbeddingProvider;
+}
+
+export interface SearchOptions {
+  level?: Level;
+  status?: Status;
+  tag?: string;
+  /** Maximum results. Default 10. */
+  limit?: number;
+}
+
+export interface ValidateOptions {
+  /** Trash stale tentatives with no reduction chain, then re-validate. */
+  fixAuto?: boolean;
+  /** With fixAuto: report what would be trashed without writing. */
+  dryRun?: boolean;
+}
+
+/** A dedup merge: the canonical node to create and the nodes it replaces. */
+export interface MergeInput {
+  title: string;
+  level: Level;
+  /** Text of the canonical node. Give this or propositionFrom. */
+  proposition?: string;
+  /** Reuse the proposition of this merged node. */
+  propositionFrom?: string;
+  /** Merge every node in this deduplication group. */
+  group?: string;
+  /** Nodes to merge, in addition to the group's. */
+  nodes?: string[];
+  /**
+   * Reduce to the union of the merged nodes' parents, minus links between
+   * them. Default: the first merged node's parents.
+   */
+  inheritParents?: boolean;
+  /** Tag the canonical node with the union of the merged nodes' tags. Default: none. */
+  inheritTags?: boolean;
+  /**
+   * Status of the canonical node. "auto" picks the validated status when
+   * every parent is validated (always, for bedrock), else the initial one.
+   * Default: the initial status (Tentative/Hypothesis).
+   */
+  status?: Status | "auto";
+  /** Recorded in the canonical node's metadata. */
+  reason?: string;
+  dryRun?: boolean;
+}
+
+export interface UndoMergeOptions {
+  reason?: string;
+  /**
+   * Child → original, for nodes that reduce to the canonical node but did
+   * not reduce to any original when merged. Also overrides recorded edges.
+   */
+  assign?: Record<string, string>;
+  dryRun?: boolean;
+}
+
+/** A split: the parts that replace the node and where its dependents go. */
+export interface SplitInput extends SplitSpec {
+  dryRun?: boolean;
+}
+
+export interface UndoSplitOptions {
+  reason?: string;
+  dryRun?: boolean;
+}
+
+// ─── Results ─────────────────────────────────────────────────────────
+
+/** A Tentative node that reduces to a newly validated one. */
+export interface PromotionHint {
+  slug: string;
+  title: string;
+}
+
+export interface AddResult {
+  slug: string;
+  filePath: string;
+  node: LatticeNode;
+  /** Set when the new node is validated and tentative nodes already reduce to it. */
+  promotionHints: PromotionHint[];
+}
+
+export interface UpdateResult {
+  slug: string;
+  /** Field → human-readable change, e.g. status: "A → B". */
+  changes: Record<string, string>;
+  /** Validated dependents demoted with this node. */
+  propagated: DemotedNode[];
+  /** Validated dependents left on hollow ground (demotion not propagated). */
+  hollow: DemotedNode[];
+  promotionHints: PromotionHint[];
+}
+
+export interface SingleDeleteResult {
+  mode: "single";
+  deleted: string;
+  filePath: string;
+  trashedPath: string;
+}
+
+export interface CascadeDeleteResult {
+  mode: "cascade";
+  deleted: string;
+  dependents: Array<{ slug: string; depth: number; status: Status }>;
+  dryRun: boolean;
+}
+
+export interface DetachDeleteResult {
+  mode: "detach";
+  deleted: string;
+  detached: Array<{ slug: string; demoted: boolean }>;
+  propagated: DemotedNode[];
+  dryRun: boolean;
+}
+
+export type DeleteResult = SingleDeleteResult | CascadeDeleteResult | DetachDeleteResult;
+
+export interface RelatedResult {
+  /** How the query was matched to entry points. */
+  entry: string;
+  results: RelatedNode[];
+}
+
+export interface ValidateResult {
+  totalNodes: number;
+  issues: ValidationIssue[];
+  /** Files trashed by fixAuto (or that would be, on a dry run). */
+  deleted: string[];
+  timeMs: number;
+}
+
+export interface SimilarResult {
+  /** Id of the embedding provider that produced the vectors. */
+  provider: string;
+  /** Nodes compared. */
+  scanned: number;
+  pairs: Array<{ a: string; a_title: string; b: string; b_title: string; similarity: number }>;
+}
+
+export interface DuplicatesResult {
+  threshold: number;
+  /** Nodes compared. */
+  scanned: number;
+  /** Nodes left out because they are already in a deduplication group. */
+  skipped: number;
+  clusters: Array<{
+    /** Group created for the cluster by autoGroup (or that would be, on a dry run). */
+    group: string | null;
+    score: number;
+    nodes: Array<{ slug: string; title: string }>;
+    pairs: DuplicatePair[];
+  }>;
+  dryRun: boolean;
+}
+
+export interface StructuralResult {
+  min_overlap: number;
+  min_shared: number;
+  clusters: StructuralCluster[];
+}
+
+export interface MergeResult {
+  /** Slug of the canonical node; empty on a dry run. */
+  canonical: string;
+  merged: Array<{ slug: string; title: string }>;
+  /** The canonical node's parents, tags and status (or what they would be). */
+  reduces_to: string[];
+  tags: string[];
+  status: Status;
+  dryRun: boolean;
+  warnings: string[];
+}
+
+export interface UndoMergeResult {
+  canonical: string;
+  title: string;
+  restored: Array<{ slug: string; originalPath: string }>;
+  /**
+   * Each node that reduced to the canonical node, and the originals it
+   * reduces to instead: as recorded at merge time, as assigned, or (for
+   * merges recorded without dependents) the oldest original.
+   */
+  rewired: Array<{ slug: string; to: string[]; source: "recorded" | "assigned" | "oldest" }>;
+  /** Dependents with no recorded or assigned original; a dry run lists them, a real undo throws. */
+  unassigned: string[];
+  dryRun: boolean;
+  warnings: string[];
+}
+
+export interface SplitResult {
+  original: string;
+  title: string;
+  /** The parts created (or that would be, on a dry run). */
+  parts: Array<{
+    id: string;
+    slug: string;
+    title: string;
+    reduces_to: string[];
+    tags: string[];
+    status: Status;
+  }>;
+  /** Each dependent of the original and the parts it reduces to instead. */
+  rewired: Array<{ slug: string; to: string[] }>;
+  /** Dependents the spec does not assign; a dry run lists them, a real split throws. */
+  unassigned: string[];
+  trashedPath: string;
+  dryRun: boolean;
+}
+
+export interface UndoSplitResult {
+  original: string;
+  title: string;
+  restoredPath: string;
+  status: Status;
+  /** Parts moved to the trash. */
+  removed: string[];
+  /** Nodes that reduced to a part and now reduce to the original. */
+  rewired: string[];
+  dryRun: boolean;
+  warnings: string[];
+}
+
+// ─── Lattice ─────────────────────────────────────────────────────────
+
+/**
+ * Programmatic access to a vault. Every `lattice` command that reads or
+ * changes nodes is a thin wrapper over one of these methods, so the rules
+ * and errors are the CLI's: methods throw the LatticeError subclasses from
+ * util/errors.ts and never write to stdout or exit the process.
+ *
+ * Each call reads the vault afresh. Writes hold the vault lock for the
+ * duration of the call and commit all their files in one transaction.
+ */
+export class Lattice {
+  private constructor(
+    readonly vaultPath: string,
+    private readonly schema: VaultSchema,
+    private readonly opts: LatticeOptions,
+  ) {}
+
+  /**
+   * Open an initialized vault. Throws VaultNotInitializedError otherwise.
+   * The vault's levels and statuses are read here and apply to every
+   * call on the instance (see core/schema.ts).
+   */
+  static async open(vaultPath: string, opts: LatticeOptions = {}): Promise<Lattice> {
+    const resolved = resolveVaultPath(vaultPath);
+    const schema = await requireVault(resolved);
+    return new Lattice(resolved, schema, opts);
+  }
+
+  nodes(): Promise<Map<string, LatticeNode>> {
+    return this.scoped(() => loadAllNodes(this.vaultPath));
+  }
+
+  tags(): Promise<string[]> {
+    return loadTags(this.vaultPath);
+  }
+
+  /** Find one node by exact slug, unique prefix or unique title substring. */
+  async get(query: string): Promise<LatticeNode> {
+    return this.scoped(async () => {
+      const nodes = await this.nodes();
+      return nodes.get(resolveNodeSlug(query, nodes))!;
+    });
+  }
+
+  async add(input: AddInput): Promise<AddResult> {
+    return this.locked(async () => {
+      const slug = (await this.applyOne({ ...input, op: "add" })).slug!;
+      const nodes = await this.nodes();
+      const node = nodes.get(slug)!;
+
+      // Tentative nodes that reduce to this one may now be promotable
+      const promotionHints = isGrounded(node.status)
+        ? findTentativeChildren(slug, nodes).map(toHint)
+        : [];
+
+      return { slug, filePath: node.filePath, node, promotionHints };
+    });
+  }
+
+  async update(query: string, input: UpdateInput): Promise<UpdateResult> {
+    return this.locked(async () => {
+      const before = await this.nodes();
+      const slug = resolveNodeSlug(query, before);
+      const { status, add_tags, remove_tags, add_reduces_to, remove_reduces_to } = input;
+      if (
+        !status &&
+        ![add_tags, remove_tags, add_reduces_to, remove_reduces_to].some((l) => l?.length)
+      ) {
+        throw new LatticeError(
+          "No updates specified. Use --status, --add-tag, --remove-tag, --add-reduces-to, or --remove-reduces-to.",
+          EXIT.BAD_INPUT,
+        );
+      }
+
+      const result = await this.applyOne({ ...input, op: "update", node: slug });
+
+      // planBatch reports dependents by slug; give them title and depth
+      const dependents = new Map(
+        result.propagated || result.hollow
+          ? planDemotion(slug, before).map((d) => [d.slug, d])
+          : [],
+      );
+      const propagated = (result.propagated ?? []).map((s) => dependents.get(s)!);
+      const hollow = (result.hollow ?? []).map((s) => dependents.get(s)!);
+
+      const nodes = await this.nodes();
+      const promotionHints = isGrounded(nodes.get(slug)!.status)
+        ? findTentativeChildren(slug, nodes).map(toHint)
+        : [];
+
+      return { slug, changes: result.changes!, propagated, hollow, promotionHints };
+    });
+  }
+
+  /**
+   * Move a node to the trash. A validated node with dependents is
+   * protected (DeleteBlockedError) unless `cascade` or `detach` says what
+   * to do with them.
+   */
+  async delete(query: string, opts: DeleteOptions = {}): Promise<DeleteResult> {
+    if (opts.cascade && opts.detach) {
+      throw new LatticeError(
+        "--cascade and --detach cannot be combined. Pick one.",
+        EXIT.BAD_INPUT,
+      );
+    }
+
+    return this.locked(async () => {
+      const { nodes, incoming } = await loadNodeIndex(this.vaultPath);
+      const slug = resolveNodeSlug(query, nodes);
+      const node = nodes.get(slug)!;
+      const dryRun = Boolean(opts.dryRun);
+
+      if (opts.cascade) {
+        const dependents = collectDependents(slug, incoming).map((d) => ({
+          slug: d.slug,
+          depth: d.depth,
+          status: nodes.get(d.slug)!.status,
+        }));
+        if (!dryRun) {
+          await runInTransaction(this.vaultPath, async () => {
+            await trashNode(this.vaultPath, node);
+            for (const d of dependents) {
+              await trashNode(this.vaultPath, nodes.get(d.slug)!);
+            }
+          });
+        }
+        return { mode: "cascade", deleted: slug, dependents, dryRun };
+      }
+
+      if (opts.detach) {
+        const detached = (incoming.get(slug) ?? []).map((childSlug) => {
+          const child = nodes.get(childSlug)!;
+          const reducesTo = child.reduces_to.filter((s) => s !== slug);
+          const demoted = reducesTo.length === 0 && isGrounded(child.status);
+          return { slug: childSlug, reduces_to: reducesTo, demoted };
+        });
+
+        // Demoted children may carry validated dependents of their own
+        const propagated: DemotedNode[] = [];
+        if (await shouldPropagate(this.vaultPath, false)) {
+          const seen = new Set(detached.filter((d) => d.demoted).map((d) => d.slug));
+          for (const d of detached.filter((d) => d.demoted)) {
+            for (const p of planDemotion(d.slug, nodes)) {
+              if (seen.has(p.slug)) continue;
+              seen.add(p.slug);
+              propagated.push(p);
+            }
+          }
+        }
+
+        if (!dryRun) {
+          await runInTransaction(this.vaultPath, async () => {
+            for (const d of detached) {
+              await updateNodeFile(nodes.get(d.slug)!, {
+                reduces_to: d.reduces_to,
+                status: d.demoted ? initialStatus() : undefined,
+              });
+            }
+            await trashNode(this.vaultPath, node);
+            for (const p of propagated) {
+              await updateNodeFile(nodes.get(p.slug)!, { status: initialStatus() });
+            }
+          });
+        }
+
+        return {
+          mode: "detach",
+          deleted: slug,
+          detached: detached.map((d) => ({ slug: d.slug, demoted: d.demoted })),
+          propagated,
+          dryRun,
+        };
+      }
+
+      if (isGrounded(node.status)) {
+        const incomingLinks = incoming.get(slug) ?? [];
+        if (incomingLinks.length > 0) {
+          throw new DeleteBlockedError(slug, incomingLinks.length);
+        }
+      }
+
+      const trashedPath = await trashNode(this.vaultPath, node);
+      return { mode: "single", deleted: slug, filePath: node.filePath, trashedPath };
+    });
+  }
+
+  /** The reduction tree from a node down to bedrock. */
+  async chain(query: string): Promise<ChainTreeNode> {
+    return this.scoped(async () => {
+      const nodes = await this.nodes();
+      const slug = resolveNodeSlug(query, nodes);
+      const tree = buildReductionChain(slug, nodes);
+      if (!tree) {
+        throw new LatticeError(
+          `Could not build reduction chain for '${slug}'`,
+          EXIT.VALIDATION_ERROR,
+        );
+      }
+      return tree;
+    });
+  }
+
+  /**
+   * Nodes related to a query (slug, tag or title keywords) by a
+   * multi-hop walk of the graph, ranked by score.
+   */
+  async related(query: string, opts: RelatedOptions = {}): Promise<RelatedResult> {
+    return this.scoped(async () => {
+      const { nodes, incoming } = await loadNodeIndex(this.vaultPath);
+      const { slugs, method } =
+        opts.seed === "semantic"
+          ? await findSemanticEntryPoints(this.vaultPath, query, nodes, await this.embeddings())
+          : findEntryPoints(query, nodes, opts.seed);
+      if (slugs.length === 0) {
+        throw new LatticeError(
+          `No entry points found for "${query}". Try a partial slug, a tag name, or words from a title or proposition.`,
+          EXIT.BAD_INPUT,
+        );
+      }
+      const results = findRelatedNodes(
+        slugs,
+        nodes,
+        incoming,
+        opts.depth ?? 3,
+        opts.limit ?? 5,
+      );
+      return { entry: method, results };
+    });
+  }
+
+  /**
+   * Full-text search over titles, propositions and tags, ranked by
+   * BM25. Bare words match any; "quoted phrases" must all match.
+   */
+  async search(query: string, opts: SearchOptions = {}): Promise<SearchHit[]> {
+    return this.scoped(async () => {
+      if (opts.level && !isLevel(opts.level)) {
+        throw new InvalidLevelError(opts.level);
+      }
+      if (opts.status && !isStatus(opts.status)) {
+        throw new InvalidStatusError(opts.status);
+      }
+      if (!/[\p{L}\p{N}]/u.test(query)) {
+        throw new LatticeError("Search query cannot be empty", EXIT.BAD_INPUT);
+      }
+      return searchNodes(query, await this.nodes(), { ...opts, limit: opts.limit ?? 10 });
+    });
+  }
+
+  /**
+   * Pairs of nodes at one level whose embeddings are at least
+   * `threshold` similar, most similar first: likely duplicates.
+   */
+  async similar(level: Level, opts: SimilarOptions): Promise<SimilarResult> {
+    return this.scoped(async () => {
+      if (!isLevel(level)) {
+        throw new InvalidLevelError(level);
+      }
+      if (!(opts.threshold >= 0 && opts.threshold <= 1)) {
+        throw new LatticeError(
+          `Similarity threshold must be between 0 and 1, got ${opts.threshold}`,
+          EXIT.BAD_INPUT,
+        );
+      }
+      const nodes = await this.nodes();
+      const candidates = selectDedupCandidates(
+        nodes,
+        level,
+        opts.after ?? new Date(0),
+        opts.max ?? Infinity,
+      );
+      const provider = await this.embeddings();
+      const vectors = await embedNodes(this.vaultPath, nodes, provider, candidates);
+      const pairs = findSimilarPairs(vectors, opts.threshold).map((p) => ({
+        a: p.a,
+        a_title: nodes.get(p.a)!.title,
+        b: p.b,
+        b_title: nodes.get(p.b)!.title,
+        similarity: p.similarity,
+      }));
+      return { provider: provider.id, scanned: candidates.length, pairs };
+    });
+  }
+
+  /**
+   * Likely duplicates at one level, scored locally from shared words,
+   * title edit distance, shared parents and shared tags, and clustered.
+   * Nodes already in a deduplication group are not compared. With
+   * autoGroup, each cluster is marked as a new group in one transaction.
+   */
+  async duplicates(level: Level, opts: DuplicatesOptions = {}): Promise<DuplicatesResult> {
+    return this.scoped(async () => {
+      if (!isLevel(level)) {
+        throw new InvalidLevelError(level);
+      }
+      const threshold = opts.threshold ?? 0.6;
+      if (!(threshold >= 0 && threshold <= 1)) {
+        throw new LatticeError(
+          `Duplicate score threshold must be between 0 and 1, got ${threshold}`,
+          EXIT.BAD_INPUT,
+        );
+      }
+
+      const run = async (): Promise<DuplicatesResult> => {
+        const nodes = await this.nodes();
+        const selected = selectDedupCandidates(
+          nodes,
+          level,
+          opts.after ?? new Date(0),
+          opts.max ?? Infinity,
+        );
+        const candidates = selected.filter((n) => !n.deduplication_group);
+        const clusters = findDuplicateClusters(candidates, threshold).map((c) => ({
+          group: opts.autoGroup ? generateGroupId() : null,
+          score: c.score,
+          nodes: c.slugs.map((slug) => ({ slug, title: nodes.get(slug)!.title })),
+          pairs: c.pairs,
+        }));
+
+        // Ids are minute-stamped with a random suffix; redraw any repeat
+        const ids = new Set<string>();
+        for (const cluster of clusters) {
+          while (cluster.group && ids.has(cluster.group)) cluster.group = generateGroupId();
+          if (cluster.group) ids.add(cluster.group);
+        }
+
+        if (opts.autoGroup && !opts.dryRun && clusters.length > 0) {
+          await runInTransaction(this.vaultPath, async () => {
+            for (const cluster of clusters) {
+              for (const { slug } of cluster.nodes) {
+                await updateNodeFile(nodes.get(slug)!, { deduplication_group: cluster.group! });
+              }
+            }
+          });
+        }
+
+        return {
+          threshold,
+          scanned: candidates.length,
+          skipped: selected.length - candidates.length,
+          clusters,
+          dryRun: Boolean(opts.dryRun),
+        };
+      };
+
+      return opts.autoGroup && !opts.dryRun ? this.locked(run) : run();
+    });
+  }
+
+  /**
+   * Likely duplicates by graph position: same-level nodes reducing to the
+   * same parents, or reduced to by the same dependents.
+   */
+  async structuralDuplicates(opts: StructuralOptions = {}): Promise<StructuralResult> {
+    return this.scoped(async () => {
+      if (opts.level && !isLevel(opts.level)) {
+        throw new InvalidLevelError(opts.level);
+      }
+      if (opts.basis && !STRUCTURAL_BASES.includes(opts.basis)) {
+        throw new LatticeError(
+          `Invalid basis '${opts.basis}'. Must be one of: ${STRUCTURAL_BASES.join(", ")}`,
+          EXIT.BAD_INPUT,
+        );
+      }
+      const minOverlap = opts.minOverlap ?? 0.8;
+      if (!(minOverlap > 0 && minOverlap <= 1)) {
+        throw new LatticeError(
+          `Minimum overlap must be greater than 0 and at most 1, got ${minOverlap}`,
+          EXIT.BAD_INPUT,
+        );
+      }
+      const minShared = opts.minShared ?? 2;
+      if (!Number.isInteger(minShared) || minShared < 1) {
+        throw new LatticeError(
+          `Minimum shared neighbours must be a positive integer, got ${minShared}`,
+          EXIT.BAD_INPUT,
+        );
+      }
+      const clusters = findStructuralDuplicates(await this.nodes(), {
+        level: opts.level,
+        basis: opts.basis,
+        minOverlap,
+        minShared,
+      });
+      return { min_overlap: minOverlap, min_shared: minShared, clusters };
+    });
+  }
+
+  /** Whole-vault integrity check. Issues are returned, not thrown. */
+  async validate(opts: ValidateOptions = {}): Promise<ValidateResult> {
+    return this.scoped(async () => {
+      const run = async (): Promise<ValidateResult> => {
+        const startTime = Date.now();
+        const nodes = await this.nodes();
+        const masterTags = await this.tags();
+        let issues = validateGraph(nodes, masterTags);
+
+        // fixAuto: trash stale tentatives with no reduction chain
+        const deleted: string[] = [];
+        if (opts.fixAuto) {
+          for (const issue of issues.filter((i) => i.type === "stale_tentative")) {
+            const node = nodes.get(issue.slug);
+            if (!node || isBedrock(node.level) || node.reduces_to.length > 0) continue;
+            if (opts.dryRun) {
+              deleted.push(node.filePath);
+              continue;
+            }
+            try {
+              await trashNode(this.vaultPath, node);
+              nodes.delete(issue.slug);
+              deleted.push(node.filePath);
+            } catch {
+              // Ignore delete failures
+            }
+          }
+          if (deleted.length > 0 && !opts.dryRun) {
+            issues = validateGraph(nodes, masterTags);
+          }
+        }
+
+        return { totalNodes: nodes.size, issues, deleted, timeMs: Date.now() - startTime };
+      };
+
+      return opts.fixAuto && !opts.dryRun ? this.locked(run) : run();
+    });
+  }
+
+  /**
+   * Replace duplicate nodes with one canonical node. The old nodes are
+   * trashed with merge metadata and every reference to them is rewritten.
+   * Everything is written in one transaction, and only if the vault still
+   * validates afterwards.
+   */
+  async merge(input: MergeInput): Promise<MergeResult> {
+    return this.scoped(async () => {
+      if (!isLevel(input.level)) {
+        throw new InvalidLevelError(input.level);
+      }
+      const oldQueries = input.nodes ?? [];
+      const warnings: string[] = [];
+      if (isBedrock(input.level) && !input.dryRun) {
+        warnings.push(
+          `Merging bedrock nodes (${input.level}) is allowed but not recommended. ` +
+            "These are philosophical/empirical foundations. Proceed only if certain.",
+        );
+      }
+      if (oldQueries.length > 10) {
+        warnings.push(`Merging ${oldQueries.length} nodes. Large merges increase risk of error.`);
+      }
+      if (input.status && input.status !== "auto" && !isStatus(input.status)) {
+        throw new InvalidStatusError(input.status);
+      }
+      if ((input.proposition === undefined) === (input.propositionFrom === undefined)) {
+        throw new LatticeError(
+          "Give exactly one of --proposition or --proposition-from",
+          EXIT.BAD_INPUT,
+        );
+      }
+      if (input.proposition !== undefined && !input.proposition.trim()) {
+        throw new LatticeError("Proposition cannot be empty", EXIT.BAD_INPUT);
+      }
+
+      return this.locked(async () => {
+        const nodes = await this.nodes();
+
+        const oldNodes: LatticeNode[] = [];
+        if (input.group) {
+          for (const node of nodes.values()) {
+            if (node.deduplication_group === input.group) oldNodes.push(node);
+          }
+          if (oldNodes.length === 0) {
+            throw new LatticeError(`No nodes found in group: ${input.group}`, EXIT.BAD_INPUT);
+          }
+        }
+        for (const query of oldQueries) {
+          const node = nodes.get(resolveNodeSlug(query, nodes))!;
+          if (!oldNodes.includes(node)) oldNodes.push(node);
+        }
+        if (oldNodes.length === 0) {
+          throw new LatticeError(
+            "No old nodes specified. Use --deduplication-group or --old-node.",
+            EXIT.BAD_INPUT,
+          );
+        }
+
+        for (const node of oldNodes) {
+          if (node.level !== input.level) {
+            throw new LatticeError(
+              `All merged nodes must be at level ${input.level}; ${node.slug} is ${node.level}`,
+              EXIT.BAD_INPUT,
+            );
+          }
+          if (node.merged_into) {
+            throw new LatticeError(`Node ${node.slug} has already been merged`, EXIT.BAD_INPUT);
+          }
+        }
+
+        let proposition = input.proposition ?? "";
+        if (input.propositionFrom !== undefined) {
+          const source = nodes.get(resolveNodeSlug(input.propositionFrom, nodes))!;
+          if (!oldNodes.includes(source)) {
+            throw new LatticeError(
+              `--proposition-from must name one of the merged nodes; ${source.slug} is not`,
+              EXIT.BAD_INPUT,
+            );
+          }
+          proposition = source.proposition;
+        }
+
+        const oldSlugSet = new Set(oldNodes.map((n) => n.slug));
+        const reducesTo = input.inheritParents
+          ? [...new Set(oldNodes.flatMap((n) => n.reduces_to))].filter((ref) => !oldSlugSet.has(ref))
+          : oldNodes[0].reduces_to;
+        const tags = input.inheritTags ? [...new Set(oldNodes.flatMap((n) => n.tags))] : [];
+
+        const bedrock = isBedrock(input.level);
+        let status: Status = initialStatus();
+        if (input.status === "auto") {
+          if (bedrock) {
+            status = validatedStatus();
+          } else if (reducesTo.length > 0) {
+            try {
+              validateParentsAreValidated(reducesTo, nodes);
+              status = validatedStatus();
+            } catch (err) {
+              if (!(err instanceof UnvalidatedParentError)) throw err;
+            }
+          }
+        } else if (input.status) {
+          if (isGrounded(input.status) && !bedrock) {
+            validateParentsAreValidated(reducesTo, nodes);
+          }
+          status = input.status;
+        }
+
+        const merged = oldNodes.map((n) => ({ slug: n.slug, title: n.title }));
+        const canonicalFields = { reduces_to: reducesTo, tags, status };
+        if (input.dryRun) {
+          return { canonical: "", merged, ...canonicalFields, dryRun: true, warnings };
+        }
+
+        const mergedDate = new Date().toISOString();
+        const mergedFrom: MergedFromEntry[] = oldNodes.map((node) => ({
+          id: node.slug,
+          original_path: node.filePath,
+          original_status: node.status,
+          trashed_path: join(this.vaultPath, TRASH_FOLDER, basename(node.filePath)),
+          dependents: Array.from(nodes.values())
+            .filter((n) => !oldSlugSet.has(n.slug) && n.reduces_to.includes(node.slug))
+            .map((n) => n.slug),
+        }));
+
+        let canonical = "";
+        await runInTransaction(this.vaultPath, async () => {
+          const created = await createNodeFile(this.vaultPath, {
+            title: input.title,
+            level: input.level,
+            reduces_to: reducesTo,
+            status,
+            tags,
+            proposition,
+            merged_from: mergedFrom,
+            merged_reason: input.reason,
+            merged_date: mergedDate,
+            merged_group_id: input.group,
+          }, new Set(nodes.keys()));
+          canonical = created.slug;
+
+          for (const [i, oldNode] of oldNodes.entries()) {
+            await updateNodeFile(oldNode, {
+              merged_into: canonical,
+              trashed_on: mergedDate,
+              original_status: oldNode.status,
+              original_path: oldNode.filePath,
+              deduplication_group: null,
+            });
+            await moveFile(oldNode.filePath, mergedFrom[i].trashed_path);
+          }
+
+          // Point every reference to an old node at the canonical one, so
+          // the canonical node inherits all their dependents
+          for (const node of nodes.values()) {
+            if (oldSlugSet.has(node.slug)) continue;
+            if (!node.reduces_to.some((ref) => oldSlugSet.has(ref))) continue;
+            await updateNodeFile(node, {
+              reduces_to: [...new Set(node.reduces_to.map((ref) => (oldSlugSet.has(ref) ? canonical : ref)))],
+            });
+          }
+
+          await this.requireValid("merge");
+        });
+
+        return { canonical, merged, ...canonicalFields, dryRun: false, warnings };
+      });
+    });
+  }
+
+  /** Open deduplication groups with their members, oldest first. */
+  async dedupGroups(): Promise<DedupGroup[]> {
+    return this.scoped(async () => {
+      return listDedupGroups(await this.nodes());
+    });
+  }
+
+  /** Every merge, newest first, including undone ones. */
+  async merges(): Promise<MergeRecord[]> {
+    return this.scoped(async () => {
+      return listMerges(this.vaultPath, await this.nodes(), await loadTrashedNodes(this.vaultPath));
+    });
+  }
+
+  /**
+   * Reverse a merge: trash the canonical node and restore the nodes it
+   * replaced, with their original status. Each dependent of the canonical
+   * node goes back to the originals it reduced to when merged. Dependents
+   * added since must be assigned an original with `assign`.
+   */
+  async undoMerge(query: string, opts: UndoMergeOptions = {}): Promise<UndoMergeResult> {
+    return this.locked(async () => {
+      const nodes = await this.nodes();
+      const canonicalSlug = resolveNodeSlug(query, nodes);
+      const canonicalNode = nodes.get(canonicalSlug)!;
+      const mergedFrom = canonicalNode.merged_from;
+      if (!mergedFrom || mergedFrom.length === 0) {
+        throw new LatticeError(`Node ${canonicalSlug} is not a merged node`, EXIT.BAD_INPUT);
+      }
+
+      const warnings: string[] = [];
+      if (isBedrock(canonicalNode.level) && !opts.dryRun) {
+        warnings.push(`Undoing merge of bedrock nodes (${canonicalNode.level}). Proceed only if certain.`);
+      }
+
+      const originals = mergedFrom.map((e) => e.id);
+      const dependents = Array.from(nodes.values()).filter((n) =>
+        n.reduces_to.includes(canonicalSlug),
+      );
+
+      const assigned = new Map<string, string>();
+      for (const [childQuery, originalQuery] of Object.entries(opts.assign ?? {})) {
+        const child = resolveNodeSlug(childQuery, nodes);
+        if (!dependents.some((n) => n.slug === child)) {
+          throw new LatticeError(`${child} does not reduce to ${canonicalSlug}`, EXIT.BAD_INPUT);
+        }
+        assigned.set(child, resolveOriginal(originalQuery, originals));
+      }
+
+      // Merges recorded before per-dependent edges fall back to the oldest
+      // original, as undo always did
+      const recorded = mergedFrom.some((e) => e.dependents !== undefined);
+      let oldest: string | null = null;
+      if (!recorded) {
+        let oldestCreated: Date | null = null;
+        for (const entry of mergedFrom) {
+          const created = (await parseNodeFile(entry.trashed_path)).created;
+          if (!oldestCreated || created < oldestCreated) {
+            oldestCreated = created;
+            oldest = entry.id;
+          }
+        }
+      }
+
+      const rewired: UndoMergeResult["rewired"] = [];
+      const unassigned: string[] = [];
+      for (const node of dependents) {
+        const choice = assigned.get(node.slug);
+        const targets = mergedFrom.filter((e) => e.dependents?.includes(node.slug)).map((e) => e.id);
+        if (choice) {
+          rewired.push({ slug: node.slug, to: [choice], source: "assigned" });
+        } else if (targets.length > 0) {
+          rewired.push({ slug: node.slug, to: targets, source: "recorded" });
+        } else if (oldest) {
+          rewired.push({ slug: node.slug, to: [oldest], source: "oldest" });
+        } else {
+          unassigned.push(node.slug);
+        }
+      }
+      if (oldest && rewired.length > 0) {
+        warnings.push(
+          `This merge did not record its dependents; pointing them at the oldest original, ${oldest}. ` +
+            "Use --assign <child>=<original> to choose.",
+        );
+      }
+
+      const restored = mergedFrom.map((e) => ({ slug: e.id, originalPath: e.original_path }));
+      const result = {
+        canonical: canonicalSlug,
+        title: canonicalNode.title,
+        restored,
+        rewired,
+        unassigned,
+        warnings,
+      };
+      if (opts.dryRun) {
+        return { ...result, dryRun: true };
+      }
+      if (unassigned.length > 0) {
+        throw new LatticeError(
+          `Node(s) added after the merge reduce to ${canonicalSlug}: ${unassigned.join(", ")}. ` +
+            `Assign each to an original with --assign <child>=<original> (originals: ${originals.join(", ")})`,
+          EXIT.BAD_INPUT,
+        );
+      }
+
+      await runInTransaction(this.vaultPath, async () => {
+        const undonePath = join(
+          this.vaultPath,
+          TRASH_FOLDER,
+          "Undone-Merges",
+          basename(canonicalNode.filePath),
+        );
+        await updateNodeFile(canonicalNode, { undone_merge: { reason: opts.reason } });
+        await moveFile(canonicalNode.filePath, undonePath);
+
+        for (const entry of mergedFrom) {
+          await moveFile(entry.trashed_path, entry.original_path);
+          const restoredNode = await parseNodeFile(entry.original_path);
+          await updateNodeFile(restoredNode, {
+            status: entry.original_status,
+            merged_into: null,
+            trashed_on: null,
+            original_status: null,
+            original_path: null,
+            deduplication_group: null,
+          });
+        }
+
+        for (const { slug, to } of rewired) {
+          const node = nodes.get(slug)!;
+          await updateNodeFile(node, {
+            reduces_to: [...new Set(node.reduces_to.flatMap((ref) => (ref === canonicalSlug ? to : [ref])))],
+          });
+        }
+
+        await this.requireValid("undo");
+      });
+
+      return { ...result, dryRun: false };
+    });
+  }
+
+  /**
+   * Replace a node with several more atomic nodes at the same level. Parts
+   * default to the original's parents, tags and status; every dependent of
+   * the original must be assigned one or more parts. The original is
+   * trashed with a split_into record, so undoSplit can bring it back.
+   */
+  async split(query: string, input: SplitInput): Promise<SplitResult> {
+    return this.locked(async () => {
+      const nodes = await this.nodes();
+      const slug = resolveNodeSlug(query, nodes);
+      const original = nodes.get(slug)!;
+      const plan = planSplit(this.vaultPath, original, input, nodes, await this.tags());
+
+      const trashedPath = join(this.vaultPath, TRASH_FOLDER, SPLIT_FOLDER, basename(original.filePath));
+      const result = {
+        original: slug,
+        title: original.title,
+        parts: plan.parts.map(({ id, slug, title, reduces_to, tags, status }) => ({
+          id,
+          slug,
+          title,
+          reduces_to,
+          tags,
+          status,
+        })),
+        rewired: plan.rewired,
+        unassigned: plan.unassigned,
+        trashedPath,
+      };
+      if (input.dryRun) {
+        return { ...result, dryRun: true };
+      }
+      if (plan.unassigned.length > 0) {
+        throw new LatticeError(
+          `Node(s) reduce to ${slug} but are not assigned a part: ${plan.unassigned.join(", ")}. ` +
+            `Map each to one or more parts under "dependents" in the spec`,
+          EXIT.BAD_INPUT,
+        );
+      }
+
+      await runInTransaction(this.vaultPath, async () => {
+        const existing = new Set(nodes.keys());
+        for (const part of plan.parts) {
+          await createNodeFile(this.vaultPath, {
+            title: part.title,
+            level: original.level,
+            reduces_to: part.reduces_to,
+            status: part.status,
+            tags: part.tags,
+            proposition: part.proposition,
+            slug: part.slug,
+            split_from: slug,
+          }, existing);
+        }
+
+        await updateNodeFile(original, {
+          split_into: plan.parts.map((p) => p.slug),
+          split_reason: input.reason,
+          trashed_on: new Date().toISOString(),
+          original_status: original.status,
+          original_path: original.filePath,
+          deduplication_group: null,
+        });
+        await moveNodeFile(original, trashedPath);
+
+        for (const { slug: child, to } of plan.rewired) {
+          const node = nodes.get(child)!;
+          await updateNodeFile(node, {
+            reduces_to: [...new Set(node.reduces_to.flatMap((ref) => (ref === slug ? to : [ref])))],
+          });
+        }
+
+        await this.requireValid("split");
+      });
+
+      return { ...result, dryRun: false };
+    });
+  }
+
+  /**
+   * Reverse a split: trash the parts and restore the original, with its
+   * original status. `query` names the trashed original or any live part.
+   * Every node that reduces to a part reduces to the original instead.
+   */
+  async undoSplit(query: string, opts: UndoSplitOptions = {}): Promise<UndoSplitResult> {
+    return this.locked(async () => {
+      const nodes = await this.nodes();
+      const originals = new Map(
+        (await loadTrashedNodes(this.vaultPath))
+          .filter((n) => trashKind(this.vaultPath, n) === "split")
+          .map((n) => [n.slug, n]),
+      );
+
+      const match = findNodeBySlug(query, originals);
+      let original = match.slug ? originals.get(match.slug) : undefined;
+      if (!original) {
+        if (match.ambiguous) throw new AmbiguousMatchError(query, match.candidates);
+        const part = nodes.get(resolveNodeSlug(query, nodes))!;
+        if (!part.split_from) {
+          throw new LatticeError(`Node ${part.slug} was not created by a split`, EXIT.BAD_INPUT);
+        }
+        original = originals.get(part.split_from);
+        if (!original) {
+          throw new LatticeError(
+            `Original ${part.split_from} of ${part.slug} is no longer in ${TRASH_FOLDER}/${SPLIT_FOLDER}`,
+            EXIT.BAD_INPUT,
+          );
+        }
+      }
+      if (nodes.has(original.slug)) {
+        throw new DuplicateSlugError(original.slug);
+      }
+
+      const warnings: string[] = [];
+      const partSlugs = new Set(original.split_into ?? []);
+      const removed = [...partSlugs].filter((s) => nodes.has(s));
+      for (const s of partSlugs) {
+        if (!nodes.has(s)) warnings.push(`Part ${s} no longer exists; nothing to remove.`);
+      }
+      const remaining = new Map(nodes);
+      for (const s of removed) remaining.delete(s);
+
+      const rewired = Array.from(remaining.values()).filter((n) =>
+        n.reduces_to.some((ref) => partSlugs.has(ref)),
+      );
+
+      let status: Status = original.original_status ?? original.status;
+      if (isGrounded(status) && original.reduces_to.length > 0) {
+        try {
+          validateParentsAreValidated(original.reduces_to, remaining);
+        } catch (err) {
+          if (!(err instanceof UnvalidatedParentError)) throw err;
+          status = initialStatus();
+          warnings.push(`Restored as ${status}: ${err.message}`);
+        }
+      }
+
+      const restoredPath = join(this.vaultPath, levelFolder(original.level), basename(original.filePath));
+      const result = {
+        original: original.slug,
+        title: original.title,
+        restoredPath,
+        status,
+        removed,
+        rewired: rewired.map((n) => n.slug),
+        warnings,
+      };
+      if (opts.dryRun) {
+        return { ...result, dryRun: true };
+      }
+
+      await runInTransaction(this.vaultPath, async () => {
+        const undoneOn = new Date().toISOString();
+        for (const s of removed) {
+          const part = nodes.get(s)!;
+          await updateNodeFile(part, {
+            undone_split: { reason: opts.reason },
+            trashed_on: undoneOn,
+            original_status: part.status,
+            original_path: part.filePath,
+          });
+          await moveNodeFile(
+            part,
+            join(this.vaultPath, TRASH_FOLDER, UNDONE_SPLITS_FOLDER, basename(part.filePath)),
+          );
+        }
+
+        await updateNodeFile(original, {
+          status,
+          split_into: null,
+          split_reason: null,
+          trashed_on: null,
+          original_status: null,
+          original_path: null,
+        });
+        await moveNodeFile(original, restoredPath);
+
+        for (const node of rewired) {
+          await updateNodeFile(node, {
+            reduces_to: [
+              ...new Set(node.reduces_to.map((ref) => (partSlugs.has(ref) ? original.slug : ref))),
+            ],
+          });
+        }
+
+        await this.requireValid("split undo");
+      });
+
+      return { ...result, dryRun: false };
+    });
+  }
+
+  /** Run `fn` with this vault's levels and statuses in effect. */
+  private scoped<T>(fn: () => Promise<T>): Promise<T> {
+    return withSchema(this.schema, fn);
+  }
+
+  /**
+   * Run `fn` in scope, holding the vault write lock. Other calls, on this
+   * instance or any other, wait for it (see withVaultLock).
+   */
+  private locked<T>(fn: () => Promise<T>): Promise<T> {
+    return this.scoped(() => withVaultLock(this.vaultPath, fn));
+  }
+
+  /**
+   * Validate and write one add or update under the rules `batch` and the
+   * servers apply (see planOperation). Call with the vault lock held.
+   */
+  private async applyOne(op: BatchOperation): Promise<BatchOpResult> {
+    const plan = planOperation(
+      this.vaultPath,
+      op,
+      await this.nodes(),
+      await this.tags(),
+      await loadConfig(this.vaultPath),
+    );
+    await applyBatch(this.vaultPath, plan);
+    return plan.results[0];
+  }
+
+  /**
+   * Inside a transaction: throw, so nothing is committed, if the vault as
+   * it would be written has integrity issues.
+   */
+  private async requireValid(operation: string): Promise<void> {
+    const issues = validateGraph(await this.nodes(), await this.tags());
+    if (issues.length > 0) {
+      throw new LatticeError(
+        `Validation failed after ${operation}; no changes were written:\n` +
+          issues.map((i) => `  ${i.slug}: ${i.message}`).join("\n"),
+        EXIT.VALIDATION_ERROR,
+      );
+    }
+  }
+
+  /** The provider given to open(), else the vault's configured one. */
+  private async embeddings(): Promise<EmbeddingProvider> {
+    return this.opts.embeddings ?? providerFromConfig((await loadConfig(this.vaultPath)).embeddings);
+  }
+}
+
+// ─── Helpers ─────────────────────────────────────────────────────────
+
+/** A merged original by exact slug or unique substring. */
+function resolveOriginal(query: string, originals: string[]): string {
+  if (originals.includes(query)) return query;
+  const matches = originals.filter((id) => id.includes(query));
+  if (matches.length !== 1) {
+    throw new LatticeError(
+      `'${query}' does not name exactly one merged original (${originals.join(", ")})`,
+      EXIT.BAD_INPUT,
+    );
+  }
+  return matches[0];
+}
+
+function toHint(node: LatticeNode): PromotionHint {
+  return { slug: node.slug, title: node.title };
+}
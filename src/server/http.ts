@@ -0,0 +1,350 @@
+import { createServer, type IncomingMessage, type ServerResponse } from "node:http";
+import { timingSafeEqual } from "node:crypto";
+import { EXIT, type Level, type Status } from "../core/constants.js";
+import { isLevel, levelNames } from "../core/levels.js";
+import { isStatus } from "../core/statuses.js";
+import {
+  buildIncomingLinks,
+  buildReductionChain,
+  findHollowChains,
+  findRelatedNodes,
+  validateGraph,
+  SEED_STRATEGIES,
+  type SeedStrategy,
+} from "../core/graph.js";
+import { searchNodes } from "../core/search.js";
+import type { BatchOperation } from "../core/batch.js";
+import type { VaultSession } from "../core/session.js";
+import { chainTreeToObject, nodeToObject } from "../util/format.js";
+import {
+  AmbiguousMatchError,
+  DeleteBlockedError,
+  DuplicateSlugError,
+  InvalidLevelError,
+  InvalidStatusError,
+  LatticeError,
+  NodeNotFoundError,
+  VaultLockedError,
+} from "../util/errors.js";
+
+/**
+ * Local HTTP/JSON API (`lattice serve --http`).
+ *
+ * Routes mirror the CLI commands and run the same code: reads use the
+ * session's in-memory graph, writes go through VaultSession.apply. Errors
+ * are the same LatticeError subclasses, mapped to HTTP status codes, with
+ * the CLI's message in the body:
+ *   { "error": { "type": "DuplicateSlugError", "message": "..." } }
+ */
+
+export interface HttpServerOptions {
+  host: string;
+  port: number;
+  /** When set, every request must send `Authorization: Bearer <token>`. */
+  token?: string;
+  /** Reject every request that would write. */
+  readOnly: boolean;
+}
+
+/** Request bodies larger than this are rejected (413). */
+const MAX_BODY_BYTES = 1024 * 1024;
+
+/** A failure outside the lattice rules: auth, routing, malformed HTTP. */
+class HttpError extends Error {
+  constructor(
+    public readonly status: number,
+    message: string,
+  ) {
+    super(message);
+    this.name = "HttpError";
+  }
+}
+
+/**
+ * HTTP status for an error. Specific classes first, then by exit code:
+ * bad input → 400, rule violation → 422, filesystem → 500.
+ */
+function statusFor(err: unknown): number {
+  if (err instanceof HttpError) return err.status;
+  if (err instanceof NodeNotFoundError) return 404;
+  if (
+    err instanceof AmbiguousMatchError ||
+    err instanceof DuplicateSlugError ||
+    err instanceof DeleteBlockedError
+  ) {
+    return 409;
+  }
+  if (err instanceof VaultLockedError) return 503;
+  if (err instanceof LatticeError) {
+    if (err.exitCode === EXIT.BAD_INPUT) return 400;
+    if (err.exitCode === EXIT.VALIDATION_ERROR) return 422;
+  }
+  return 500;
+}
+
+// ─── Request helpers ─────────────────────────────────────────────────
+
+function checkToken(req: IncomingMessage, token: string): void {
+  const header = req.headers.authorization ?? "";
+  const given = Buffer.from(header.startsWith("Bearer ") ? header.slice(7) : "");
+  const expected = Buffer.from(token);
+  if (given.length !== expected.length || !timingSafeEqual(given, expected)) {
+    throw new HttpError(401, "Missing or invalid bearer token");
+  }
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<Record<string, unknown>> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > MAX_BODY_BYTES) {
+      throw new HttpError(413, `Request body exceeds ${MAX_BODY_BYTES} bytes`);
+    }
+    chunks.push(chunk as Buffer);
+  }
+  const raw = Buffer.concat(chunks).toString("utf-8").trim();
+  if (!raw) return {};
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    throw new HttpError(400, "Request body is not valid JSON");
+  }
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+    throw new HttpError(400, "Request body must be a JSON object");
+  }
+  return parsed as Record<string, unknown>;
+}
+
+function positiveInt(value: string | null, name: string, fallback: number): number {
+  if (value === null) return fallback;
+  const n = Number(value);
+  if (!Number.isInteger(n) || n < 1) {
+    throw new LatticeError(`'${name}' must be a positive integer`, EXIT.BAD_INPUT);
+  }
+  return n;
+}
+
+function send(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { "Content-Type": "application/json; charset=utf-8" });
+  res.end(JSON.stringify(body) + "\n");
+}
+
+// ─── Routes ──────────────────────────────────────────────────────────
+
+/**
+ * Dispatch one request. Returns [status, body]. Path segments are
+ * URL-decoded; a slug segment accepts anything `lattice query chain`
+ * does (exact slug, unique prefix, unique title substring).
+ */
+async function route(
+  session: VaultSession,
+  method: string,
+  url: URL,
+  req: IncomingMessage,
+): Promise<[number, unknown]> {
+  const parts = url.pathname.split("/").filter(Boolean).map((segment) => {
+    try {
+      return decodeURIComponent(segment);
+    } catch {
+      throw new HttpError(400, `Malformed percent-encoding in path segment '${segment}'`);
+    }
+  });
+  const [resource, id, ...rest] = parts;
+  if (rest.length > 0) throw new HttpError(404, `No route for ${url.pathname}`);
+  const q = url.searchParams;
+
+  switch (`${method} ${resource ?? ""}${id === undefined ? "" : "/:id"}`) {
+    case "GET nodes": {
+      const level = q.get("level");
+      if (level !== null && !isLevel(level)) {
+        throw new InvalidLevelError(level);
+      }
+      const status = q.get("status");
+      const tag = q.get("tag")?.toLowerCase();
+      const results = Array.from((await session.nodes()).values())
+        .filter((n) => level === null || n.level === level)
+        .filter((n) => status === null || n.status === status)
+        .filter((n) => tag === undefined || n.tags.includes(tag))
+        .sort((a, b) => levelNames().indexOf(a.level) - levelNames().indexOf(b.level));
+      return [200, results.map(nodeToObject)];
+    }
+
+    case "GET nodes/:id": {
+      const slug = await session.resolveNode(id);
+      const node = (await session.nodes()).get(slug)!;
+      return [200, { ...nodeToObject(node), file: node.filePath }];
+    }
+
+    case "POST nodes": {
+      const body = await readJsonBody(req);
+      const plan = await session.apply({ ...body, op: "add" } as BatchOperation);
+      const slug = plan.results[0].slug!;
+      const node = (await session.nodes()).get(slug)!;
+      return [201, { created: node.filePath, slug, node: nodeToObject(node) }];
+    }
+
+    case "PATCH nodes/:id": {
+      const fields = await readJsonBody(req);
+      const plan = await session.apply(
+        { ...fields, op: "update", node: await session.resolveNode(id) } as BatchOperation,
+      );
+      const [result] = plan.results;
+      const body: Record<string, unknown> = { updated: result.slug, changes: result.changes };
+      if (result.propagated?.length) body.propagated = result.propagated;
+      if (result.hollow?.length) body.hollow = result.hollow;
+      return [200, body];
+    }
+
+    case "DELETE nodes/:id": {
+      const slug = await session.resolveNode(id);
+      await session.apply({ op: "delete", node: slug });
+      return [200, { deleted: slug }];
+    }
+
+    case "GET chain/:id": {
+      const slug = await session.resolveNode(id);
+      const tree = buildReductionChain(slug, await session.nodes());
+      if (!tree) {
+        throw new LatticeError(`Could not build reduction chain for '${slug}'`, EXIT.VALIDATION_ERROR);
+      }
+      return [200, chainTreeToObject(tree)];
+    }
+
+    case "GET related": {
+      const query = q.get("q");
+      if (!query) throw new LatticeError("Query parameter 'q' is required", EXIT.BAD_INPUT);
+      const limit = positiveInt(q.get("limit"), "limit", 5);
+      const depth = positiveInt(q.get("depth"), "depth", 3);
+      const seed = (q.get("seed") ?? "auto") as SeedStrategy;
+      if (!SEED_STRATEGIES.includes(seed)) {
+        throw new LatticeError(
+          `Invalid seed '${seed}'. Must be one of: ${SEED_STRATEGIES.join(", ")}`,
+          EXIT.BAD_INPUT,
+        );
+      }
+      const entry = await session.entryPoints(query, seed);
+      if (entry.slugs.length === 0) {
+        throw new LatticeError(
+          `No entry points found for "${query}". Try a partial slug, a tag name, or words from a title or proposition.`,
+          EXIT.BAD_INPUT,
+        );
+      }
+      const nodes = await session.nodes();
+      const results = findRelatedNodes(entry.slugs, nodes, buildIncomingLinks(nodes), depth, limit);
+      return [200, { entry: entry.method, results }];
+    }
+
+    case "GET search": {
+      const query = q.get("q");
+      if (!query) throw new LatticeError("Query parameter 'q' is required", EXIT.BAD_INPUT);
+      const level = q.get("level") as Level | null;
+      if (level !== null && !isLevel(level)) {
+        throw new InvalidLevelError(level);
+      }
+      const status = q.get("status") as Status | null;
+      if (status !== null && !isStatus(status)) {
+        throw new InvalidStatusError(status);
+      }
+      const hits = searchNodes(query, await session.nodes(), {
+        level: level ?? undefined,
+        status: status ?? undefined,
+        tag: q.get("tag") ?? undefined,
+        limit: positiveInt(q.get("limit"), "limit", 10),
+      });
+      return [200, hits];
+    }
+
+    case "GET validate": {
+      const nodes = await session.nodes();
+      const issues = validateGraph(nodes, await session.tags());
+      return [200, {
+        total_nodes: nodes.size,
+        issues_found: issues.length,
+        issues: issues.map((i) => ({ slug: i.slug, type: i.type, message: i.message })),
+      }];
+    }
+
+    case "GET hollow-chains":
+      return [200, findHollowChains(await session.nodes())];
+
+    case "GET tags":
+      return [200, await session.tags()];
+  }
+
+  const known = ["nodes", "chain", "related", "search", "validate", "hollow-chains", "tags"];
+  if (resource !== undefined && known.includes(resource)) {
+    throw new HttpError(405, `Method ${method} not allowed on ${url.pathname}`);
+  }
+  throw new HttpError(404, `No route for ${url.pathname}`);
+}
+
+// ─── Server ──────────────────────────────────────────────────────────
+
+/**
+ * Serve the API until SIGINT or SIGTERM. The listening address is
+ * reported on stderr.
+ */
+export async function serveHttp(
+  session: VaultSession,
+  opts: HttpServerOptions,
+): Promise<void> {
+  const server = createServer((req, res) => {
+    const method = req.method ?? "GET";
+
+    (async () => {
+      let url: URL;
+      try {
+        url = new URL(req.url ?? "/", "http://localhost");
+      } catch {
+        throw new HttpError(400, `Malformed request target '${req.url}'`);
+      }
+      if (opts.token) checkToken(req, opts.token);
+      if (opts.readOnly && method !== "GET") {
+        throw new HttpError(403, "Server is read-only");
+      }
+      return session.run(() => route(session, method, url, req));
+    })().then(
+      ([status, body]) => send(res, status, body),
+      (err: unknown) => {
+        const status = statusFor(err);
+        if (status === 500 && !(err instanceof LatticeError)) {
+          process.stderr.write(`Error: ${method} ${req.url}: ${(err as Error).stack}\n`);
+        }
+        send(res, status, {
+          error: { type: (err as Error).name, message: (err as Error).message },
+        });
+      },
+    );
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    const fail = (err: NodeJS.ErrnoException): void => {
+      reject(
+        new LatticeError(
+          `Cannot listen on ${opts.host}:${opts.port}: ${err.code ?? err.message}`,
+          EXIT.FILESYSTEM_ERROR,
+        ),
+      );
+    };
+    server.once("error", fail);
+    server.listen(opts.port, opts.host, () => {
+      server.off("error", fail);
+      resolve();
+    });
+  });
+  process.stderr.write(
+    `Serving ${session.vaultPath} on http://${opts.host}:${opts.port}` +
+      `${opts.readOnly ? " (read-only)" : ""}${opts.token ? " (token required)" : ""}\n`,
+  );
+
+  await new Promise<void>((resolve) => {
+    const stop = (): void => {
+      server.close(() => resolve());
+      server.closeAllConnections();
+    };
+    process.once("SIGINT", stop);
+    process.once("SIGTERM", stop);
+  });
+}
@@ -0,0 +1,455 @@
+import { createInterface } from "node:readline";
+import { encode } from "@toon-format/toon";
+import { EXIT, type Level, type Status } from "../core/constants.js";
+import { bedrockLevels, isLevel, levelNames } from "../core/levels.js";
+import { initialStatus, isStatus, statusNames, validatedStatus } from "../core/statuses.js";
+import {
+  buildIncomingLinks,
+  buildReductionChain,
+  findRelatedNodes,
+  findTentativeNodes,
+  validateGraph,
+  SEED_STRATEGIES,
+  type SeedStrategy,
+} from "../core/graph.js";
+import { searchNodes } from "../core/search.js";
+import { selectDedupCandidates } from "../core/dedup.js";
+import type { BatchOperation } from "../core/batch.js";
+import type { VaultSession } from "../core/session.js";
+import { chainTreeToObject, nodeToObject } from "../util/format.js";
+import { parseDuration } from "../util/cli-helpers.js";
+import { InvalidLevelError, InvalidStatusError, LatticeError } from "../util/errors.js";
+
+/**
+ * Model Context Protocol server over stdio (`lattice serve --mcp`).
+ *
+ * Speaks JSON-RPC 2.0, one message per line, and exposes the commands an
+ * agent uses most as tools. Reads come from the session's in-memory
+ * graph; writes go through VaultSession.apply, so every rule the CLI
+ * enforces is enforced here.
+ *
+ * Tool results are TOON text, as the CLI prints by default. Tool failures
+ * (bad input, rule violations) are results with isError set, not protocol
+ * errors, so the agent sees the message and can correct itself.
+ */
+
+const PROTOCOL_VERSIONS = ["2025-06-18", "2025-03-26", "2024-11-05"];
+
+/** JSON-RPC error codes used by this server. */
+const RPC = {
+  PARSE_ERROR: -32700,
+  INVALID_REQUEST: -32600,
+  METHOD_NOT_FOUND: -32601,
+  INVALID_PARAMS: -32602,
+  INTERNAL_ERROR: -32603,
+} as const;
+
+interface RpcMessage {
+  jsonrpc?: string;
+  id?: string | number | null;
+  method?: string;
+  params?: Record<string, unknown>;
+}
+
+interface ToolDefinition {
+  name: string;
+  description: string;
+  inputSchema: Record<string, unknown>;
+}
+
+type ToolArgs = Record<string, unknown>;
+
+// ─── Tool definitions ────────────────────────────────────────────────
+
+/**
+ * Tool list with JSON schemas. Levels and statuses come from the vault's
+ * config, tag enums from the current master list.
+ */
+function toolDefinitions(masterTags: string[]): ToolDefinition[] {
+  const level = { type: "string", enum: levelNames() };
+  const status = { type: "string", enum: statusNames() };
+  const validated = validatedStatus();
+  const initial = initialStatus();
+  const tagList = { type: "array", items: { type: "string", enum: masterTags } };
+  const slugList = { type: "array", items: { type: "string" } };
+  const nodeRef = {
+    type: "string",
+    description: "Node slug, unique slug prefix, or unique title substring",
+  };
+
+  return [
+    {
+      name: "add",
+      description:
+        `Create a node. Bedrock levels (${bedrockLevels().join(", ")}) take no reduces_to and are always ${validated}. Other levels must reduce to existing lower-level nodes and start ${initial} unless status says otherwise (a validated status needs every parent validated).`,
+      inputSchema: {
+        type: "object",
+        properties: {
+          level,
+          title: { type: "string" },
+          proposition: { type: "string" },
+          tags: tagList,
+          reduces_to: { ...slugList, description: "Exact slugs of parent nodes" },
+          status,
+        },
+        required: ["level", "title", "proposition"],
+        additionalProperties: false,
+      },
+    },
+    {
+      name: "update",
+      description:
+        `Change a node's status, tags or reduces_to links. Status changes must be allowed by the vault's status transitions. Promotion to ${validated} (or any other validated status) requires every parent to be validated. With propagate (or the vault's propagate_demotion setting), a demotion also demotes validated dependents to ${initial}.`,
+      inputSchema: {
+        type: "object",
+        properties: {
+          node: nodeRef,
+          status,
+          add_tags: tagList,
+          remove_tags: { type: "array", items: { type: "string" } },
+          add_reduces_to: slugList,
+          remove_reduces_to: slugList,
+          propagate: { type: "boolean" },
+        },
+        required: ["node"],
+        additionalProperties: false,
+      },
+    },
+    {
+      name: "query_chain",
+      description:
+        "Full reduction tree of a node down to bedrock: why do I believe this? Broken links appear as '[BROKEN LINK: ...]' entries.",
+      inputSchema: {
+        type: "object",
+        properties: { node: nodeRef },
+        required: ["node"],
+        additionalProperties: false,
+      },
+    },
+    {
+      name: "query_related",
+      description:
+        "Nodes epistemically connected to a slug, tag, title keyword or free-text question, found by walking reduces_to links in both directions and ranked by score.",
+      inputSchema: {
+        type: "object",
+        properties: {
+          query: { type: "string" },
+          limit: { type: "integer", minimum: 1, default: 5 },
+          depth: { type: "integer", minimum: 1, default: 3 },
+          seed: {
+            type: "string",
+            enum: [...SEED_STRATEGIES],
+            default: "auto",
+            description:
+              "auto: slug, tag, title, then full-text search; search: full-text only; semantic: nearest embeddings",
+          },
+        },
+        required: ["query"],
+        additionalProperties: false,
+      },
+    },
+    {
+      name: "search",
+      description:
+        "Full-text search over titles, propositions and tags, ranked by BM25. Bare words match any; \"quoted phrases\" must match exactly. Each hit has a snippet of the proposition.",
+      inputSchema: {
+        type: "object",
+        properties: {
+          query: { type: "string" },
+          level,
+          status,
+          tag: { type: "string", enum: masterTags },
+          limit: { type: "integer", minimum: 1, default: 10 },
+        },
+        required: ["query"],
+        additionalProperties: false,
+      },
+    },
+    {
+      name: "query_tentative",
+      description:
+        `${initial} and other open nodes (neither validated nor terminal), oldest first: beliefs that still need grounding or deletion.`,
+      inputSchema: {
+        type: "object",
+        properties: {
+          older_than: {
+            type: "string",
+            pattern: "^\\d+(d|h)$",
+            description: "Only nodes older than this, e.g. 7d or 48h",
+          },
+        },
+        additionalProperties: false,
+      },
+    },
+    {
+      name: "validate",
+      description:
+        "Check the whole vault: broken links, level mismatches, cycles, rogue tags, missing reductions, stale tentatives.",
+      inputSchema: { type: "object", properties: {}, additionalProperties: false },
+    },
+    {
+      name: "dedup_candidates",
+      description:
+        "Nodes at one level to review for semantic duplicates, newest first, with their propositions.",
+      inputSchema: {
+        type: "object",
+        properties: {
+          level,
+          after: { type: "string", format: "date", description: "Only nodes created after this date" },
+          max_candidates: { type: "integer", minimum: 1, default: 100 },
+        },
+        required: ["level"],
+        additionalProperties: false,
+      },
+    },
+  ];
+}
+
+// ─── Tool implementations ────────────────────────────────────────────
+
+/** Raised for a tool name not in the list — a protocol error, not a tool error. */
+class UnknownToolError extends Error {}
+
+function requireArg(args: ToolArgs, name: string): string {
+  const value = args[name];
+  if (typeof value !== "string" || !value.trim()) {
+    throw new LatticeError(`'${name}' is required and must be a non-empty string`, EXIT.BAD_INPUT);
+  }
+  return value;
+}
+
+function optionalInt(args: ToolArgs, name: string, fallback: number): number {
+  const value = args[name];
+  if (value === undefined) return fallback;
+  if (typeof value !== "number" || !Number.isInteger(value) || value < 1) {
+    throw new LatticeError(`'${name}' must be a positive integer`, EXIT.BAD_INPUT);
+  }
+  return value;
+}
+
+async function callTool(
+  session: VaultSession,
+  name: string,
+  args: ToolArgs,
+): Promise<unknown> {
+  switch (name) {
+    case "add": {
+      const plan = await session.apply({ ...args, op: "add" } as BatchOperation);
+      const slug = plan.results[0].slug!;
+      const node = (await session.nodes()).get(slug)!;
+      return { created: node.filePath, slug, node: nodeToObject(node) };
+    }
+
+    case "update": {
+      const plan = await session.apply({ ...args, op: "update" } as BatchOperation);
+      const [result] = plan.results;
+      const output: Record<string, unknown> = { updated: result.slug, changes: result.changes };
+      if (result.propagated?.length) output.propagated = result.propagated;
+      if (result.hollow?.length) output.hollow = result.hollow;
+      return output;
+    }
+
+    case "query_chain": {
+      const slug = await session.resolveNode(requireArg(args, "node"));
+      const tree = buildReductionChain(slug, await session.nodes());
+      if (!tree) {
+        throw new LatticeError(`Could not build reduction chain for '${slug}'`, EXIT.VALIDATION_ERROR);
+      }
+      return chainTreeToObject(tree);
+    }
+
+    case "query_related": {
+      const query = requireArg(args, "query");
+      const limit = optionalInt(args, "limit", 5);
+      const depth = optionalInt(args, "depth", 3);
+      const seed = (args.seed ?? "auto") as SeedStrategy;
+      if (!SEED_STRATEGIES.includes(seed)) {
+        throw new LatticeError(
+          `'seed' must be one of: ${SEED_STRATEGIES.join(", ")}`,
+          EXIT.BAD_INPUT,
+        );
+      }
+      const entry = await session.entryPoints(query, seed);
+      if (entry.slugs.length === 0) {
+        throw new LatticeError(
+          `No entry points found for "${query}". Try a partial slug, a tag name, or words from a title or proposition.`,
+          EXIT.BAD_INPUT,
+        );
+      }
+      const nodes = await session.nodes();
+      const results = findRelatedNodes(entry.slugs, nodes, buildIncomingLinks(nodes), depth, limit);
+      return { entry: entry.method, results };
+    }
+
+    case "search": {
+      const query = requireArg(args, "query");
+      const level = args.level as Level | undefined;
+      if (level !== undefined && !isLevel(level)) {
+        throw new InvalidLevelError(level);
+      }
+      const status = args.status as Status | undefined;
+      if (status !== undefined && !isStatus(status)) {
+        throw new InvalidStatusError(status);
+      }
+      const hits = searchNodes(query, await session.nodes(), {
+        level,
+        status,
+        tag: args.tag as string | undefined,
+        limit: optionalInt(args, "limit", 10),
+      });
+      return hits.map(({ highlights: _highlights, ...hit }) => hit);
+    }
+
+    case "query_tentative": {
+      const olderThan = args.older_than === undefined
+        ? undefined
+        : parseDuration(String(args.older_than));
+      return findTentativeNodes(await session.nodes(), olderThan).map(nodeToObject);
+    }
+
+    case "validate": {
+      const nodes = await session.nodes();
+      const issues = validateGraph(nodes, await session.tags());
+      return {
+        total_nodes: nodes.size,
+        issues_found: issues.length,
+        issues: issues.map((i) => ({ slug: i.slug, type: i.type, message: i.message })),
+      };
+    }
+
+    case "dedup_candidates": {
+      const level = requireArg(args, "level") as Level;
+      if (!isLevel(level)) {
+        throw new InvalidLevelError(level);
+      }
+      const after = new Date(args.after === undefined ? "1970-01-01" : String(args.after));
+      if (isNaN(after.getTime())) {
+        throw new LatticeError(`Invalid date '${args.after}'. Use YYYY-MM-DD.`, EXIT.BAD_INPUT);
+      }
+      const max = optionalInt(args, "max_candidates", 100);
+      const candidates = selectDedupCandidates(await session.nodes(), level, after, max);
+      return {
+        level,
+        candidates: candidates.map((n) => ({
+          slug: n.slug,
+          title: n.title,
+          created: n.created.toISOString(),
+          proposition: n.proposition,
+        })),
+      };
+    }
+
+    default:
+      throw new UnknownToolError(name);
+  }
+}
+
+// ─── Protocol ────────────────────────────────────────────────────────
+
+/**
+ * Serve MCP on stdin/stdout until stdin closes. Diagnostics go to stderr;
+ * stdout carries protocol messages only.
+ */
+export async function serveMcp(
+  session: VaultSession,
+  serverInfo: { name: string; version: string },
+): Promise<void> {
+  const send = (message: Record<string, unknown>): void => {
+    process.stdout.write(JSON.stringify({ jsonrpc: "2.0", ...message }) + "\n");
+  };
+  const reply = (id: RpcMessage["id"], result: unknown): void => {
+    send({ id, result });
+  };
+  const fail = (id: RpcMessage["id"], code: number, message: string): void => {
+    send({ id: id ?? null, error: { code, message } });
+  };
+
+  session.onTagsChanged(() => {
+    send({ method: "notifications/tools/list_changed" });
+  });
+
+  const handle = async (msg: RpcMessage): Promise<void> => {
+    const isRequest = msg.id !== undefined && msg.id !== null;
+    if (msg.jsonrpc !== "2.0" || typeof msg.method !== "string") {
+      if (isRequest) fail(msg.id, RPC.INVALID_REQUEST, "Invalid JSON-RPC 2.0 request");
+      return;
+    }
+    // Notifications (initialized, cancelled, ...) need no answer
+    if (!isRequest) return;
+
+    const params = msg.params ?? {};
+    switch (msg.method) {
+      case "initialize": {
+        const requested = String(params.protocolVersion ?? "");
+        reply(msg.id, {
+          protocolVersion: PROTOCOL_VERSIONS.includes(requested)
+            ? requested
+            : PROTOCOL_VERSIONS[0],
+          capabilities: { tools: { listChanged: true } },
+          serverInfo,
+        });
+        return;
+      }
+      case "ping":
+        reply(msg.id, {});
+        return;
+      case "tools/list":
+        reply(msg.id, { tools: toolDefinitions(await session.tags()) });
+        return;
+      case "tools/call": {
+        const name = String(params.name ?? "");
+        const args = (params.arguments ?? {}) as ToolArgs;
+        try {
+          const result = await callTool(session, name, args);
+          reply(msg.id, { content: [{ type: "text", text: encode(result) }] });
+        } catch (err) {
+          if (err instanceof UnknownToolError) {
+            fail(msg.id, RPC.INVALID_PARAMS, `Unknown tool: ${name}`);
+          } else {
+            reply(msg.id, {
+              content: [{ type: "text", text: `Error: ${(err as Error).message}` }],
+              isError: true,
+            });
+          }
+        }
+        return;
+      }
+      default:
+        fail(msg.id, RPC.METHOD_NOT_FOUND, `Method not found: ${msg.method}`);
+    }
+  };
+
+  const lines = createInterface({ input: process.stdin, crlfDelay: Infinity });
+  // Handle one message at a time, in order: writes must not interleave
+  let queue = Promise.resolve();
+  for await (const line of lines) {
+    if (!line.trim()) continue;
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(line);
+    } catch {
+      fail(null, RPC.PARSE_ERROR, "Parse error");
+      continue;
+    }
+    // MCP does not use JSON-RPC batches; scalars and null are not messages
+    if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+      fail(
+        null,
+        RPC.INVALID_REQUEST,
+        Array.isArray(parsed)
+          ? "Batch requests are not supported; send one message per line"
+          : "Invalid JSON-RPC 2.0 request: expected an object",
+      );
+      continue;
+    }
+    const msg = parsed as RpcMessage;
+    queue = queue.then(() =>
+      session.run(() => handle(msg)).catch((err) => {
+        if (msg?.id !== undefined && msg?.id !== null) {
+          fail(msg.id, RPC.INTERNAL_ERROR, (err as Error).message);
+        }
+      }),
+    );
+  }
+  await queue;
+}
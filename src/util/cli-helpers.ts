@@ -1,7 +1,7 @@
 import { Command } from "commander";
-import { LatticeError, AmbiguousMatchError } from "./errors.js";
+import { LatticeError } from "./errors.js";
 import { EXIT } from "../core/constants.js";
-import { findNodeBySlug as findNode, type LatticeNode } from "../core/node.js";
+import { acquireVaultLock } from "../core/lock.js";
 
 /**
  * Walk up the commander chain to the root program and extract global options.
@@ -27,24 +27,69 @@ export function handleError(err: unknown): never {
 }
 
 /**
- * Resolve a node query to a unique slug. Throws on ambiguous or no match.
+ * Take the vault write lock for the rest of the process. Call right after
+ * requireVault in every command that writes to the vault. Released when
+ * the process exits, including error exits through handleError.
  */
-export function resolveNodeSlug(
-  query: string,
-  nodes: Map<string, LatticeNode>,
-): string {
-  const result = findNode(query, nodes);
-
-  if (result.ambiguous) {
-    throw new AmbiguousMatchError(query, result.candidates);
-  }
+export async function lockVault(vaultPath: string): Promise<void> {
+  const lock = await acquireVaultLock(vaultPath);
+  process.once("exit", () => lock.release());
+}
 
-  if (!result.slug) {
+export { resolveNodeSlug } from "../core/node.js";
+
+/**
+ * Parse a duration like "7d" or "48h" into milliseconds.
+ * Throws a BAD_INPUT LatticeError on any other format.
+ */
+export function parseDuration(s: string): number {
+  const match = s.match(/^(\d+)(d|h)$/);
+  if (!match) {
     throw new LatticeError(
-      `Node not found: '${query}'. Try an exact slug or a unique substring of the title.`,
+      `Invalid duration '${s}'. Use format like 7d (days) or 48h (hours).`,
       EXIT.BAD_INPUT,
     );
   }
+  const value = parseInt(match[1], 10);
+  const unit = match[2];
+  if (unit === "d") return value * 24 * 60 * 60 * 1000;
+  return value * 60 * 60 * 1000;
+}
+
+/**
+ * Read from stdin with a 30-second timeout.
+ * If stdin is a TTY (no pipe), warns on stderr and times out.
+ */
+export async function readStdin(): Promise<string> {
+  const TIMEOUT_MS = 30_000;
+
+  if (process.stdin.isTTY) {
+    process.stderr.write(
+      "Warning: Reading proposition from stdin (TTY detected). " +
+        "Pipe input or press Ctrl+D when done. Timeout: 30s.\n",
+    );
+  }
+
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    const timer = setTimeout(() => {
+      process.stdin.destroy();
+      reject(
+        new LatticeError(
+          "Stdin read timed out after 30 seconds. Pipe input or use --proposition with text directly.",
+          EXIT.BAD_INPUT,
+        ),
+      );
+    }, TIMEOUT_MS);
 
-  return result.slug;
+    process.stdin.on("data", (chunk) => chunks.push(chunk));
+    process.stdin.on("end", () => {
+      clearTimeout(timer);
+      resolve(Buffer.concat(chunks).toString("utf-8"));
+    });
+    process.stdin.on("error", (err) => {
+      clearTimeout(timer);
+      reject(err);
+    });
+  });
 }
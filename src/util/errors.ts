@@ -1,4 +1,6 @@
 import { EXIT } from "../core/constants.js";
+import { bedrockLevels, levelNames } from "../core/levels.js";
+import { initialStatus, statusNames } from "../core/statuses.js";
 
 /**
  * Base error class for the lattice CLI.
@@ -33,24 +35,35 @@ export class VaultNotInitializedError extends LatticeError {
 export class InvalidLevelError extends LatticeError {
   constructor(given: string) {
     super(
-      `Invalid level '${given}'. Must be one of: percept, axiom, principle, application`,
+      `Invalid level '${given}'. Must be one of: ${levelNames().join(", ")}`,
       EXIT.BAD_INPUT,
     );
     this.name = "InvalidLevelError";
   }
 }
 
-/** Missing reduces_to on a non-bedrock node (principle or application). */
+/** Missing reduces_to on a non-bedrock node (e.g. principle or application). */
 export class MissingReductionError extends LatticeError {
   constructor(level: string) {
     super(
-      `Non-bedrock node (level: ${level}) requires at least one --reduces-to link. Only axioms and percepts may have empty reduces_to.`,
+      `Non-bedrock node (level: ${level}) requires at least one --reduces-to link. Only bedrock levels (${bedrockLevels().join(", ")}) may have empty reduces_to.`,
       EXIT.BAD_INPUT,
     );
     this.name = "MissingReductionError";
   }
 }
 
+/** reduces_to on a bedrock node (e.g. axiom or percept). */
+export class BedrockReductionError extends LatticeError {
+  constructor(level: string) {
+    super(
+      `${level.charAt(0).toUpperCase()}${level.slice(1)} nodes must not have --reduces-to links (they are irreducible bedrock)`,
+      EXIT.BAD_INPUT,
+    );
+    this.name = "BedrockReductionError";
+  }
+}
+
 /** reduces_to target not found in vault. */
 export class TargetNotFoundError extends LatticeError {
   constructor(slug: string) {
@@ -99,18 +112,29 @@ export class RogueTagError extends LatticeError {
 export class InvalidStatusError extends LatticeError {
   constructor(given: string) {
     super(
-      `Invalid status '${given}'. Must be 'Integrated/Validated' or 'Tentative/Hypothesis'`,
+      `Invalid status '${given}'. Must be one of: ${statusNames().map((s) => `'${s}'`).join(", ")}`,
       EXIT.BAD_INPUT,
     );
     this.name = "InvalidStatusError";
   }
 }
 
+/** Status change not allowed by the vault's transitions. */
+export class InvalidTransitionError extends LatticeError {
+  constructor(from: string, to: string, allowed: string[]) {
+    super(
+      `Cannot change status from '${from}' to '${to}'. ${from} may only change to: ${allowed.length > 0 ? allowed.join(", ") : "nothing (it is final)"}`,
+      EXIT.VALIDATION_ERROR,
+    );
+    this.name = "InvalidTransitionError";
+  }
+}
+
 /** Node cannot be deleted (has incoming links and is validated). */
 export class DeleteBlockedError extends LatticeError {
   constructor(slug: string, incomingCount: number) {
     super(
-      `Cannot delete '${slug}': ${incomingCount} other node(s) reduce to it and it is Integrated/Validated. Change status to Tentative/Hypothesis first or remove incoming links.`,
+      `Cannot delete '${slug}': ${incomingCount} other node(s) reduce to it and it is validated. Change status to ${initialStatus()} first, remove incoming links, or re-run with --detach or --cascade.`,
       EXIT.VALIDATION_ERROR,
     );
     this.name = "DeleteBlockedError";
@@ -125,6 +149,17 @@ export class FilesystemError extends LatticeError {
   }
 }
 
+/** No node matches a slug/title query. */
+export class NodeNotFoundError extends LatticeError {
+  constructor(query: string) {
+    super(
+      `Node not found: '${query}'. Try an exact slug or a unique substring of the title.`,
+      EXIT.BAD_INPUT,
+    );
+    this.name = "NodeNotFoundError";
+  }
+}
+
 /** Ambiguous node match — multiple nodes match the query. */
 export class AmbiguousMatchError extends LatticeError {
   constructor(query: string, candidates: string[]) {
@@ -143,9 +178,9 @@ export class AmbiguousMatchError extends LatticeError {
  * A chain is only as strong as its weakest link.
  */
 export class UnvalidatedParentError extends LatticeError {
-  constructor(parentSlug: string) {
+  constructor(parentSlug: string, parentStatus: string) {
     super(
-      `Cannot validate: parent node '${parentSlug}' is still Tentative/Hypothesis. Validate all parents before validating this node.`,
+      `Cannot validate: parent node '${parentSlug}' is still ${parentStatus}. Validate all parents before validating this node.`,
       EXIT.VALIDATION_ERROR,
     );
     this.name = "UnvalidatedParentError";
@@ -162,3 +197,41 @@ export class DuplicateSlugError extends LatticeError {
     this.name = "DuplicateSlugError";
   }
 }
+
+/**
+ * One operation in a batch failed validation or writing. Wraps the
+ * underlying error with the operation's position so the script can be
+ * fixed in one step. Keeps the underlying exit code.
+ */
+export class BatchOperationError extends LatticeError {
+  /** The operation's own error, without the position prefix. */
+  public readonly underlying: LatticeError;
+
+  constructor(index: number, op: string, cause: LatticeError) {
+    super(`Operation ${index + 1} (${op}): ${cause.message}`, cause.exitCode);
+    this.name = "BatchOperationError";
+    this.underlying = cause;
+  }
+}
+
+/**
+ * Another process holds the vault write lock and did not release it
+ * within LOCK_WAIT_MS.
+ */
+export class VaultLockedError extends LatticeError {
+  constructor(lockPath: string, holder: string) {
+    super(
+      `Vault is locked by another writer (${holder}). Retry when it finishes. If no lattice command is running, the lock is left over from a crash: delete '${lockPath}'.`,
+      EXIT.FILESYSTEM_ERROR,
+    );
+    this.name = "VaultLockedError";
+  }
+}
+
+/** The embedding provider failed or returned unusable vectors. */
+export class EmbeddingError extends LatticeError {
+  constructor(provider: string, detail: string) {
+    super(`Embedding provider '${provider}' failed: ${detail}`, EXIT.FILESYSTEM_ERROR);
+    this.name = "EmbeddingError";
+  }
+}
@@ -1,6 +1,8 @@
 import { encode } from "@toon-format/toon";
 import type { LatticeNode } from "../core/node.js";
 import type { ChainTreeNode, ValidationIssue } from "../core/graph.js";
+import type { DedupGroup, MergeRecord } from "../core/dedup.js";
+import { validatedStatus } from "../core/statuses.js";
 
 // ─── Output format enum ─────────────────────────────────────────────
 
@@ -22,7 +24,7 @@ export function resolveFormat(opts: {
 // ─── Node serialization ─────────────────────────────────────────────
 
 /** Serialize a LatticeNode to a plain object (for JSON/TOON output). */
-function nodeToObject(node: LatticeNode): Record<string, unknown> {
+export function nodeToObject(node: LatticeNode): Record<string, unknown> {
   return {
     slug: node.slug,
     title: node.title,
@@ -101,7 +103,8 @@ export function formatChainTree(
   }
 }
 
-function chainTreeToObject(
+/** Serialize a reduction chain to nested plain objects. */
+export function chainTreeToObject(
   tree: ChainTreeNode,
 ): Record<string, unknown> {
   return {
@@ -230,6 +233,15 @@ function formatValidationTable(
 
 // ─── Single-node created output ──────────────────────────────────────
 
+/**
+ * Message attached to promotion hints, in the vault's own status names
+ * (the hinted nodes are the open children of a newly validated node).
+ */
+export function promotionHintMessage(): string {
+  const validated = validatedStatus();
+  return `This node is now ${validated}. The following nodes reduce to it and are not yet ${validated} — their chain may now be complete. Consider running 'lattice update <slug> --status "${validated}"' for each, or 'lattice promote <this-node> --with-dependents' to promote them all in order.`;
+}
+
 export function formatCreated(
   slug: string,
   filePath: string,
@@ -240,8 +252,7 @@ export function formatCreated(
   const result: Record<string, unknown> = { created: filePath, slug, node };
   if (promotionHints && promotionHints.length > 0) {
     result.promotion_hints = {
-      message:
-        "This node is now Integrated/Validated. The following nodes reduce to it and are still Tentative/Hypothesis — their chain may now be complete. Consider running 'lattice update <slug> --status Integrated/Validated' for each.",
+      message: promotionHintMessage(),
       nodes: promotionHints,
     };
   }
@@ -277,3 +288,58 @@ export function formatTagList(
       return tags.map((t) => `  - ${t}`).join("\n");
   }
 }
+
+// ─── Dedup list formatting ───────────────────────────────────────────
+
+/** Open groups and/or merge history; a section is left out when not given. */
+export function formatDedupList(
+  list: { groups?: DedupGroup[]; merges?: MergeRecord[] },
+  format: OutputFormat,
+): string {
+  switch (format) {
+    case "json":
+      return JSON.stringify(list, null, 2);
+    case "toon":
+      return encode(list);
+    case "table":
+      return formatDedupListTable(list);
+  }
+}
+
+function formatDedupListTable(list: { groups?: DedupGroup[]; merges?: MergeRecord[] }): string {
+  const lines: string[] = [];
+
+  if (list.groups) {
+    lines.push(`Open groups: ${list.groups.length}`);
+    for (const group of list.groups) {
+      const age = group.age_days === null ? "age unknown" : `${group.age_days}d old`;
+      lines.push("");
+      lines.push(`${group.id}  ${group.level}, ${group.nodes.length} nodes, ${age}`);
+      for (const node of group.nodes) {
+        lines.push(`  ${node.slug}  "${node.title}"  ${node.status}`);
+      }
+    }
+  }
+
+  if (list.merges) {
+    if (lines.length > 0) lines.push("");
+    lines.push(`Merges: ${list.merges.length}`);
+    for (const merge of list.merges) {
+      const date = merge.merged_date?.slice(0, 10) ?? "undated";
+      const state = merge.state === "undone"
+        ? `UNDONE${merge.undo_reason ? `: ${merge.undo_reason}` : ""}`
+        : "active";
+      lines.push("");
+      lines.push(`${merge.canonical}  "${merge.title}"`);
+      lines.push(`  ${date}  ${merge.level}  ${state}${merge.group ? `  ${merge.group}` : ""}`);
+      if (merge.merged_reason) lines.push(`  reason: ${merge.merged_reason}`);
+      for (const original of merge.originals) {
+        const where = original.in_trash ? original.trashed_path : "restored";
+        const title = original.title ? `  "${original.title}"` : "";
+        lines.push(`  \u2190 ${original.slug}${title}  (${where})`);
+      }
+    }
+  }
+
+  return lines.join("\n");
+}
@@ -1,14 +1,14 @@
 import { defineConfig } from "tsup";
 
 export default defineConfig({
-  entry: ["src/cli.ts"],
+  entry: ["src/cli.ts", "src/index.ts"],
   format: ["esm"],
   target: "node20",
   platform: "node",
   splitting: false,
   sourcemap: true,
   clean: true,
-  dts: false,
+  dts: { entry: "src/index.ts" },
   banner: {
     js: "#!/usr/bin/env node",
   },